@@ -1,10 +1,12 @@
-import React, { memo } from "react";
+import React, { memo, useEffect } from "react";
 import { Tabs } from "expo-router";
 import { Platform, Image, ImageBackground, Pressable, Text, View, ImageStyle, ViewStyle } from "react-native";
 import { useSafeAreaInsets } from "react-native-safe-area-context";
 import { useThemeMode } from "@/theme/ThemeProvider";
 import { images } from "@/constants/images";
 import { icons } from "@/constants/icons";
+import { startOutbox } from "@/lib/outbox";
+import { useAuth } from "@/providers/AuthProvider";
 
 type TabIconProps = { focused: boolean; icon: any; label: string };
 const isWeb = Platform.OS === "web";
@@ -101,6 +103,12 @@ export default function TabsLayout() {
   const insets = useSafeAreaInsets();
   const bottomPad = Math.max(insets.bottom, 16);
 
+  const { user } = useAuth();
+  const userId = user?.id;
+
+  // Drain offline work only while signed in, and only the signed-in user's items
+  useEffect(() => (userId ? startOutbox(userId) : undefined), [userId]);
+
   return (
     <Tabs
       screenOptions={{
@@ -145,6 +153,12 @@ export default function TabsLayout() {
         options={makeTabOptions("Profile", icons.person)}
       />
       <Tabs.Screen name="tools" options={{ href: null }} />
+      <Tabs.Screen name="note-editor" options={{ href: null }} />
+      <Tabs.Screen name="note-reader" options={{ href: null }} />
+      <Tabs.Screen name="search" options={{ href: null }} />
+      <Tabs.Screen name="courses" options={{ href: null }} />
+      <Tabs.Screen name="trash" options={{ href: null }} />
+      <Tabs.Screen name="scan" options={{ href: null }} />
     </Tabs>
   );
 }
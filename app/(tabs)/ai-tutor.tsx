@@ -12,99 +12,65 @@ import {
 } from "react-native";
 import { useSafeAreaInsets } from "react-native-safe-area-context";
 import { useAuth } from "@/providers/AuthProvider";
-import { getApiBase } from "@/constants/api";
+import { useAppLock } from "@/providers/AppLockProvider";
 import Header from "@/components/Header";
+import VerifyEmailNotice from "@/components/VerifyEmailNotice";
 import AsyncStorage from "@react-native-async-storage/async-storage";
 import { useThemeMode } from "@/theme/ThemeProvider";
-import { Send } from "lucide-react-native";
+import { Send, Square } from "lucide-react-native";
 import { useFocusEffect } from "@react-navigation/native";
+import { useLocalSearchParams, useRouter } from "expo-router";
 import { on } from "@/lib/eventBus";
-
-type Note = {
-  id: string;
-  title: string;
-  source: "MANUAL" | "UPLOAD" | "LINK";
-  createdAt: string;
-};
+import * as api from "@/lib/apiClient";
+import { ApiError, errorMessage, extractReply, type Note } from "@/lib/apiClient";
+import { enqueue, isNetworkError } from "@/lib/outbox";
+import { CHAT_CACHE } from "@/lib/toolsCache";
 
 type ChatMsg = {
   id: string;
   role: "user" | "assistant" | "system";
   text: string;
   ts: number;
+  stopped?: boolean; // user cancelled mid-answer; text holds the partial reply
+  pending?: boolean; // question queued offline; text is filled in by the outbox
 };
 
-const API_BASE = getApiBase();
 const LAST_INDEXED_KEY = "last-indexed-note-id";
-const CHAT_CACHE = (noteId: string) => `ai-tutor:chat:${noteId}`;
-
-/** Robustly extract a reply string from many common API payload shapes */
-function extractReply(payload: any): string | null {
-  if (!payload) return null;
-
-  if (typeof payload === "string") return payload.trim() || null;
-
-  // flat fields
-  const flat =
-    payload.reply ??
-    payload.message ??
-    payload.answer ??
-    payload.text ??
-    payload.content;
-  if (typeof flat === "string" && flat.trim()) return flat.trim();
-
-  // nested common containers
-  const d = payload.data || payload.result || payload.response || {};
-  const nested =
-    d.reply ?? d.message ?? d.answer ?? d.text ?? d.content;
-  if (typeof nested === "string" && nested.trim()) return nested.trim();
-
-  // OpenAI chat / responses-like
-  const choice = payload.choices?.[0];
-  const openaiMsg = choice?.message?.content ?? choice?.text;
-  if (typeof openaiMsg === "string" && openaiMsg.trim()) return openaiMsg.trim();
-
-  // Gemini-ish candidates
-  const parts = payload.candidates?.[0]?.content?.parts;
-  if (Array.isArray(parts)) {
-    const joined = parts
-      .map((p: any) => p?.text)
-      .filter(Boolean)
-      .join("\n")
-      .trim();
-    if (joined) return joined;
-  }
-
-  // LangChain-ish
-  const lc =
-    payload.output_text ??
-    payload.output ??
-    payload.generations?.[0]?.[0]?.text;
-  if (typeof lc === "string" && lc.trim()) return lc.trim();
-
-  return null;
-}
 
 export default function AITutorScreen() {
   const insets = useSafeAreaInsets();
   const TAB_BAR_HEIGHT = 54;
   const EXTRA_MARGIN = Platform.OS === "ios" ? 12 : 25;
 
-  const { getAccessToken, user, loading } = useAuth();
+  const { user, loading, needsVerification } = useAuth();
   const { colors } = useThemeMode();
+  const router = useRouter();
+  const { noteId: noteIdParam } = useLocalSearchParams<{ noteId?: string }>();
 
   const [notesLoading, setNotesLoading] = useState(true);
   const [notesErr, setNotesErr] = useState<string | null>(null);
   const [notes, setNotes] = useState<Note[]>([]);
   const [noteId, setNoteId] = useState<string | null>(null);
+  // read inside loadNotes, which can't depend on the state without re-subscribing
+  const noteIdRef = useRef<string | null>(null);
 
   const [composer, setComposer] = useState("");
+  const { noteActivity } = useAppLock();
+
+  // typing (soft or hardware keyboard) never reaches the lock's touch handler
+  useEffect(() => noteActivity(), [composer, noteActivity]);
   const [sending, setSending] = useState(false);
   const [msgs, setMsgs] = useState<ChatMsg[]>([]);
+  const [streamingId, setStreamingId] = useState<string | null>(null);
 
   const scrollRef = useRef<ScrollView>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  // note changes announced mid-answer; applied once the reply has finished
+  const sendingRef = useRef(false);
+  const deferredRef = useRef<{ noteId?: string } | null>(null);
+  sendingRef.current = sending;
 
-  const canChat = useMemo(() => !!noteId, [noteId]);
+  const canChat = useMemo(() => !!noteId && !needsVerification, [noteId, needsVerification]);
   const hasNotes = notes.length > 0;
 
   /* ------------------------------ load notes ------------------------------ */
@@ -113,45 +79,35 @@ export default function AITutorScreen() {
       try {
         setNotesLoading(true);
         setNotesErr(null);
-        const token = await getAccessToken();
-        const res = await fetch(`${API_BASE}/api/notes`, {
-          headers: token ? { Authorization: `Bearer ${token}` } : {},
-        });
-        const json = await res.json().catch(() => []);
-        if (!res.ok) {
-          throw new Error(
-            (typeof (json as any)?.error === "string" && (json as any).error) ||
-              "Failed to fetch notes"
-          );
-        }
-
-        const onlyUploads = (json as Note[]).filter((n) => n.source === "UPLOAD");
-        setNotes(onlyUploads);
-        if (onlyUploads.length === 0) {
+        const json = await api.listNotes();
+        setNotes(json);
+        if (json.length === 0) {
+          noteIdRef.current = null;
           setNoteId(null);
           setMsgs([]);
           return;
         }
 
-        // decide which note to pick
+        // decide which note to pick: the one asked for, else keep the current pick,
+        // else the last-indexed note, else the first
         const last = await AsyncStorage.getItem(LAST_INDEXED_KEY);
         const candidate =
-          preferNoteId && onlyUploads.find((n) => n.id === preferNoteId)
-            ? preferNoteId
-            : onlyUploads.find((n) => n.id === last)?.id ?? onlyUploads[0]?.id;
+          [preferNoteId, noteIdRef.current, last].find((id) => id && json.some((n) => n.id === id)) ??
+          json[0]?.id;
 
         if (candidate) {
+          noteIdRef.current = candidate;
           setNoteId(candidate);
         }
       } catch (e: any) {
         console.error("load notes", e);
-        setNotesErr(e?.message || "Could not load notes.");
+        setNotesErr(errorMessage(e, "Failed to fetch notes"));
         setNotes([]);
       } finally {
         setNotesLoading(false);
       }
     },
-    [getAccessToken]
+    []
   );
 
   useEffect(() => {
@@ -160,21 +116,64 @@ export default function AITutorScreen() {
 
   useFocusEffect(
     React.useCallback(() => {
-      // when user navigates back to AI Tutor, refresh
+      // when user navigates back to AI Tutor, refresh (keeping the current pick)
       void loadNotes();
 
       // subscribe to cross-tab note changes (upload, delete, auto-index)
       const off = on("notes:changed", ({ noteId }) => {
+        // switching notes mid-answer would drop the reply, so wait for it
+        if (sendingRef.current) {
+          deferredRef.current = { noteId: noteId ?? deferredRef.current?.noteId };
+          return;
+        }
         // re-load and, if we know the new noteId, prefer it
         void loadNotes(noteId);
       });
 
-      // cleanup
       return () => off();
     }, [loadNotes])
   );
+
+  useEffect(() => {
+    if (sending || !deferredRef.current) return;
+    const { noteId: next } = deferredRef.current;
+    deferredRef.current = null;
+    void loadNotes(next);
+  }, [sending, loadNotes]);
+
+  // a note passed in the route (Home, Search) is applied once; clearing the param
+  // keeps later visits from snapping back to it
+  useEffect(() => {
+    if (!noteIdParam) return;
+    void loadNotes(noteIdParam);
+    router.setParams({ noteId: undefined });
+  }, [noteIdParam, loadNotes, router]);
+
+  // Queued questions answered (or given up on) while the tab is in the background.
+  // Subscribed for the screen's whole life: the outbox has already written the cache,
+  // and a stale placeholder left in `msgs` would be persisted over the real answer.
+  useEffect(() => {
+    const offDone = on("outbox:done", ({ item, result }) => {
+      if (item.kind !== "chat") return;
+      setMsgs((m) =>
+        m.map((x) =>
+          x.id === item.replyId ? { ...x, text: String(result), pending: false, ts: Date.now() } : x
+        )
+      );
+    });
+    const offFailed = on("outbox:failed", ({ item, error }) => {
+      if (item.kind !== "chat") return;
+      setMsgs((m) => m.map((x) => (x.id === item.replyId ? { ...x, text: error, pending: false } : x)));
+    });
+    return () => {
+      offDone();
+      offFailed();
+    };
+  }, []);
   /* -------------------------- hydrate chat per note ----------------------- */
   useEffect(() => {
+    // a reply still streaming belongs to the previous note
+    abortRef.current?.abort();
     (async () => {
       if (!noteId) return;
       try {
@@ -204,17 +203,21 @@ export default function AITutorScreen() {
 
   /* --------------------------- persist chat cache ------------------------- */
   useEffect(() => {
-    if (!noteId) return;
+    // skip per-token writes while streaming; the final (or partial) reply is saved once it ends
+    if (!noteId || streamingId) return;
     AsyncStorage.setItem(CHAT_CACHE(noteId), JSON.stringify(msgs)).catch(() => {});
-  }, [noteId, msgs]);
+  }, [noteId, msgs, streamingId]);
+
+  useEffect(() => () => abortRef.current?.abort(), []);
 
   /* ----------------------------- auto scroll ------------------------------ */
+  const lastTextLength = msgs[msgs.length - 1]?.text.length ?? 0;
   useEffect(() => {
     const t = setTimeout(() => {
       scrollRef.current?.scrollToEnd({ animated: true });
     }, 60);
     return () => clearTimeout(t);
-  }, [msgs.length]);
+  }, [msgs.length, lastTextLength]);
 
   /* ------------------------------- send msg ------------------------------- */
   async function onSend() {
@@ -227,79 +230,87 @@ export default function AITutorScreen() {
       text,
       ts: Date.now(),
     };
-    setMsgs((m) => [...m, userMsg]);
+    const replyId = `a-${Date.now()}`;
+    setMsgs((m) => [...m, userMsg, { id: replyId, role: "assistant", ts: Date.now(), text: "" }]);
     setComposer("");
     setSending(true);
+    setStreamingId(replyId);
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+    const patchReply = (fn: (msg: ChatMsg) => ChatMsg) =>
+      setMsgs((m) => m.map((x) => (x.id === replyId ? fn(x) : x)));
+    let received = false;
 
     try {
-      const token = await getAccessToken();
-      const res = await fetch(`${API_BASE}/api/chat`, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          ...(token ? { Authorization: `Bearer ${token}` } : {}),
+      const result = await api.chatStream(
+        noteId!,
+        text,
+        (delta) => {
+          received = true;
+          patchReply((x) => ({ ...x, text: x.text + delta }));
         },
-        body: JSON.stringify({ noteId, message: text }),
-      });
+        controller.signal
+      );
 
-      const json = await res.json().catch(() => ({}));
-      if (!res.ok) {
-        const errText =
-          (typeof (json as any)?.error === "string" && (json as any).error) ||
-          "Sorry — I couldn’t process that question.";
-        setMsgs((m) => [
-          ...m,
-          {
-            id: `a-${Date.now()}`,
-            role: "assistant",
-            ts: Date.now(),
-            text: errText,
-          },
-        ]);
+      if (controller.signal.aborted) {
+        patchReply((x) => ({ ...x, stopped: true, text: x.text || "Stopped." }));
         return;
       }
 
-      const botText = extractReply(json);
-      if (!botText) {
-        console.warn("[AI Tutor] Unexpected chat payload:", json);
-        setMsgs((m) => [
-          ...m,
-          {
-            id: `a-${Date.now()}`,
-            role: "assistant",
-            ts: Date.now(),
-            text:
-              "I got a response, but couldn’t read it. Please try again or rephrase your question.",
-          },
-        ]);
+      if (result.streamed) {
+        if (!result.text.trim()) {
+          patchReply((x) => ({
+            ...x,
+            text: "I got a response, but couldn’t read it. Please try again or rephrase your question.",
+          }));
+        }
         return;
       }
 
-      setMsgs((m) => [
-        ...m,
-        {
-          id: `a-${Date.now()}`,
-          role: "assistant",
-          ts: Date.now(),
-          text: botText,
-        },
-      ]);
+      const botText = extractReply(result.payload);
+      if (!botText) {
+        console.warn("[AI Tutor] Unexpected chat payload:", result.payload);
+        patchReply((x) => ({
+          ...x,
+          text: "I got a response, but couldn’t read it. Please try again or rephrase your question.",
+        }));
+        return;
+      }
+      patchReply((x) => ({ ...x, text: botText }));
     } catch (e: any) {
+      if (controller.signal.aborted) {
+        patchReply((x) => ({ ...x, stopped: true, text: x.text || "Stopped." }));
+        return;
+      }
+      // nothing streamed and no connection: ask again once we're back online
+      if (isNetworkError(e) && !received) {
+        await enqueue({ kind: "chat", noteId: noteId!, message: text, replyId });
+        patchReply((x) => ({
+          ...x,
+          pending: true,
+          text: "You're offline — I'll answer this as soon as you're back online.",
+        }));
+        return;
+      }
       console.error("chat error", e);
-      setMsgs((m) => [
-        ...m,
-        {
-          id: `a-${Date.now()}`,
-          role: "assistant",
-          ts: Date.now(),
-          text: "Network error — please try again.",
-        },
-      ]);
+      const errText =
+        e instanceof ApiError
+          ? errorMessage(e, "Sorry — I couldn’t process that question.")
+          : "Network error — please try again.";
+      // keep whatever already streamed in; only fill an empty bubble with the error
+      patchReply((x) => (x.text ? { ...x, stopped: true } : { ...x, text: errText }));
     } finally {
+      if (abortRef.current === controller) abortRef.current = null;
+      setStreamingId(null);
       setSending(false);
     }
   }
 
+  function onStop() {
+    abortRef.current?.abort();
+  }
+
   if (loading || !user) {
     return (
       <View className="flex-1 items-center justify-center bg-light-bg dark:bg-dark-bg">
@@ -323,6 +334,7 @@ export default function AITutorScreen() {
           Have a question about your notes? Ask anything or request writing grounded in your
           selected note.
         </Text>
+        <VerifyEmailNotice feature="the AI Tutor" />
       </View>
 
       {/* Notes selector */}
@@ -339,7 +351,7 @@ export default function AITutorScreen() {
         ) : notes.length === 0 ? (
           <View className="py-3">
             <Text className="text-light-subtext dark:text-dark-subtext">
-              No notes yet. Upload and index a note to start chatting.
+              No notes yet. Upload or write a note to start chatting.
             </Text>
           </View>
         ) : (
@@ -353,7 +365,10 @@ export default function AITutorScreen() {
               const active = item.id === noteId;
               return (
                 <Pressable
+                  // switching notes mid-answer would drop the reply from this note's history
+                  disabled={sending}
                   onPress={() => {
+                    noteIdRef.current = item.id;
                     setNoteId(item.id);
                     AsyncStorage.setItem(LAST_INDEXED_KEY, item.id).catch(() => {});
                   }}
@@ -401,7 +416,7 @@ export default function AITutorScreen() {
           showsVerticalScrollIndicator={false}
         >
         {msgs.map((m) => (
-          <Bubble key={m.id} msg={m} colors={colors} />
+          <Bubble key={m.id} msg={m} colors={colors} streaming={m.id === streamingId} />
         ))}
       </ScrollView>
       )}
@@ -428,6 +443,8 @@ export default function AITutorScreen() {
             placeholder={
               !hasNotes
                 ? "Upload and index a note to start chatting"
+                : needsVerification
+                ? "Verify your email to start chatting"
                 : canChat
                 ? "Type your question…"
                 : "Select a note to start chatting"
@@ -463,26 +480,33 @@ export default function AITutorScreen() {
             className="flex-1 min-h-[30px] max-h-[90px] text-light-text dark:text-dark-text"
             style={{ color: colors.foreground }}
           />
-          <Pressable
-            onPress={onSend}
-            disabled={!hasNotes || !canChat || !composer.trim() || sending}
-            className={`ml-2 px-3 py-2 rounded-xl ${
-              !hasNotes || !canChat || !composer.trim() || sending ? "opacity-50" : ""
-            }`}
-            style={{ backgroundColor: colors.primary }}
-          >
-            {sending ? (
-              <ActivityIndicator color="#fff" />
-            ) : (
+          {sending ? (
+            <Pressable
+              onPress={onStop}
+              accessibilityLabel="Stop answer"
+              className="ml-2 px-3 py-2 rounded-xl"
+              style={{ backgroundColor: colors.destructive }}
+            >
+              <Square size={18} color="#fff" fill="#fff" />
+            </Pressable>
+          ) : (
+            <Pressable
+              onPress={onSend}
+              disabled={!hasNotes || !canChat || !composer.trim()}
+              className={`ml-2 px-3 py-2 rounded-xl ${
+                !hasNotes || !canChat || !composer.trim() ? "opacity-50" : ""
+              }`}
+              style={{ backgroundColor: colors.primary }}
+            >
               <Send size={18} color="#fff" />
-            )}
-          </Pressable>
+            </Pressable>
+          )}
         </View>
         {!hasNotes ? (
           <Text className="mt-2 text-xs" style={{ color: colors.grey }}>
-            You don't have any uploaded notes yet. Go to Notes and upload one first.
+            You don't have any notes yet. Go to Notes and upload or write one first.
           </Text>
-        ) : !canChat ? (
+        ) : !canChat && !needsVerification ? (
           <Text className="mt-2 text-xs" style={{ color: colors.grey }}>
             Select a note above to enable chat.
           </Text>
@@ -494,7 +518,7 @@ export default function AITutorScreen() {
 
 /* ------------------------------- Bubble UI -------------------------------- */
 
-function Bubble({ msg, colors }: { msg: ChatMsg; colors: any }) {
+function Bubble({ msg, colors, streaming = false }: { msg: ChatMsg; colors: any; streaming?: boolean }) {
   const isUser = msg.role === "user";
   return (
     <View className={`w-full mt-3 ${isUser ? "items-end" : "items-start"}`}>
@@ -505,18 +529,25 @@ function Bubble({ msg, colors }: { msg: ChatMsg; colors: any }) {
           borderColor: isUser ? colors.primary : colors.grey4,
         }}
       >
-        <Text
-          className="text-[13px]"
-          style={{ color: isUser ? "#fff" : colors.foreground }}
-          selectable
-        >
-          {msg.text}
-        </Text>
+        {streaming && !msg.text ? (
+          <ActivityIndicator size="small" color={colors.grey} />
+        ) : (
+          <Text
+            className="text-[13px]"
+            style={{ color: isUser ? "#fff" : colors.foreground }}
+            selectable
+          >
+            {msg.text}
+            {streaming ? "▍" : ""}
+          </Text>
+        )}
         <Text
           className="text-[10px] mt-1"
           style={{ color: isUser ? "rgba(255,255,255,0.8)" : colors.grey }}
         >
           {new Date(msg.ts).toLocaleTimeString()}
+          {msg.stopped ? " · stopped" : ""}
+          {msg.pending ? " · queued" : ""}
         </Text>
       </View>
     </View>
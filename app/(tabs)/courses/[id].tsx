@@ -0,0 +1,319 @@
+import React, { useMemo, useState } from "react";
+import { ActivityIndicator, Alert, Pressable, ScrollView, Text, View } from "react-native";
+import { useLocalSearchParams, useRouter } from "expo-router";
+import { useFocusEffect } from "@react-navigation/native";
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+import { ChevronLeft } from "lucide-react-native";
+import Header from "@/components/Header";
+import CourseFormModal from "@/components/CourseFormModal";
+import { useAuth } from "@/providers/AuthProvider";
+import { useThemeMode } from "@/theme/ThemeProvider";
+import * as api from "@/lib/apiClient";
+import { errorMessage, type Note } from "@/lib/apiClient";
+import { daysUntil, examLabel, loadProgress, useCourses, type NoteProgress } from "@/lib/courses";
+import { emit, on } from "@/lib/eventBus";
+
+const TAB_BAR_HEIGHT = 54;
+const LAST_INDEXED_KEY = "last-indexed-note-id";
+const TOOLS: { key: keyof NoteProgress; label: string }[] = [
+  { key: "summary", label: "Summary" },
+  { key: "flashcards", label: "Flashcards" },
+  { key: "quiz", label: "Quiz" },
+  { key: "chat", label: "Tutor" },
+];
+
+/** One course: exam countdown, its notes and how far each one has been studied */
+export default function CourseOverviewScreen() {
+  const insets = useSafeAreaInsets();
+  const router = useRouter();
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const { user, loading } = useAuth();
+  const { colors } = useThemeMode();
+  const { courses, loading: coursesLoading } = useCourses(!loading && !!user);
+
+  const [notes, setNotes] = useState<Note[]>([]);
+  const [progress, setProgress] = useState<Record<string, NoteProgress>>({});
+  const [notesLoading, setNotesLoading] = useState(true);
+  const [editOpen, setEditOpen] = useState(false);
+  const [adding, setAdding] = useState(false);
+  const [moving, setMoving] = useState<string | null>(null);
+
+  const course = courses.find((c) => c.id === id) ?? null;
+
+  const load = React.useCallback(async () => {
+    try {
+      const all = await api.listNotes();
+      setNotes(all);
+      setProgress(await loadProgress(all.filter((n) => n.courseId === id).map((n) => n.id)));
+    } catch (e) {
+      console.warn("Failed to load notes", e);
+    } finally {
+      setNotesLoading(false);
+    }
+  }, [id]);
+
+  useFocusEffect(
+    React.useCallback(() => {
+      if (loading || !user) return;
+      void load();
+      return on("notes:changed", () => void load());
+    }, [loading, user, load])
+  );
+
+  const courseNotes = useMemo(
+    () =>
+      notes
+        .filter((n) => n.courseId === id)
+        .sort((a, b) => +new Date(b.createdAt) - +new Date(a.createdAt)),
+    [notes, id]
+  );
+  const otherNotes = useMemo(() => notes.filter((n) => n.courseId !== id), [notes, id]);
+
+  const done = courseNotes.reduce((sum, n) => sum + TOOLS.filter((t) => progress[n.id]?.[t.key]).length, 0);
+  const total = courseNotes.length * TOOLS.length;
+
+  async function move(note: Note, courseId: string | null) {
+    try {
+      setMoving(note.id);
+      await api.setNoteCourse(note.id, courseId);
+      emit("notes:changed", { noteId: note.id });
+    } catch (e) {
+      console.error("Assign course error", e);
+      Alert.alert("Couldn't move note", errorMessage(e, "Please try again."));
+    } finally {
+      setMoving(null);
+    }
+  }
+
+  async function open(
+    pathname: "/(tabs)/note-reader" | "/(tabs)/study-tools" | "/(tabs)/ai-tutor",
+    noteId: string
+  ) {
+    await AsyncStorage.setItem(LAST_INDEXED_KEY, noteId).catch(() => {});
+    router.push({ pathname, params: { noteId } });
+  }
+
+  if (loading || !user || coursesLoading) {
+    return (
+      <View className="flex-1 items-center justify-center bg-light-bg dark:bg-dark-bg">
+        <ActivityIndicator />
+      </View>
+    );
+  }
+
+  if (!course) {
+    return (
+      <View className="flex-1 bg-light-bg dark:bg-dark-bg">
+        <Header />
+        <View className="px-6 pt-6">
+          <Text style={{ color: colors.grey }}>This course no longer exists.</Text>
+          <Pressable onPress={() => router.replace("/(tabs)/courses")} className="mt-3">
+            <Text style={{ color: colors.primary }}>Back to courses</Text>
+          </Pressable>
+        </View>
+      </View>
+    );
+  }
+
+  const days = daysUntil(course.examDate);
+  const exam = examLabel(course.examDate);
+
+  return (
+    <View className="flex-1 bg-light-bg dark:bg-dark-bg">
+      <Header />
+      <ScrollView
+        className="flex-1"
+        contentContainerStyle={{
+          paddingHorizontal: 24,
+          paddingTop: 16,
+          paddingBottom: insets.bottom + TAB_BAR_HEIGHT + 48,
+        }}
+        showsVerticalScrollIndicator={false}
+      >
+        <Pressable onPress={() => router.back()} className="flex-row items-center gap-1 self-start">
+          <ChevronLeft size={18} color={colors.primary} />
+          <Text style={{ color: colors.primary }}>Courses</Text>
+        </Pressable>
+
+        <View className="mt-3 flex-row items-center gap-3">
+          <View style={{ width: 14, height: 14, borderRadius: 7, backgroundColor: course.color }} />
+          <Text className="flex-1 text-2xl font-bold text-light-text dark:text-dark-text">{course.name}</Text>
+          <Pressable
+            onPress={() => setEditOpen(true)}
+            className="px-3 py-2 rounded-xl"
+            style={{ borderWidth: 1, borderColor: colors.grey4 }}
+          >
+            <Text style={{ color: colors.foreground }}>Edit</Text>
+          </Pressable>
+        </View>
+
+        {/* Countdown + overall progress */}
+        <View
+          className="mt-4 rounded-2xl border p-4 flex-row gap-4"
+          style={{ borderColor: colors.grey4, backgroundColor: colors.card }}
+        >
+          <View className="flex-1">
+            <Text className="text-xs" style={{ color: colors.grey }}>
+              Exam
+            </Text>
+            <Text
+              className="mt-1 text-lg font-semibold"
+              style={{ color: days !== null && days >= 0 && days <= 7 ? colors.destructive : colors.foreground }}
+            >
+              {exam ?? "No date set"}
+            </Text>
+            {course.examDate ? (
+              <Text className="text-xs" style={{ color: colors.grey }}>
+                {new Date(`${course.examDate.slice(0, 10)}T00:00:00`).toLocaleDateString()}
+              </Text>
+            ) : null}
+          </View>
+          <View className="flex-1">
+            <Text className="text-xs" style={{ color: colors.grey }}>
+              Study progress
+            </Text>
+            <Text className="mt-1 text-lg font-semibold" style={{ color: colors.foreground }}>
+              {total ? `${Math.round((done / total) * 100)}%` : "—"}
+            </Text>
+            <View className="mt-1 h-1.5 rounded-full overflow-hidden" style={{ backgroundColor: colors.grey4 }}>
+              <View
+                className="h-full rounded-full"
+                style={{ width: `${total ? Math.round((done / total) * 100) : 0}%`, backgroundColor: course.color }}
+              />
+            </View>
+          </View>
+        </View>
+
+        <View className="mt-4 flex-row flex-wrap gap-2">
+          <SmallButton
+            label="Open in Notes"
+            primary
+            colors={colors}
+            onPress={() => router.push({ pathname: "/(tabs)/notes", params: { courseId: course.id } })}
+          />
+          <SmallButton
+            label="Study tools"
+            colors={colors}
+            onPress={() => router.push({ pathname: "/(tabs)/study-tools", params: { courseId: course.id } })}
+          />
+          <SmallButton label={adding ? "Done adding" : "Add notes"} colors={colors} onPress={() => setAdding((a) => !a)} />
+        </View>
+
+        {/* Add existing notes */}
+        {adding ? (
+          <View
+            className="mt-4 rounded-2xl border p-3 gap-2"
+            style={{ borderColor: colors.grey4, backgroundColor: colors.card }}
+          >
+            {otherNotes.length ? (
+              otherNotes.map((n) => (
+                <View key={n.id} className="flex-row items-center gap-2">
+                  <Text numberOfLines={1} className="flex-1" style={{ color: colors.foreground }}>
+                    {n.title || "(untitled)"}
+                  </Text>
+                  <SmallButton
+                    label={moving === n.id ? "Adding…" : "Add"}
+                    colors={colors}
+                    onPress={() => move(n, course.id)}
+                  />
+                </View>
+              ))
+            ) : (
+              <Text style={{ color: colors.grey }}>Every note is already in this course.</Text>
+            )}
+          </View>
+        ) : null}
+
+        {/* Notes */}
+        <Text className="mt-6 text-xl font-semibold text-light-text dark:text-dark-text">
+          Notes ({courseNotes.length})
+        </Text>
+        {notesLoading ? (
+          <View className="items-center justify-center py-10">
+            <ActivityIndicator />
+          </View>
+        ) : !courseNotes.length ? (
+          <Text className="mt-2" style={{ color: colors.grey }}>
+            No notes yet. Use “Add notes”, or upload from the Notes tab while this course is selected.
+          </Text>
+        ) : (
+          <View className="mt-3 gap-3">
+            {courseNotes.map((n) => (
+              <View
+                key={n.id}
+                className="rounded-2xl border p-4"
+                style={{ borderColor: colors.grey4, backgroundColor: colors.card }}
+              >
+                <Pressable onPress={() => open("/(tabs)/note-reader", n.id)}>
+                  <Text className="text-base font-semibold" style={{ color: colors.foreground }}>
+                    {n.title || "(untitled)"}
+                  </Text>
+                  <Text className="mt-1 text-xs" style={{ color: colors.grey }}>
+                    {new Date(n.createdAt).toLocaleDateString()}
+                  </Text>
+                </Pressable>
+                <View className="mt-3 flex-row flex-wrap gap-2">
+                  {TOOLS.map((t) => (
+                    <ProgressBadge key={t.key} label={t.label} done={!!progress[n.id]?.[t.key]} colors={colors} />
+                  ))}
+                </View>
+                <View className="mt-3 flex-row flex-wrap gap-2">
+                  <SmallButton label="Study" colors={colors} onPress={() => open("/(tabs)/study-tools", n.id)} />
+                  <SmallButton label="Ask AI Tutor" colors={colors} onPress={() => open("/(tabs)/ai-tutor", n.id)} />
+                  <SmallButton
+                    label={moving === n.id ? "Removing…" : "Remove from course"}
+                    colors={colors}
+                    onPress={() => move(n, null)}
+                  />
+                </View>
+              </View>
+            ))}
+          </View>
+        )}
+      </ScrollView>
+
+      <CourseFormModal visible={editOpen} course={course} onClose={() => setEditOpen(false)} />
+    </View>
+  );
+}
+
+/* ------------------------------ UI helpers ------------------------------- */
+
+function ProgressBadge({ label, done, colors }: { label: string; done: boolean; colors: any }) {
+  return (
+    <View
+      className="px-2 py-1 rounded-full"
+      style={done ? { backgroundColor: colors.primary } : { borderWidth: 1, borderColor: colors.grey4 }}
+    >
+      <Text className="text-xs" style={{ color: done ? "#fff" : colors.grey }}>
+        {done ? "✓ " : ""}
+        {label}
+      </Text>
+    </View>
+  );
+}
+
+function SmallButton({
+  label,
+  onPress,
+  colors,
+  primary = false,
+}: {
+  label: string;
+  onPress: () => void;
+  colors: any;
+  primary?: boolean;
+}) {
+  return (
+    <Pressable
+      onPress={onPress}
+      className="px-3 py-2 rounded-xl"
+      style={primary ? { backgroundColor: colors.primary } : { borderWidth: 1, borderColor: colors.grey4 }}
+    >
+      <Text className="text-xs font-semibold" style={{ color: primary ? "#fff" : colors.foreground }}>
+        {label}
+      </Text>
+    </Pressable>
+  );
+}
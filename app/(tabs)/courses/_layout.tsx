@@ -0,0 +1,17 @@
+import { Stack } from "expo-router";
+import React from "react";
+
+export default function CoursesStackLayout() {
+  return (
+    <Stack
+      screenOptions={{
+        headerShown: false,
+        headerBackTitleVisible: false,
+        headerTitleStyle: { fontSize: 18, fontWeight: "600" },
+      }}
+    >
+      <Stack.Screen name="index" options={{ title: "Courses" }} />
+      <Stack.Screen name="[id]" options={{ title: "Course" }} />
+    </Stack>
+  );
+}
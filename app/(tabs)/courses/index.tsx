@@ -0,0 +1,186 @@
+import React, { useMemo, useState } from "react";
+import { ActivityIndicator, Alert, FlatList, Pressable, Text, View } from "react-native";
+import { useRouter } from "expo-router";
+import { useFocusEffect } from "@react-navigation/native";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+import { Plus } from "lucide-react-native";
+import Header from "@/components/Header";
+import CourseFormModal from "@/components/CourseFormModal";
+import { useAuth } from "@/providers/AuthProvider";
+import { useThemeMode } from "@/theme/ThemeProvider";
+import * as api from "@/lib/apiClient";
+import { errorMessage, type Course, type Note } from "@/lib/apiClient";
+import { confirmAction } from "@/lib/confirm";
+import { examLabel, useCourses } from "@/lib/courses";
+import { emit, on } from "@/lib/eventBus";
+
+const TAB_BAR_HEIGHT = 54;
+
+export default function CoursesScreen() {
+  const insets = useSafeAreaInsets();
+  const router = useRouter();
+  const { user, loading, needsVerification } = useAuth();
+  const { colors } = useThemeMode();
+  const { courses, loading: coursesLoading, error } = useCourses(!loading && !!user);
+
+  const [notes, setNotes] = useState<Note[]>([]);
+  const [editing, setEditing] = useState<Course | null>(null);
+  const [formOpen, setFormOpen] = useState(false);
+
+  const loadNotes = React.useCallback(async () => {
+    try {
+      setNotes(await api.listNotes());
+    } catch (e) {
+      console.warn("Failed to load notes", e);
+    }
+  }, []);
+
+  useFocusEffect(
+    React.useCallback(() => {
+      if (loading || !user) return;
+      void loadNotes();
+      return on("notes:changed", () => void loadNotes());
+    }, [loading, user, loadNotes])
+  );
+
+  const counts = useMemo(() => {
+    const m = new Map<string, number>();
+    notes.forEach((n) => n.courseId && m.set(n.courseId, (m.get(n.courseId) ?? 0) + 1));
+    return m;
+  }, [notes]);
+
+  async function removeCourse(course: Course) {
+    try {
+      await api.deleteCourse(course.id);
+      emit("courses:changed", {});
+      emit("notes:changed", {});
+    } catch (e) {
+      console.error("Delete course error", e);
+      Alert.alert("Delete failed", errorMessage(e, "Could not delete the course"));
+    }
+  }
+
+  function confirmDelete(course: Course) {
+    confirmAction(
+      "Delete course?",
+      `“${course.name}” will be removed. Its notes are kept and become unassigned.`,
+      "Delete",
+      () => void removeCourse(course)
+    );
+  }
+
+  if (loading || !user) {
+    return (
+      <View className="flex-1 items-center justify-center bg-light-bg dark:bg-dark-bg">
+        <ActivityIndicator />
+      </View>
+    );
+  }
+
+  return (
+    <View className="flex-1 bg-light-bg dark:bg-dark-bg">
+      <Header />
+      <View className="px-6 pt-6 flex-row items-center justify-between">
+        <Text className="text-2xl font-bold text-light-text dark:text-dark-text">Courses</Text>
+        <Pressable
+          onPress={() => {
+            setEditing(null);
+            setFormOpen(true);
+          }}
+          disabled={needsVerification}
+          className={`px-4 py-2 rounded-2xl flex-row items-center gap-2 ${
+            needsVerification ? "bg-primary/60" : "bg-primary"
+          }`}
+        >
+          <Plus size={16} color="#fff" />
+          <Text className="text-white font-semibold">New course</Text>
+        </Pressable>
+      </View>
+
+      {coursesLoading ? (
+        <View className="items-center justify-center py-10">
+          <ActivityIndicator />
+        </View>
+      ) : error ? (
+        <Text className="px-6 mt-4" style={{ color: colors.destructive }}>
+          {error}
+        </Text>
+      ) : (
+        <FlatList
+          data={courses}
+          keyExtractor={(c) => c.id}
+          contentContainerStyle={{
+            paddingHorizontal: 24,
+            paddingTop: 16,
+            paddingBottom: insets.bottom + TAB_BAR_HEIGHT + 48,
+            gap: 12,
+          }}
+          ListEmptyComponent={
+            <Text className="mt-6 text-center" style={{ color: colors.grey }}>
+              Group your notes by subject — create a course, then add notes to it from here or the Notes tab.
+            </Text>
+          }
+          renderItem={({ item }) => (
+            <CourseCard
+              course={item}
+              count={counts.get(item.id) ?? 0}
+              colors={colors}
+              onOpen={() => router.push({ pathname: "/(tabs)/courses/[id]", params: { id: item.id } })}
+              onEdit={() => {
+                setEditing(item);
+                setFormOpen(true);
+              }}
+              onDelete={() => confirmDelete(item)}
+            />
+          )}
+        />
+      )}
+
+      <CourseFormModal visible={formOpen} course={editing} onClose={() => setFormOpen(false)} />
+    </View>
+  );
+}
+
+/* ------------------------------ UI helpers ------------------------------- */
+
+function CourseCard({
+  course,
+  count,
+  colors,
+  onOpen,
+  onEdit,
+  onDelete,
+}: {
+  course: Course;
+  count: number;
+  colors: any;
+  onOpen: () => void;
+  onEdit: () => void;
+  onDelete: () => void;
+}) {
+  const exam = examLabel(course.examDate);
+  return (
+    <Pressable
+      onPress={onOpen}
+      className="rounded-2xl border p-4 flex-row items-center gap-3"
+      style={{ backgroundColor: colors.card, borderColor: colors.grey4 }}
+    >
+      <View style={{ width: 6, alignSelf: "stretch", borderRadius: 3, backgroundColor: course.color }} />
+      <View className="flex-1">
+        <Text className="text-base font-semibold" style={{ color: colors.foreground }}>
+          {course.name}
+        </Text>
+        <Text className="mt-1 text-xs" style={{ color: colors.grey }}>
+          {count} note{count === 1 ? "" : "s"}
+          {exam ? ` · ${exam}` : ""}
+        </Text>
+      </View>
+      <Pressable onPress={onEdit} className="px-3 py-2 rounded-xl" style={{ borderWidth: 1, borderColor: colors.grey4 }}>
+        <Text style={{ color: colors.foreground }}>Edit</Text>
+      </Pressable>
+      <Pressable onPress={onDelete} className="px-3 py-2 rounded-xl" style={{ backgroundColor: colors.destructive }}>
+        <Text className="text-white">Delete</Text>
+      </Pressable>
+    </Pressable>
+  );
+}
@@ -1,4 +1,4 @@
-import React, { useEffect, useMemo, useState } from "react";
+import React, { useCallback, useEffect, useMemo, useState } from "react";
 import {
   ActivityIndicator,
   FlatList,
@@ -12,29 +12,25 @@ import { useSafeAreaInsets } from "react-native-safe-area-context";
 import { useRouter } from "expo-router";
 import AsyncStorage from "@react-native-async-storage/async-storage";
 import Header from "@/components/Header";
+import CourseFilterChips from "@/components/CourseFilterChips";
+import NoteFilterBar, { DEFAULT_NOTE_FILTER, type NoteFilterValue } from "@/components/NoteFilterBar";
 import { useAuth } from "@/providers/AuthProvider";
-import { getApiBase } from "@/constants/api";
 import { useThemeMode } from "@/theme/ThemeProvider";
-import { MessageSquare, UploadCloud, Sparkles, BookOpenCheck, Brain } from "lucide-react-native";
+import { MessageSquare, UploadCloud, Sparkles, BookOpenCheck, Brain, Search } from "lucide-react-native";
+import { on } from "@/lib/eventBus";
+import * as api from "@/lib/apiClient";
+import { errorMessage, type Course, type Note } from "@/lib/apiClient";
+import { examLabel, useCourses } from "@/lib/courses";
+import { allTags, filterNotes } from "@/lib/noteFilters";
+import { CHAT_CACHE, FC_CACHE, QZ_CACHE } from "@/lib/toolsCache";
 
-type Note = {
-  id: string;
-  title: string;
-  source: "MANUAL" | "UPLOAD" | "LINK";
-  createdAt: string;
-};
-
-const API_BASE = getApiBase();
 const TAB_BAR_HEIGHT = 54;
 const LAST_INDEXED_KEY = "last-indexed-note-id";
-const CHAT_CACHE = (noteId: string) => `ai-tutor:chat:${noteId}`;
-const FC_CACHE = (noteId: string) => `tools:flashcards:${noteId}`;
-const QZ_CACHE = (noteId: string) => `tools:quiz:${noteId}`;
 
 export default function HomeScreen() {
   const insets = useSafeAreaInsets();
   const router = useRouter();
-  const { user, loading, getAccessToken } = useAuth();
+  const { user, loading } = useAuth();
   const { colors } = useThemeMode();
 
   const [busy, setBusy] = useState(false);
@@ -44,6 +40,9 @@ export default function HomeScreen() {
   const [hasChat, setHasChat] = useState(false);
   const [hasFC, setHasFC] = useState(false);
   const [hasQZ, setHasQZ] = useState(false);
+  const [courseFilter, setCourseFilter] = useState<string | null>(null);
+  const [noteFilter, setNoteFilter] = useState<NoteFilterValue>(DEFAULT_NOTE_FILTER);
+  const { courses } = useCourses(!loading && !!user);
 
   // Helpers to select a note + navigate
   async function selectNote(noteId: string) {
@@ -58,56 +57,65 @@ export default function HomeScreen() {
     await selectNote(noteId);
     router.push({ pathname: "/(tabs)/ai-tutor", params: { noteId } });
   }
+  async function goToNote(noteId: string) {
+    await selectNote(noteId);
+    router.push({ pathname: "/(tabs)/notes", params: { noteId } });
+  }
 
   /* ------------------------------- load data ------------------------------ */
-  useEffect(() => {
-    if (!loading && !user) router.replace("/login");
+  const load = useCallback(async () => {
+    try {
+      setBusy(true);
+      setErr(null);
 
-    (async () => {
-      try {
-        setBusy(true);
-        setErr(null);
+      const json = await api.listNotes();
+      const all = json.sort(
+        (a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
+      );
+      setNotes(all);
 
-        const token = await getAccessToken();
-        const res = await fetch(`${API_BASE}/api/notes`, {
-          headers: token ? { Authorization: `Bearer ${token}` } : {},
-        });
-        const json = await res.json().catch(() => []);
-        if (!res.ok) throw new Error((json?.error as string) || "Failed to fetch notes");
+      const last = await AsyncStorage.getItem(LAST_INDEXED_KEY);
+      setLastNoteId(last);
 
-        const all = (json as Note[]).sort(
-          (a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
-        );
-        setNotes(all);
+      if (last) {
+        const [chatRaw, fcRaw, qzRaw] = await Promise.all([
+          AsyncStorage.getItem(CHAT_CACHE(last)),
+          AsyncStorage.getItem(FC_CACHE(last)),
+          AsyncStorage.getItem(QZ_CACHE(last)),
+        ]);
+        setHasChat(!!(chatRaw && JSON.parse(chatRaw)?.length));
+        setHasFC(!!(fcRaw && JSON.parse(fcRaw)?.length));
+        setHasQZ(!!(qzRaw && JSON.parse(qzRaw)?.length));
+      } else {
+        setHasChat(false);
+        setHasFC(false);
+        setHasQZ(false);
+      }
+    } catch (e: any) {
+      console.error("Home load error", e);
+      setErr(errorMessage(e, "Could not load your content."));
+    } finally {
+      setBusy(false);
+    }
+  }, []);
 
-        const last = await AsyncStorage.getItem(LAST_INDEXED_KEY);
-        setLastNoteId(last);
+  useEffect(() => {
+    if (!loading && !user) router.replace("/login");
+    if (loading || !user) return;
 
-        if (last) {
-          const [chatRaw, fcRaw, qzRaw] = await Promise.all([
-            AsyncStorage.getItem(CHAT_CACHE(last)),
-            AsyncStorage.getItem(FC_CACHE(last)),
-            AsyncStorage.getItem(QZ_CACHE(last)),
-          ]);
-          setHasChat(!!(chatRaw && JSON.parse(chatRaw)?.length));
-          setHasFC(!!(fcRaw && JSON.parse(fcRaw)?.length));
-          setHasQZ(!!(qzRaw && JSON.parse(qzRaw)?.length));
-        } else {
-          setHasChat(false);
-          setHasFC(false);
-          setHasQZ(false);
-        }
-      } catch (e: any) {
-        console.error("Home load error", e);
-        setErr(e?.message || "Could not load your content.");
-      } finally {
-        setBusy(false);
-      }
-    })();
+    void load();
+    // favourites, tags and new uploads show up without leaving the tab
+    return on("notes:changed", () => void load());
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [loading, user]);
+  }, [loading, user, load]);
 
-  const recentNotes = useMemo(() => notes.slice(0, 12), [notes]);
+  const recentNotes = useMemo(
+    () => filterNotes(notes, { courseId: courseFilter, ...noteFilter }).slice(0, 12),
+    [notes, courseFilter, noteFilter]
+  );
+  const favouriteNotes = useMemo(() => filterNotes(notes, { favouritesOnly: true }), [notes]);
+  const tags = useMemo(() => allTags(notes), [notes]);
+  const courseById = useMemo(() => new Map(courses.map((c) => [c.id, c])), [courses]);
   const lastNote = useMemo(() => notes.find((n) => n.id === lastNoteId) || null, [notes, lastNoteId]);
 
   if (loading || !user) {
@@ -158,6 +166,12 @@ export default function HomeScreen() {
             onPress={() => router.push("/(tabs)/ai-tutor")}
             colors={colors}
           />
+          <ActionPill
+            icon={<Search size={18} color={colors.foreground} />}
+            label="Search"
+            onPress={() => router.push("/(tabs)/search")}
+            colors={colors}
+          />
         </View>
 
         {/* Continue section */}
@@ -219,6 +233,103 @@ export default function HomeScreen() {
           )}
         </View>
 
+        {/* Courses */}
+        <View className="mt-6 flex-row items-center justify-between">
+          <Text className="text-base font-semibold" style={{ color: colors.foreground }}>
+            Courses
+          </Text>
+          <Pressable onPress={() => router.push("/(tabs)/courses")} className="px-2 py-1">
+            <Text className="text-xs font-semibold" style={{ color: colors.primary }}>
+              {courses.length ? "Manage →" : "Create one →"}
+            </Text>
+          </Pressable>
+        </View>
+        {courses.length ? (
+          <ScrollView horizontal showsHorizontalScrollIndicator={false} className="mt-2" contentContainerStyle={{ gap: 12 }}>
+            {courses.map((c) => {
+              const exam = examLabel(c.examDate);
+              const count = notes.filter((n) => n.courseId === c.id).length;
+              return (
+                <Pressable
+                  key={c.id}
+                  onPress={() => router.push({ pathname: "/(tabs)/courses/[id]", params: { id: c.id } })}
+                  className="rounded-2xl border p-3"
+                  style={{ width: 180, borderColor: colors.grey4, backgroundColor: colors.card }}
+                >
+                  <View style={{ width: 24, height: 4, borderRadius: 2, backgroundColor: c.color }} />
+                  <Text numberOfLines={1} className="mt-2 font-semibold" style={{ color: colors.foreground }}>
+                    {c.name}
+                  </Text>
+                  <Text className="mt-1 text-xs" style={{ color: colors.grey }}>
+                    {count} note{count === 1 ? "" : "s"}
+                    {exam ? ` · ${exam}` : ""}
+                  </Text>
+                </Pressable>
+              );
+            })}
+          </ScrollView>
+        ) : (
+          <Text className="mt-1 text-sm" style={{ color: colors.grey }}>
+            Group your notes by subject and track exam dates.
+          </Text>
+        )}
+
+        {/* Recent notes */}
+        {notes.length ? (
+          <>
+            {favouriteNotes.length ? (
+              <>
+                <Text className="mt-6 text-base font-semibold" style={{ color: colors.foreground }}>
+                  Favourites
+                </Text>
+                <FlatList
+                  horizontal
+                  data={favouriteNotes}
+                  keyExtractor={(n) => n.id}
+                  showsHorizontalScrollIndicator={false}
+                  className="mt-2"
+                  contentContainerStyle={{ gap: 12 }}
+                  renderItem={({ item }) => (
+                    <NoteTile
+                      note={item}
+                      course={item.courseId ? courseById.get(item.courseId) : undefined}
+                      onPress={() => goToNote(item.id)}
+                      colors={colors}
+                    />
+                  )}
+                />
+              </>
+            ) : null}
+
+            <Text className="mt-6 text-base font-semibold" style={{ color: colors.foreground }}>
+              Recent notes
+            </Text>
+            <CourseFilterChips courses={courses} value={courseFilter} onChange={setCourseFilter} className="mt-2" />
+            <NoteFilterBar tags={tags} value={noteFilter} onChange={setNoteFilter} className="mt-2" />
+            <FlatList
+              horizontal
+              data={recentNotes}
+              keyExtractor={(n) => n.id}
+              showsHorizontalScrollIndicator={false}
+              className="mt-2"
+              contentContainerStyle={{ gap: 12 }}
+              ListEmptyComponent={
+                <Text className="text-sm" style={{ color: colors.grey }}>
+                  No notes match these filters.
+                </Text>
+              }
+              renderItem={({ item }) => (
+                <NoteTile
+                  note={item}
+                  course={item.courseId ? courseById.get(item.courseId) : undefined}
+                  onPress={() => goToNote(item.id)}
+                  colors={colors}
+                />
+              )}
+            />
+          </>
+        ) : null}
+
         {/* Feature cards */}
         <View className="mt-6 gap-3">
           <FeatureCard
@@ -299,6 +410,40 @@ function SmallButton({
   );
 }
 
+function NoteTile({
+  note,
+  course,
+  onPress,
+  colors,
+}: {
+  note: Note;
+  course?: Course;
+  onPress: () => void;
+  colors: any;
+}) {
+  return (
+    <Pressable
+      onPress={onPress}
+      className="rounded-2xl border p-3"
+      style={{ width: 200, borderColor: colors.grey4, backgroundColor: colors.card }}
+    >
+      <Text numberOfLines={2} className="font-semibold" style={{ color: colors.foreground }}>
+        {note.favorite ? "★ " : ""}
+        {note.title || "(untitled)"}
+      </Text>
+      <Text numberOfLines={1} className="mt-1 text-xs" style={{ color: colors.grey }}>
+        {course ? `${course.name} · ` : ""}
+        {new Date(note.createdAt).toLocaleDateString()}
+      </Text>
+      {note.tags?.length ? (
+        <Text numberOfLines={1} className="mt-1 text-xs" style={{ color: colors.primary }}>
+          {note.tags.map((t) => `#${t}`).join(" ")}
+        </Text>
+      ) : null}
+    </Pressable>
+  );
+}
+
 function FeatureCard({
   title,
   desc,
@@ -0,0 +1,394 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import {
+  View,
+  Text,
+  TextInput,
+  Pressable,
+  ScrollView,
+  ActivityIndicator,
+  KeyboardAvoidingView,
+  Platform,
+  useWindowDimensions,
+  type NativeSyntheticEvent,
+  type TextInputSelectionChangeEventData,
+} from "react-native";
+import { useLocalSearchParams, useRouter } from "expo-router";
+import { useFocusEffect } from "@react-navigation/native";
+import Markdown from "react-native-markdown-display";
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+import Header from "@/components/Header";
+import ErrorBanner from "@/components/ErrorBanner";
+import VerifyEmailNotice from "@/components/VerifyEmailNotice";
+import { useAuth } from "@/providers/AuthProvider";
+import { useAppLock } from "@/providers/AppLockProvider";
+import { useThemeMode } from "@/theme/ThemeProvider";
+import { useMarkdownStyles } from "@/theme/markdown";
+import { emit } from "@/lib/eventBus";
+import * as api from "@/lib/apiClient";
+import { confirmAction } from "@/lib/confirm";
+import { runIndexJob } from "@/lib/indexJobs";
+import { markSummariesStale } from "@/lib/summaries";
+
+const LAST_INDEXED_KEY = "last-indexed-note-id";
+
+// side-by-side editor + preview from this width up; tabs below it
+const SPLIT_MIN_WIDTH = 900;
+
+type Mode = "write" | "preview";
+type Selection = { start: number; end: number };
+
+/**
+ * Create (no params, or ?courseId=... to file it under a course) or edit
+ * (?noteId=...) a MANUAL note. Saving re-indexes the
+ * note so the tutor and study tools see the new text, and marks its saved
+ * summaries as outdated because they describe the old text.
+ */
+export default function NoteEditorScreen() {
+  const { user, loading, needsVerification } = useAuth();
+  const { colors } = useThemeMode();
+  const mdStyles = useMarkdownStyles();
+  const router = useRouter();
+  const insets = useSafeAreaInsets();
+  const { width } = useWindowDimensions();
+  const { noteId, courseId } = useLocalSearchParams<{ noteId?: string; courseId?: string }>();
+
+  const [title, setTitle] = useState("");
+  const [body, setBody] = useState("");
+  const [initial, setInitial] = useState({ title: "", body: "" });
+  const [loadingNote, setLoadingNote] = useState(!!noteId);
+  const [mode, setMode] = useState<Mode>("write");
+  const [saving, setSaving] = useState(false);
+  const [formError, setFormError] = useState<any>(null);
+  const [titleErr, setTitleErr] = useState<string | null>(null);
+  const [bodyErr, setBodyErr] = useState<string | null>(null);
+
+  const { noteActivity } = useAppLock();
+
+  // typing (soft or hardware keyboard) never reaches the lock's touch handler
+  useEffect(() => noteActivity(), [title, body, noteActivity]);
+
+  const selectionRef = useRef<Selection>({ start: 0, end: 0 });
+  const [selection, setSelection] = useState<Selection | undefined>(undefined);
+
+  const split = width >= SPLIT_MIN_WIDTH;
+  const dirty = title !== initial.title || body !== initial.body;
+  const TAB_HEIGHT = 54;
+  const TAB_MARGIN_BOTTOM = 36;
+
+  // The screen stays mounted between visits (hidden tab), so start clean each time
+  const reset = useCallback(() => {
+    setTitle("");
+    setBody("");
+    setInitial({ title: "", body: "" });
+    setMode("write");
+    setFormError(null);
+    setTitleErr(null);
+    setBodyErr(null);
+  }, []);
+
+  // Unsaved edits survive switching tabs: coming back to the same note (or the same
+  // new note) with changes keeps them. Opening a different note, or a visit after
+  // save/discard, starts fresh.
+  const openedFor = useRef<string | null>(null);
+  const dirtyRef = useRef(false);
+  dirtyRef.current = dirty;
+
+  // ---------- load existing note (on every visit) ----------
+  useFocusEffect(
+    useCallback(() => {
+      const key = `${noteId ?? ""}|${courseId ?? ""}`;
+      if (openedFor.current === key && dirtyRef.current) return;
+      openedFor.current = key;
+      reset();
+      if (!noteId || loading || !user) {
+        setLoadingNote(false);
+        return;
+      }
+      (async () => {
+        try {
+          setLoadingNote(true);
+          const { note } = await api.getNote(noteId).catch((e) => {
+            if (e?.status === 404) return { note: undefined };
+            throw e;
+          });
+          if (!note) {
+            setFormError({ error: "That note no longer exists." });
+            return;
+          }
+          setTitle(note.title);
+          setBody(note.rawText ?? "");
+          setInitial({ title: note.title, body: note.rawText ?? "" });
+        } catch (e) {
+          console.error("Load note error", e);
+          setFormError(e);
+        } finally {
+          setLoadingNote(false);
+        }
+      })();
+    }, [noteId, courseId, loading, user, reset])
+  );
+
+  // ---------- toolbar ----------
+  function onSelectionChange(e: NativeSyntheticEvent<TextInputSelectionChangeEventData>) {
+    selectionRef.current = e.nativeEvent.selection;
+    setSelection(undefined); // hand control back to the input after a toolbar insert
+  }
+
+  /** Wrap the selection (or insert a placeholder) with markdown syntax */
+  function wrap(before: string, after = before, placeholder = "text") {
+    const { start, end } = selectionRef.current;
+    const picked = body.slice(start, end) || placeholder;
+    const next = body.slice(0, start) + before + picked + after + body.slice(end);
+    setBody(next);
+    const s = start + before.length;
+    setSelection({ start: s, end: s + picked.length });
+  }
+
+  /** Prefix the current line (headings, lists, quotes) */
+  function prefixLine(prefix: string) {
+    const { start } = selectionRef.current;
+    const lineStart = body.lastIndexOf("\n", start - 1) + 1;
+    setBody(body.slice(0, lineStart) + prefix + body.slice(lineStart));
+    const s = start + prefix.length;
+    setSelection({ start: s, end: s });
+  }
+
+  // ---------- save ----------
+  async function indexAfterSave(id: string) {
+    try {
+      await runIndexJob(id);
+      await AsyncStorage.setItem(LAST_INDEXED_KEY, id).catch(() => {});
+    } catch (e) {
+      // the note is saved; the Notes tab shows the failure and offers a retry
+      console.error("Auto-indexing error", e);
+    }
+  }
+
+  async function onSave() {
+    setFormError(null);
+    setTitleErr(null);
+    setBodyErr(null);
+    if (!title.trim()) setTitleErr("Give your note a title.");
+    if (!body.trim()) setBodyErr("Write something first.");
+    if (!title.trim() || !body.trim()) return;
+
+    setSaving(true);
+    try {
+      const d = { title: title.trim(), rawText: body };
+      const json = noteId
+        ? await api.updateNote(noteId, d)
+        : await api.createNote({ ...d, courseId: courseId ?? null });
+      const id = json?.note?.id ?? noteId;
+      if (!id) throw new Error("The server didn't return the saved note.");
+
+      // keep saved summaries, but flag them as describing the old text
+      if (noteId && body !== initial.body) await markSummariesStale(id).catch(() => {});
+      if (!noteId || body !== initial.body) await indexAfterSave(id);
+
+      emit("notes:changed", { noteId: id });
+      reset();
+      openedFor.current = null;
+      router.replace("/(tabs)/notes");
+    } catch (e: any) {
+      console.error("Save note error", e);
+      const fe = (e?.json ?? e)?.details?.fieldErrors ?? {};
+      setTitleErr(fe.title?.[0] ?? null);
+      setBodyErr(fe.rawText?.[0] ?? null);
+      setFormError(e);
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  function onCancel() {
+    const leave = () => {
+      reset();
+      openedFor.current = null;
+      router.replace("/(tabs)/notes");
+    };
+    if (!dirty) return leave();
+    confirmAction("Discard changes?", "Your edits to this note haven't been saved.", "Discard", leave);
+  }
+
+  if (loading || !user || loadingNote) {
+    return (
+      <View className="flex-1 items-center justify-center bg-light-bg dark:bg-dark-bg">
+        <ActivityIndicator />
+      </View>
+    );
+  }
+
+  const editor = (
+    <View style={{ flex: 1 }}>
+      <Toolbar
+        colors={colors}
+        onBold={() => wrap("**")}
+        onItalic={() => wrap("_")}
+        onHeading={() => prefixLine("## ")}
+        onList={() => prefixLine("- ")}
+        onQuote={() => prefixLine("> ")}
+        onCode={() => wrap("`", "`", "code")}
+      />
+      <TextInput
+        value={body}
+        onChangeText={(t) => {
+          setBody(t);
+          if (bodyErr) setBodyErr(null);
+        }}
+        onSelectionChange={onSelectionChange}
+        selection={selection}
+        multiline
+        textAlignVertical="top"
+        autoCapitalize="sentences"
+        placeholder={"# Heading\n\nWrite your notes in **markdown**…"}
+        placeholderTextColor="#9CA3AF"
+        className={`mt-2 flex-1 px-4 py-3 rounded-2xl bg-light-surface dark:bg-dark-surface text-light-text dark:text-dark-text border ${
+          bodyErr ? "border-danger" : "border-light-border dark:border-dark-border"
+        }`}
+        style={{ minHeight: 240, fontFamily: Platform.OS === "ios" ? "Menlo" : "monospace" }}
+      />
+      {!!bodyErr && <Text className="mt-1 text-danger text-xs">{bodyErr}</Text>}
+    </View>
+  );
+
+  const preview = (
+    <ScrollView
+      className="rounded-2xl border p-4"
+      style={{ flex: 1, minHeight: 240, backgroundColor: colors.card, borderColor: colors.grey4 }}
+      contentContainerStyle={{ paddingBottom: 16 }}
+    >
+      {body.trim() ? (
+        <Markdown style={mdStyles}>{body}</Markdown>
+      ) : (
+        <Text style={{ color: colors.grey }}>Nothing to preview yet.</Text>
+      )}
+    </ScrollView>
+  );
+
+  return (
+    <KeyboardAvoidingView
+      behavior={Platform.OS === "ios" ? "padding" : undefined}
+      className="flex-1 bg-light-bg dark:bg-dark-bg"
+    >
+      <Header />
+      <View
+        className="flex-1 px-6 py-6"
+        style={{ paddingBottom: insets.bottom + TAB_HEIGHT + TAB_MARGIN_BOTTOM + 8 }}
+      >
+        {/* Top row */}
+        <View className="flex-row items-center justify-between">
+          <Text className="text-2xl font-bold text-light-text dark:text-dark-text">
+            {noteId ? "Edit note" : "New note"}
+          </Text>
+          <View className="flex-row gap-2">
+            <Pressable
+              onPress={onCancel}
+              className="px-4 py-2 rounded-2xl border border-light-border dark:border-dark-border"
+            >
+              <Text className="text-light-text dark:text-dark-text">Cancel</Text>
+            </Pressable>
+            <Pressable
+              onPress={onSave}
+              disabled={saving || !dirty || needsVerification}
+              className={`px-4 py-2 rounded-2xl items-center justify-center ${
+                saving || !dirty || needsVerification ? "bg-primary/60" : "bg-primary"
+              }`}
+            >
+              {saving ? <ActivityIndicator color="#fff" /> : <Text className="text-white font-semibold">Save</Text>}
+            </Pressable>
+          </View>
+        </View>
+
+        <VerifyEmailNotice feature="saving notes" />
+        <ErrorBanner error={formError} fallback="Couldn't save the note." />
+
+        {/* Title */}
+        <TextInput
+          value={title}
+          onChangeText={(t) => {
+            setTitle(t);
+            if (titleErr) setTitleErr(null);
+          }}
+          placeholder="Title"
+          placeholderTextColor="#9CA3AF"
+          className={`mt-4 px-4 py-3 rounded-2xl text-lg font-semibold bg-light-surface dark:bg-dark-surface text-light-text dark:text-dark-text border ${
+            titleErr ? "border-danger" : "border-light-border dark:border-dark-border"
+          }`}
+        />
+        {!!titleErr && <Text className="mt-1 text-danger text-xs">{titleErr}</Text>}
+
+        {split ? (
+          <View className="mt-4 flex-1 flex-row gap-4">
+            {editor}
+            <View style={{ flex: 1, paddingTop: 44 }}>{preview}</View>
+          </View>
+        ) : (
+          <>
+            <View className="mt-4 flex-row gap-2">
+              {(["write", "preview"] as Mode[]).map((m) => (
+                <Pressable
+                  key={m}
+                  onPress={() => setMode(m)}
+                  className="px-4 py-2 rounded-2xl border"
+                  style={{
+                    borderColor: mode === m ? colors.primary : colors.grey4,
+                    backgroundColor: mode === m ? colors.primary : "transparent",
+                  }}
+                >
+                  <Text style={{ color: mode === m ? "#fff" : colors.foreground }}>
+                    {m === "write" ? "Write" : "Preview"}
+                  </Text>
+                </Pressable>
+              ))}
+            </View>
+            <View className="mt-3 flex-1">{mode === "write" ? editor : preview}</View>
+          </>
+        )}
+      </View>
+    </KeyboardAvoidingView>
+  );
+}
+
+function Toolbar({
+  colors,
+  onBold,
+  onItalic,
+  onHeading,
+  onList,
+  onQuote,
+  onCode,
+}: {
+  colors: any;
+  onBold: () => void;
+  onItalic: () => void;
+  onHeading: () => void;
+  onList: () => void;
+  onQuote: () => void;
+  onCode: () => void;
+}) {
+  const items: [string, () => void][] = [
+    ["B", onBold],
+    ["I", onItalic],
+    ["H", onHeading],
+    ["•", onList],
+    ["❝", onQuote],
+    ["</>", onCode],
+  ];
+  return (
+    <View className="flex-row gap-2">
+      {items.map(([label, onPress]) => (
+        <Pressable
+          key={label}
+          onPress={onPress}
+          className="h-9 min-w-9 px-3 rounded-xl items-center justify-center border"
+          style={{ borderColor: colors.grey4, backgroundColor: colors.card }}
+        >
+          <Text style={{ color: colors.foreground, fontWeight: label === "B" ? "700" : "400", fontStyle: label === "I" ? "italic" : "normal" }}>
+            {label}
+          </Text>
+        </Pressable>
+      ))}
+    </View>
+  );
+}
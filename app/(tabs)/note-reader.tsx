@@ -0,0 +1,401 @@
+import { useCallback, useEffect, useMemo, useRef, useState, type ReactNode } from "react";
+import { View, Text, TextInput, Pressable, ScrollView, ActivityIndicator, type TextStyle } from "react-native";
+import { useLocalSearchParams, useRouter } from "expo-router";
+import { useFocusEffect } from "@react-navigation/native";
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+import { ChevronDown, ChevronLeft, ChevronRight, ChevronUp, Search, X } from "lucide-react-native";
+import Header from "@/components/Header";
+import ErrorBanner from "@/components/ErrorBanner";
+import { useAuth } from "@/providers/AuthProvider";
+import { useThemeMode } from "@/theme/ThemeProvider";
+import * as api from "@/lib/apiClient";
+import type { Note } from "@/lib/apiClient";
+import { findAll, pageOf, paginate, readableText } from "@/lib/reader";
+
+const LAST_INDEXED_KEY = "last-indexed-note-id";
+const FONT_SIZE_KEY = "reader:font-size";
+const FONT_SIZES = [13, 15, 17, 19, 22, 25];
+const DEFAULT_FONT_INDEX = 1;
+const SOURCE_LABEL: Record<Note["source"], string> = { UPLOAD: "Upload", MANUAL: "Written", LINK: "Link" };
+
+/**
+ * Read-only view of a note's text as the backend extracted it (?noteId=...).
+ * Long documents are paged; find-in-note jumps between matches across pages.
+ */
+export default function NoteReaderScreen() {
+  const { user, loading } = useAuth();
+  const { colors } = useThemeMode();
+  const router = useRouter();
+  const insets = useSafeAreaInsets();
+  const { noteId } = useLocalSearchParams<{ noteId?: string }>();
+
+  const [note, setNote] = useState<Note | null>(null);
+  const [loadingNote, setLoadingNote] = useState(true);
+  const [error, setError] = useState<any>(null);
+  const [page, setPage] = useState(0);
+  const [fontIndex, setFontIndex] = useState(DEFAULT_FONT_INDEX);
+  const [findOpen, setFindOpen] = useState(false);
+  const [query, setQuery] = useState("");
+  const [matchIndex, setMatchIndex] = useState(0);
+
+  const scrollRef = useRef<ScrollView>(null);
+  const contentHeight = useRef(0);
+  const pendingScroll = useRef<number | null>(null); // applied once a new page has laid out
+
+  const TAB_HEIGHT = 54;
+  const TAB_MARGIN_BOTTOM = 36;
+
+  useEffect(() => {
+    AsyncStorage.getItem(FONT_SIZE_KEY)
+      .then((v) => {
+        const i = v ? FONT_SIZES.indexOf(Number(v)) : -1;
+        if (i !== -1) setFontIndex(i);
+      })
+      .catch(() => {});
+  }, []);
+
+  function changeFont(delta: number) {
+    const i = Math.min(FONT_SIZES.length - 1, Math.max(0, fontIndex + delta));
+    setFontIndex(i);
+    AsyncStorage.setItem(FONT_SIZE_KEY, String(FONT_SIZES[i])).catch(() => {});
+  }
+
+  // ---------- load (on every visit; the hidden tab stays mounted) ----------
+  useFocusEffect(
+    useCallback(() => {
+      setPage(0);
+      setQuery("");
+      setFindOpen(false);
+      setError(null);
+      if (!noteId || loading || !user) {
+        setNote(null);
+        setLoadingNote(false);
+        return;
+      }
+      (async () => {
+        try {
+          setLoadingNote(true);
+          const json = await api.getNote(noteId);
+          setNote(json?.note ?? null);
+          if (!json?.note) setError({ error: "That note no longer exists." });
+        } catch (e) {
+          console.error("Load note error", e);
+          setError(e);
+        } finally {
+          setLoadingNote(false);
+        }
+      })();
+    }, [noteId, loading, user])
+  );
+
+  const text = useMemo(() => (note ? readableText(note) : ""), [note]);
+  const pages = useMemo(() => paginate(text), [text]);
+  const matches = useMemo(() => findAll(text, query), [text, query]);
+  const needleLength = query.trim().length;
+  const current = pages[Math.min(page, pages.length - 1)];
+
+  // Text has no per-character layout info, so scroll by the match's position within the page
+  function scrollToFraction(fraction: number) {
+    const y = Math.max(0, fraction * contentHeight.current - 80);
+    scrollRef.current?.scrollTo({ y, animated: true });
+  }
+
+  function goToPage(p: number) {
+    setPage(p);
+    scrollRef.current?.scrollTo({ y: 0, animated: false });
+  }
+
+  /** Make match `i` the active one, turning to its page */
+  function showMatch(i: number, list = matches) {
+    setMatchIndex(i);
+    if (!list.length) return;
+    const at = list[i];
+    const p = pageOf(pages, at);
+    const fraction = (at - pages[p].start) / (pages[p].end - pages[p].start || 1);
+    if (p !== page) {
+      pendingScroll.current = fraction;
+      setPage(p);
+    } else {
+      scrollToFraction(fraction);
+    }
+  }
+
+  function onQueryChange(q: string) {
+    setQuery(q);
+    showMatch(0, findAll(text, q));
+  }
+
+  function step(delta: number) {
+    if (!matches.length) return;
+    showMatch((matchIndex + delta + matches.length) % matches.length);
+  }
+
+  async function openTool(pathname: "/(tabs)/notes" | "/(tabs)/ai-tutor" | "/(tabs)/tools/quiz") {
+    if (!note) return;
+    await AsyncStorage.setItem(LAST_INDEXED_KEY, note.id).catch(() => {});
+    router.push({ pathname, params: { noteId: note.id, noteTitle: note.title } });
+  }
+
+  if (loading || !user || loadingNote) {
+    return (
+      <View className="flex-1 items-center justify-center bg-light-bg dark:bg-dark-bg">
+        <ActivityIndicator />
+      </View>
+    );
+  }
+
+  const fontSize = FONT_SIZES[fontIndex];
+  const pageMatches = matches
+    .map((at, i) => ({ at, i }))
+    .filter(({ at }) => at >= current.start && at < current.end);
+
+  return (
+    <View className="flex-1 bg-light-bg dark:bg-dark-bg">
+      <Header />
+      <View
+        className="flex-1 px-6 pt-4"
+        style={{ paddingBottom: insets.bottom + TAB_HEIGHT + TAB_MARGIN_BOTTOM + 8 }}
+      >
+        <Pressable onPress={() => router.back()} className="flex-row items-center gap-1 self-start">
+          <ChevronLeft size={18} color={colors.primary} />
+          <Text style={{ color: colors.primary }}>Back</Text>
+        </Pressable>
+
+        {!note ? (
+          <ErrorBanner error={error ?? { error: "No note selected." }} fallback="Could not load the note." />
+        ) : (
+          <>
+            <Text className="mt-2 text-2xl font-bold text-light-text dark:text-dark-text" numberOfLines={2}>
+              {note.title || "(untitled)"}
+            </Text>
+            <Text className="mt-1 text-xs" style={{ color: colors.grey }}>
+              {SOURCE_LABEL[note.source]} · {new Date(note.createdAt).toLocaleDateString()} ·{" "}
+              {text.length.toLocaleString()} characters
+            </Text>
+
+            {/* Shortcuts */}
+            <View className="mt-3 flex-row flex-wrap gap-2">
+              <SmallButton label="Summarize" primary colors={colors} onPress={() => openTool("/(tabs)/notes")} />
+              <SmallButton label="Ask AI Tutor" colors={colors} onPress={() => openTool("/(tabs)/ai-tutor")} />
+              <SmallButton label="Quiz me" colors={colors} onPress={() => openTool("/(tabs)/tools/quiz")} />
+            </View>
+
+            {/* Reader toolbar */}
+            <View className="mt-3 flex-row items-center gap-2">
+              <IconButton label="Smaller text" colors={colors} disabled={fontIndex === 0} onPress={() => changeFont(-1)}>
+                <Text style={{ color: colors.foreground, fontSize: 13, fontWeight: "600" }}>A−</Text>
+              </IconButton>
+              <IconButton
+                label="Larger text"
+                colors={colors}
+                disabled={fontIndex === FONT_SIZES.length - 1}
+                onPress={() => changeFont(1)}
+              >
+                <Text style={{ color: colors.foreground, fontSize: 17, fontWeight: "600" }}>A+</Text>
+              </IconButton>
+              <IconButton
+                label="Find in note"
+                colors={colors}
+                active={findOpen}
+                onPress={() => {
+                  setFindOpen((o) => !o);
+                  setQuery("");
+                }}
+              >
+                <Search size={16} color={findOpen ? colors.primary : colors.foreground} />
+              </IconButton>
+            </View>
+
+            {findOpen ? (
+              <View className="mt-2 flex-row items-center gap-2 px-3 rounded-2xl border border-light-border dark:border-dark-border bg-light-surface dark:bg-dark-surface">
+                <TextInput
+                  value={query}
+                  onChangeText={onQueryChange}
+                  onSubmitEditing={() => step(1)}
+                  autoFocus
+                  autoCapitalize="none"
+                  autoCorrect={false}
+                  returnKeyType="search"
+                  placeholder="Find in note"
+                  placeholderTextColor="#9CA3AF"
+                  className="flex-1 py-2 text-light-text dark:text-dark-text"
+                />
+                <Text className="text-xs" style={{ color: colors.grey }}>
+                  {query.trim() ? (matches.length ? `${matchIndex + 1} of ${matches.length}` : "No matches") : ""}
+                </Text>
+                <Pressable onPress={() => step(-1)} disabled={!matches.length} hitSlop={6} accessibilityLabel="Previous match">
+                  <ChevronUp size={18} color={matches.length ? colors.foreground : colors.grey4} />
+                </Pressable>
+                <Pressable onPress={() => step(1)} disabled={!matches.length} hitSlop={6} accessibilityLabel="Next match">
+                  <ChevronDown size={18} color={matches.length ? colors.foreground : colors.grey4} />
+                </Pressable>
+                <Pressable
+                  onPress={() => {
+                    setFindOpen(false);
+                    setQuery("");
+                  }}
+                  hitSlop={6}
+                  accessibilityLabel="Close find"
+                >
+                  <X size={18} color={colors.grey} />
+                </Pressable>
+              </View>
+            ) : null}
+
+            {/* Page */}
+            <ScrollView
+              ref={scrollRef}
+              className="mt-3 rounded-2xl border"
+              style={{ flex: 1, backgroundColor: colors.card, borderColor: colors.grey4 }}
+              contentContainerStyle={{ padding: 16 }}
+              onContentSizeChange={(_, h) => {
+                contentHeight.current = h;
+                if (pendingScroll.current !== null) {
+                  scrollToFraction(pendingScroll.current);
+                  pendingScroll.current = null;
+                }
+              }}
+            >
+              {text ? (
+                <PageText
+                  text={text}
+                  start={current.start}
+                  end={current.end}
+                  matches={pageMatches}
+                  activeMatch={matchIndex}
+                  length={needleLength}
+                  style={{ color: colors.foreground, fontSize, lineHeight: Math.round(fontSize * 1.5) }}
+                  markStyle={{ backgroundColor: colors.grey5, color: colors.primary, fontWeight: "700" }}
+                  activeStyle={{ backgroundColor: colors.primary, color: "#fff", fontWeight: "700" }}
+                />
+              ) : (
+                <Text style={{ color: colors.grey }}>
+                  No text was extracted from this note yet. If it was just uploaded, try again in a moment.
+                </Text>
+              )}
+            </ScrollView>
+
+            {pages.length > 1 ? (
+              <View className="mt-3 flex-row items-center justify-between">
+                <IconButton label="Previous page" colors={colors} disabled={page === 0} onPress={() => goToPage(page - 1)}>
+                  <ChevronLeft size={18} color={page === 0 ? colors.grey4 : colors.foreground} />
+                </IconButton>
+                <Text className="text-xs" style={{ color: colors.grey }}>
+                  Page {page + 1} of {pages.length}
+                </Text>
+                <IconButton
+                  label="Next page"
+                  colors={colors}
+                  disabled={page >= pages.length - 1}
+                  onPress={() => goToPage(page + 1)}
+                >
+                  <ChevronRight size={18} color={page >= pages.length - 1 ? colors.grey4 : colors.foreground} />
+                </IconButton>
+              </View>
+            ) : null}
+          </>
+        )}
+      </View>
+    </View>
+  );
+}
+
+/* ------------------------------ UI helpers ------------------------------- */
+
+function PageText({
+  text,
+  start,
+  end,
+  matches,
+  activeMatch,
+  length,
+  style,
+  markStyle,
+  activeStyle,
+}: {
+  text: string;
+  start: number;
+  end: number;
+  matches: { at: number; i: number }[];
+  activeMatch: number;
+  length: number;
+  style: TextStyle;
+  markStyle: TextStyle;
+  activeStyle: TextStyle;
+}) {
+  const parts: ReactNode[] = [];
+  let at = start;
+  for (const m of matches) {
+    if (m.at > at) parts.push(text.slice(at, m.at));
+    const to = Math.min(end, m.at + length);
+    parts.push(
+      <Text key={m.i} style={m.i === activeMatch ? activeStyle : markStyle}>
+        {text.slice(m.at, to)}
+      </Text>
+    );
+    at = to;
+  }
+  if (at < end) parts.push(text.slice(at, end));
+  return (
+    <Text style={style} selectable>
+      {parts}
+    </Text>
+  );
+}
+
+function IconButton({
+  label,
+  onPress,
+  colors,
+  disabled = false,
+  active = false,
+  children,
+}: {
+  label: string;
+  onPress: () => void;
+  colors: any;
+  disabled?: boolean;
+  active?: boolean;
+  children: ReactNode;
+}) {
+  return (
+    <Pressable
+      onPress={onPress}
+      disabled={disabled}
+      accessibilityLabel={label}
+      className="px-3 py-2 rounded-xl items-center justify-center"
+      style={{
+        borderWidth: 1,
+        borderColor: active ? colors.primary : colors.grey4,
+        opacity: disabled ? 0.5 : 1,
+      }}
+    >
+      {children}
+    </Pressable>
+  );
+}
+
+function SmallButton({
+  label,
+  onPress,
+  colors,
+  primary = false,
+}: {
+  label: string;
+  onPress: () => void;
+  colors: any;
+  primary?: boolean;
+}) {
+  return (
+    <Pressable
+      onPress={onPress}
+      className="px-3 py-2 rounded-xl"
+      style={primary ? { backgroundColor: colors.primary } : { borderWidth: 1, borderColor: colors.grey4 }}
+    >
+      <Text className="text-xs font-semibold" style={{ color: primary ? "#fff" : colors.foreground }}>
+        {label}
+      </Text>
+    </Pressable>
+  );
+}
@@ -1,4 +1,4 @@
-import { useEffect, useState, useCallback, useMemo } from "react";
+import { useEffect, useState, useCallback, useMemo, useRef } from "react";
 import {
   View,
   Text,
@@ -6,130 +6,130 @@ import {
   ActivityIndicator,
   FlatList,
   Alert,
-  Platform,
   Dimensions,
-  ScrollView
+  ScrollView,
+  Platform,
+  TextInput,
+  useWindowDimensions
 } from "react-native";
 import * as DocumentPicker from "expo-document-picker";
+import { useLocalSearchParams, useRouter } from "expo-router";
 import Header from "@/components/Header";
+import VerifyEmailNotice from "@/components/VerifyEmailNotice";
+import LinkImportModal from "@/components/LinkImportModal";
+import UploadProgressList from "@/components/UploadProgressList";
+import CourseFilterChips from "@/components/CourseFilterChips";
+import CoursePickerModal from "@/components/CoursePickerModal";
+import NoteFilterBar, { DEFAULT_NOTE_FILTER, type NoteFilterValue } from "@/components/NoteFilterBar";
+import TagEditorModal from "@/components/TagEditorModal";
+import NoteDetailsModal from "@/components/NoteDetailsModal";
+import ExportSummaryModal from "@/components/ExportSummaryModal";
+import BulkProgressSheet from "@/components/BulkProgressSheet";
+import UndoSnackbar from "@/components/UndoSnackbar";
+import DuplicateUploadModal, { type DuplicateUpload } from "@/components/DuplicateUploadModal";
 import { useAuth } from "@/providers/AuthProvider";
-import { getApiBase } from "@/constants/api";
 import { useThemeMode } from "@/theme/ThemeProvider";
-import { Wand2 } from "lucide-react-native";
+import { useMarkdownStyles } from "@/theme/markdown";
+import { Check, Pencil, Search, Star, Wand2 } from "lucide-react-native";
 import Markdown from "react-native-markdown-display";
 import AsyncStorage from "@react-native-async-storage/async-storage";
 import { useSafeAreaInsets } from "react-native-safe-area-context";
-import { emit } from "@/lib/eventBus";
+import { emit, on } from "@/lib/eventBus";
+import * as api from "@/lib/apiClient";
+import { errorMessage, type Course, type Note, type SummaryLength, type SummaryStyle } from "@/lib/apiClient";
+import { useBulkActions, type BulkAction } from "@/lib/bulkActions";
+import { confirmAction } from "@/lib/confirm";
+import { useCourses } from "@/lib/courses";
+import { runIndexJob, useIndexStatus, type IndexState } from "@/lib/indexJobs";
+import { MAX_TITLE_LENGTH, allTags, filterNotes } from "@/lib/noteFilters";
+import { enqueue, isNetworkError, removeOutboxItem, retryNow, useOutbox, type OutboxItem } from "@/lib/outbox";
+import { sweepPurgedCaches } from "@/lib/trash";
+import { useUploadQueue } from "@/lib/uploadQueue";
+import { PICKER_TYPES, contentHash, uploadProblem, withSize, type PickedFile } from "@/lib/uploadValidation";
+import {
+  SUMMARY_LENGTHS,
+  SUMMARY_STYLES,
+  addSummary,
+  getSummaries,
+  removeSummary,
+  summaryLabel,
+  type SummaryVersion,
+} from "@/lib/summaries";
 
-type Note = {
-  id: string;
-  userId: string;
-  title: string;
-  source: "MANUAL" | "UPLOAD" | "LINK";
-  rawText: string;
-  extractedText?: string | null;
-  courseId?: string | null;
-  createdAt: string;
-  updatedAt?: string;
-};
-
-const API_BASE = getApiBase();
-const SUMMARY_KEY = (id: string) => `note_summary_${id}`;
-const INDEXED_KEY = (id: string) => `note_indexed_${id}`;
 const LAST_INDEXED_KEY = "last-indexed-note-id";
+const SOURCE_LABEL: Record<Note["source"], string> = { UPLOAD: "Upload", MANUAL: "Written", LINK: "Link" };
 
 export default function UploadsScreen() {
-  const { user, loading, getAccessToken } = useAuth();
-  const { colorScheme, colors } = useThemeMode();
-  const isDark = colorScheme === "dark";
+  const { user, loading, needsVerification } = useAuth();
+  const { colors } = useThemeMode();
+  const router = useRouter();
+  const { noteId: noteIdParam, courseId: courseIdParam } = useLocalSearchParams<{
+    noteId?: string;
+    courseId?: string;
+  }>();
 
   const [notes, setNotes] = useState<Note[]>([]);
-  const [busy, setBusy] = useState(false);
+  const [linkOpen, setLinkOpen] = useState(false);
+  const [courseFilter, setCourseFilter] = useState<string | null>(courseIdParam ?? null);
+  const [assigning, setAssigning] = useState<Note | null>(null);
+  const [tagging, setTagging] = useState<Note | null>(null);
+  const [editingDetails, setEditingDetails] = useState<Note | null>(null);
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [undo, setUndo] = useState<{ message: string; noteIds: string[] } | null>(null);
+  const [duplicates, setDuplicates] = useState<(DuplicateUpload & { file: PickedFile })[]>([]);
+  // sizing and hashing picked files before anything is sent
+  const [checkingFiles, setCheckingFiles] = useState(false);
+
+  // multi-select for bulk actions
+  const [selecting, setSelecting] = useState(false);
+  const [picked, setPicked] = useState<Set<string>>(new Set());
+  const [bulkMoving, setBulkMoving] = useState(false);
+  const bulk = useBulkActions();
+  const [noteFilter, setNoteFilter] = useState<NoteFilterValue>(DEFAULT_NOTE_FILTER);
+  const { courses } = useCourses(!loading && !!user);
   const [loadingList, setLoadingList] = useState(true);
 
   const [selectedNoteId, setSelectedNoteId] = useState<string | null>(null);
 
   const [summaryBusy, setSummaryBusy] = useState(false);
-  const [summaryText, setSummaryText] = useState<string>("");
+  const [summaryStyle, setSummaryStyle] = useState<SummaryStyle>("bullet");
+  const [summaryLength, setSummaryLength] = useState<SummaryLength>("medium");
+  const [versions, setVersions] = useState<SummaryVersion[]>([]);
+  const [activeVersionId, setActiveVersionId] = useState<string | null>(null);
+  const [compareVersionId, setCompareVersionId] = useState<string | null>(null);
+  const [comparing, setComparing] = useState(false);
+  const [exporting, setExporting] = useState<SummaryVersion | null>(null);
 
-  const [indexingNoteId, setIndexingNoteId] = useState<string | null>(null);
-  const [indexedNoteIds, setIndexedNoteIds] = useState<Set<string>>(new Set());
+  const indexState = useIndexStatus(notes);
 
-  // ---------- summaries persistence ----------
-  const loadSummaryFromStorage = useCallback(async (noteId: string) => {
-    try {
-      const saved = await AsyncStorage.getItem(SUMMARY_KEY(noteId));
-      setSummaryText(saved || "");
-    } catch {}
-  }, []);
-
-  const saveSummaryToStorage = useCallback(async (noteId: string, text: string) => {
-    try {
-      await AsyncStorage.setItem(SUMMARY_KEY(noteId), text);
-    } catch {}
-  }, []);
-
-  const clearAllSummaries = useCallback(async () => {
-    try {
-      const keys = await AsyncStorage.getAllKeys();
-      const ours = keys.filter((k) => k.startsWith("note_summary_"));
-      if (ours.length) await AsyncStorage.multiRemove(ours);
-    } catch {}
-  }, []);
-
-  // ---------- indexed flags persistence ----------
-  const hydrateIndexedFlags = useCallback(async (list: Note[]) => {
-    try {
-      const keys = list.map((n) => INDEXED_KEY(n.id));
-      const pairs = await AsyncStorage.multiGet(keys);
-      const next = new Set<string>();
-      for (const [k, v] of pairs) {
-        if (v === "true") {
-          const noteId = k.replace("note_indexed_", "");
-          next.add(noteId);
-        }
-      }
-      setIndexedNoteIds(next);
-    } catch {}
-  }, []);
+  // uploads/summaries waiting for a connection
+  const pending = useOutbox((i) => i.kind === "upload" || i.kind === "summary");
+  const pendingSummary = pending.some((i) => i.kind === "summary" && i.noteId === selectedNoteId);
 
-  const setIndexedTrue = useCallback(async (noteId: string) => {
-    try {
-      await AsyncStorage.setItem(INDEXED_KEY(noteId), "true");
-      setIndexedNoteIds((prev) => new Set(prev).add(noteId));
-    } catch {}
+  // ---------- summaries persistence ----------
+  const showVersions = useCallback((list: SummaryVersion[], activeId?: string) => {
+    setVersions(list);
+    setActiveVersionId(activeId ?? list[list.length - 1]?.id ?? null);
+    setCompareVersionId(null);
+    setComparing(false);
   }, []);
 
-  const clearIndexedFlag = useCallback(async (noteId: string) => {
-    try {
-      await AsyncStorage.removeItem(INDEXED_KEY(noteId));
-      setIndexedNoteIds((prev) => {
-        const next = new Set(prev);
-        next.delete(noteId);
-        return next;
-      });
-    } catch {}
-  }, []);
+  const loadSummaryFromStorage = useCallback(
+    async (noteId: string) => showVersions(await getSummaries(noteId)),
+    [showVersions]
+  );
 
   // ---------- data ----------
   const loadNotes = useCallback(async () => {
     try {
       setLoadingList(true);
-      const token = await getAccessToken();
-      const res = await fetch(`${API_BASE}/api/notes`, {
-        headers: token ? { Authorization: `Bearer ${token}` } : {},
-      });
-      const json = await res.json().catch(() => []);
-      if (!res.ok) throw json;
-      const uploadsOnly = (json as Note[]).filter((n) => n.source === "UPLOAD");
-      setNotes(uploadsOnly);
-
-      // hydrate indexed flags for these notes
-      await hydrateIndexedFlags(uploadsOnly);
+      const json = await api.listNotes();
+      setNotes(json);
+      void sweepPurgedCaches();
 
       // choose selected note if none
-      if (uploadsOnly.length > 0 && !selectedNoteId) {
-        const first = uploadsOnly[0].id;
+      if (json.length > 0 && !selectedNoteId) {
+        const first = json[0].id;
         setSelectedNoteId(first);
         await loadSummaryFromStorage(first);
       }
@@ -138,19 +138,70 @@ export default function UploadsScreen() {
     } finally {
       setLoadingList(false);
     }
-  }, [getAccessToken, selectedNoteId, loadSummaryFromStorage, hydrateIndexedFlags]);
+  }, [selectedNoteId, loadSummaryFromStorage]);
 
   useEffect(() => {
     if (!loading && user) loadNotes();
   }, [loading, user, loadNotes]);
 
+  // opened for a specific note (Search, Home)
+  useEffect(() => {
+    if (noteIdParam) setSelectedNoteId(noteIdParam);
+  }, [noteIdParam]);
+
+  // opened from a course page
+  useEffect(() => {
+    if (courseIdParam) setCourseFilter(courseIdParam);
+  }, [courseIdParam]);
+
+  // a deleted course drops out of the filter
+  useEffect(() => {
+    if (courseFilter && courses.length && !courses.some((c) => c.id === courseFilter)) setCourseFilter(null);
+  }, [courses, courseFilter]);
+
   useEffect(() => {
     if (selectedNoteId) {
       loadSummaryFromStorage(selectedNoteId);
     } else {
-      setSummaryText("");
+      showVersions([]);
     }
-  }, [selectedNoteId, loadSummaryFromStorage]);
+  }, [selectedNoteId, loadSummaryFromStorage, showVersions]);
+
+  // Notes saved from the editor (or changed elsewhere): refresh and select the new one
+  useEffect(() => {
+    return on("notes:changed", ({ noteId }) => {
+      void loadNotes();
+      if (noteId) {
+        setSelectedNoteId(noteId);
+        // an edit may have flagged its summaries as outdated
+        void loadSummaryFromStorage(noteId);
+      }
+    });
+  }, [loadNotes, loadSummaryFromStorage]);
+
+  // Queued work finished in the background: pick up the new note / stored summary
+  useEffect(() => {
+    const offDone = on("outbox:done", ({ item }) => {
+      if (item.kind === "upload") void loadNotes();
+      if (item.kind === "summary" && item.noteId === selectedNoteId) void loadSummaryFromStorage(item.noteId);
+    });
+    const offFailed = on("outbox:failed", ({ item, error }) => {
+      if (item.kind === "upload") Alert.alert("Upload error", `${item.asset.name ?? "File"}: ${error}`);
+      if (item.kind === "summary") Alert.alert("Summary error", error);
+    });
+    return () => {
+      offDone();
+      offFailed();
+    };
+  }, [loadNotes, loadSummaryFromStorage, selectedNoteId]);
+
+  const uploads = useUploadQueue({
+    onBatchDone: async (noteIds) => {
+      if (!noteIds.length) return;
+      await loadNotes();
+      setSelectedNoteId(noteIds[0]);
+    },
+  });
 
   const insets = useSafeAreaInsets();
   // Your tab bar is absolute with height 54 and bottom margin 36 (from your Tabs layout)
@@ -158,152 +209,103 @@ export default function UploadsScreen() {
   const TAB_MARGIN_BOTTOM = 36;
   const BOTTOM_OVERLAY = insets.bottom + TAB_HEIGHT + TAB_MARGIN_BOTTOM;
 
-  // ---------- web-only file conversion ----------
-  async function webFileFromUri(uri: string, name: string, mime?: string): Promise<File> {
-    const resp = await fetch(uri);
-    const blob = await resp.blob();
-    const filename = name || "upload";
-    const type = mime || blob.type || "application/octet-stream";
-    return new File([blob], filename, { type });
-  }
-
   // ---------- upload + auto-index ----------
   async function pickAndUpload() {
+    if (checkingFiles) return;
     try {
       const picked = await DocumentPicker.getDocumentAsync({
         copyToCacheDirectory: true,
-        type: "*/*",
-        multiple: false,
+        type: PICKER_TYPES,
+        multiple: true,
       });
       if (picked.canceled) return;
 
-      const asset = picked.assets?.[0];
-      if (!asset?.uri) {
+      const selected = (picked.assets ?? []).filter((a) => !!a.uri);
+      if (!selected.length) {
         Alert.alert("No file", "Invalid selection.");
         return;
       }
-
-      const token = await getAccessToken();
-      if (!token) {
-        Alert.alert("Not signed in", "Please sign in to upload notes.");
-        return;
-      }
-
-      setBusy(true);
-      const form = new FormData();
-
-      if (Platform.OS === "web") {
-        const file = await webFileFromUri(asset.uri, asset.name || "upload", asset.mimeType);
-        form.append("file", file);
-      } else {
-        form.append("file", {
-          // @ts-ignore react-native FormData shim
-          uri: asset.uri,
-          name: asset.name || "upload",
-          type: asset.mimeType || "application/octet-stream",
-        });
-      }
-
-      const res = await fetch(`${API_BASE}/api/uploads`, {
-        method: "POST",
-        headers: { Authorization: `Bearer ${token}` } as any,
-        body: form,
-      });
-
-      const json = await res.json().catch(() => ({}));
-      if (!res.ok) {
-        const msg = typeof json?.error === "string" ? json.error : "Upload failed";
-        Alert.alert("Upload error", msg);
-        return;
-      }
-
-      const noteId: string | undefined = json?.note?.id;
-
-      await loadNotes();
-      if (noteId) {
-        setSelectedNoteId(noteId);
-        await clearAllSummaries();
-        await autoIndexAfterUpload(noteId, token);
+      setCheckingFiles(true);
+      // the picker doesn't always report a size, and unknown sizes would skip the limit
+      const assets: PickedFile[] = [];
+      for (const a of selected) assets.push(await withSize(a));
+      const rejected = assets.filter((a) => uploadProblem(a));
+      if (rejected.length) {
+        Alert.alert(
+          rejected.length === 1 ? "Can't upload this file" : `Can't upload ${rejected.length} files`,
+          rejected.map((a) => `${a.name}: ${uploadProblem(a)}`).join("\n")
+        );
       }
+      const accepted = assets.filter((a) => !uploadProblem(a));
+      if (accepted.length) await uploadUnlessDuplicate(accepted);
     } catch (e: any) {
       console.error("Upload error", e);
-      Alert.alert("Upload error", e?.message || "Something went wrong.");
+      Alert.alert("Upload error", errorMessage(e, "Upload failed"));
     } finally {
-      setBusy(false);
+      setCheckingFiles(false);
     }
   }
 
-  async function autoIndexAfterUpload(noteId: string, token: string) {
+  // Re-picking a file that's already a note offers that note instead of making a copy
+  async function uploadUnlessDuplicate(files: PickedFile[]) {
+    // one at a time: each hash reads the whole file into memory
+    const hashed: (PickedFile & { contentHash: string | null })[] = [];
+    for (const f of files) hashed.push({ ...f, contentHash: await contentHash(f.uri) });
+    // the same file picked twice in one go only uploads once
+    const unique = hashed.filter(
+      (f, i) => !f.contentHash || hashed.findIndex((g) => g.contentHash === f.contentHash) === i
+    );
+    let existing: Record<string, Note> = {};
     try {
-      setIndexingNoteId(noteId);
-      const res = await fetch(`${API_BASE}/api/embeddings/index/${noteId}`, {
-        method: "POST",
-        headers: { Authorization: `Bearer ${token}` },
-      });
-      const json = await res.json().catch(() => ({}));
-      if (!res.ok) {
-        const msg = typeof json?.error === "string" ? json.error : "Indexing failed";
-        Alert.alert("Indexing error", msg);
-        return;
-      }
-      await setIndexedTrue(noteId);
-      await loadNotes();
-      await AsyncStorage.setItem(LAST_INDEXED_KEY, noteId).catch(() => {});
-      emit("notes:changed", { noteId: noteId });
-    } catch (e: any) {
-      console.error("Auto-indexing error", e);
-      Alert.alert("Indexing error", e?.message || "Something went wrong.");
-    } finally {
-      setIndexingNoteId(null);
+      existing = await api.findNotesByHash(unique.flatMap((f) => (f.contentHash ? [f.contentHash] : [])));
+    } catch (e) {
+      // offline or an older server: upload as before
+      console.warn("Duplicate check failed", e);
+    }
+    const dupes = unique.filter((f) => f.contentHash && existing[f.contentHash]);
+    const fresh = unique.filter((f) => !dupes.includes(f));
+    if (dupes.length) {
+      setDuplicates(dupes.map((f) => ({ name: f.name || "upload", existing: existing[f.contentHash!], file: f })));
     }
+    setCheckingFiles(false);
+    // new files land in the course being viewed
+    if (fresh.length) await uploads.start(fresh, courseFilter);
+  }
+
+  function openExisting(note: Note) {
+    setDuplicates([]);
+    // make sure the note isn't hidden by the current filters
+    setCourseFilter(null);
+    setNoteFilter(DEFAULT_NOTE_FILTER);
+    setSelectedNoteId(note.id);
+    void loadSummaryFromStorage(note.id);
   }
 
+  function uploadDuplicatesAnyway() {
+    const files = duplicates.map((d) => d.file);
+    setDuplicates([]);
+    void uploads.start(files, courseFilter);
+  }
+
+  // progress and failures show on the card; the job keeps running if the user leaves
   async function indexEmbeddings(noteId: string) {
     try {
-      const token = await getAccessToken();
-      if (!token) return;
-      setIndexingNoteId(noteId);
-      const res = await fetch(`${API_BASE}/api/embeddings/index/${noteId}`, {
-        method: "POST",
-        headers: { Authorization: `Bearer ${token}` },
-      });
-      const json = await res.json().catch(() => ({}));
-      if (!res.ok) {
-        const msg = typeof json?.error === "string" ? json.error : "Indexing failed";
-        Alert.alert("Indexing error", msg);
-        return;
-      }
-      await setIndexedTrue(noteId);
+      await runIndexJob(noteId);
       await AsyncStorage.setItem(LAST_INDEXED_KEY, noteId).catch(() => {});
-      emit("notes:changed", { noteId: noteId });
-      Alert.alert("Indexed", `Chunks created: ${json?.chunks ?? "?"}`);
     } catch (e) {
       console.error("Indexing error", e);
-      Alert.alert("Indexing error", "Something went wrong.");
-    } finally {
-      setIndexingNoteId(null);
     }
   }
 
   // ---------- delete ----------
+  // Deleting moves notes to the trash, so there's no confirm step: the snackbar offers
+  // an undo and the Trash screen restores them later. Caches stay until a purge.
   async function deleteNote(noteId: string) {
     try {
-      const token = await getAccessToken();
-      if (!token) return;
-
-      const res = await fetch(`${API_BASE}/api/notes/${noteId}`, {
-        method: "DELETE",
-        headers: { Authorization: `Bearer ${token}` },
-      });
-      const json = await res.json().catch(() => ({}));
-      if (!res.ok) {
-        const msg = typeof json?.error === "string" ? json.error : "Could not delete";
-        Alert.alert("Delete failed", msg);
-        return;
-      }
+      const title = notes.find((n) => n.id === noteId)?.title || "(untitled)";
+      await api.deleteNote(noteId);
       setNotes((prev) => prev.filter((n) => n.id !== noteId));
-      await AsyncStorage.removeItem(SUMMARY_KEY(noteId));
-      await clearIndexedFlag(noteId);
+      setUndo({ message: `“${title}” moved to trash`, noteIds: [noteId] });
       emit("notes:changed", { noteId: undefined });
       if (selectedNoteId === noteId) {
         const next = notes.find((n) => n.id !== noteId);
@@ -311,128 +313,167 @@ export default function UploadsScreen() {
         if (next) {
           await loadSummaryFromStorage(next.id);
         } else {
-          setSummaryText("");
+          showVersions([]);
         }
       }
     } catch (e) {
       console.error("Delete note error", e);
-      Alert.alert("Delete error", "Something went wrong.");
+      Alert.alert("Delete failed", errorMessage(e, "Could not delete"));
     }
   }
 
-  function confirmDelete(noteId: string) {
-    if (Platform.OS === "web") {
-       
-      if (window.confirm("Delete this note? This will remove the note and its upload on disk.")) {
-        void deleteNote(noteId);
-      }
-    } else {
-      Alert.alert(
-        "Delete?",
-        "This will remove the note and its upload on disk.",
-        [
-          { text: "Cancel", style: "cancel" },
-          { text: "Delete", style: "destructive", onPress: () => deleteNote(noteId) },
-        ],
-        { cancelable: true }
-      );
+  const hideUndo = useCallback(() => setUndo(null), []);
+
+  async function undoDelete(noteIds: string[]) {
+    const results = await Promise.allSettled(noteIds.map((id) => api.restoreNote(id)));
+    const failed = results.filter((r) => r.status === "rejected") as PromiseRejectedResult[];
+    emit("notes:changed", { noteId: noteIds.length === 1 && !failed.length ? noteIds[0] : undefined });
+    if (failed.length) {
+      console.error("Restore error", failed[0].reason);
+      Alert.alert("Couldn't restore", errorMessage(failed[0].reason, "Find the notes in the Trash instead."));
+    }
+  }
+
+  // ---------- rename ----------
+  async function renameNote(note: Note, title: string) {
+    setRenamingId(null);
+    const next = title.trim();
+    if (!next || next === note.title) return;
+    setNotes((prev) => prev.map((n) => (n.id === note.id ? { ...n, title: next } : n)));
+    try {
+      await api.updateNote(note.id, { title: next });
+      emit("notes:changed", { noteId: note.id });
+    } catch (e) {
+      console.error("Rename error", e);
+      setNotes((prev) => prev.map((n) => (n.id === note.id ? { ...n, title: note.title } : n)));
+      Alert.alert("Couldn't rename note", errorMessage(e, "Please try again."));
+    }
+  }
+
+  // ---------- bulk ----------
+  function togglePicked(noteId: string) {
+    setPicked((prev) => {
+      const next = new Set(prev);
+      if (next.has(noteId)) next.delete(noteId);
+      else next.add(noteId);
+      return next;
+    });
+  }
+
+  function endSelecting() {
+    setSelecting(false);
+    setPicked(new Set());
+  }
+
+  async function runBulk(action: BulkAction) {
+    const targets = notes.filter((n) => picked.has(n.id));
+    endSelecting();
+    afterBulk(action, await bulk.start(action, targets));
+  }
+
+  async function retryBulk() {
+    const action = bulk.action;
+    const done = await bulk.retryFailed();
+    if (action) afterBulk(action, done);
+  }
+
+  function afterBulk(action: BulkAction, done: string[]) {
+    if (action.kind === "delete" && done.length) {
+      setUndo({ message: `${done.length} note${done.length === 1 ? "" : "s"} moved to trash`, noteIds: done });
+    }
+    if (action.kind === "delete" && selectedNoteId && done.includes(selectedNoteId)) {
+      // reloading with nothing selected picks the first remaining note
+      setSelectedNoteId(null);
+      showVersions([]);
+    }
+  }
+
+  function confirmBulkDelete() {
+    const count = picked.size;
+    confirmAction(
+      `Delete ${count} note${count === 1 ? "" : "s"}?`,
+      "They stay in the trash until you empty it or they expire.",
+      "Delete",
+      () => void runBulk({ kind: "delete" })
+    );
+  }
+
+  // ---------- favourites ----------
+  async function toggleFavourite(note: Note) {
+    const favorite = !note.favorite;
+    setNotes((prev) => prev.map((n) => (n.id === note.id ? { ...n, favorite } : n)));
+    try {
+      await api.updateNote(note.id, { favorite });
+      emit("notes:changed", {});
+    } catch (e) {
+      console.error("Favourite error", e);
+      setNotes((prev) => prev.map((n) => (n.id === note.id ? { ...n, favorite: !favorite } : n)));
+      Alert.alert("Couldn't update favourite", errorMessage(e, "Please try again."));
     }
   }
 
   // ---------- summary ----------
   async function generateSummary() {
     if (!selectedNoteId) return;
+    const noteId = selectedNoteId;
+    const opts = { style: summaryStyle, length: summaryLength };
     try {
       setSummaryBusy(true);
-      setSummaryText("");
 
-      const token = await getAccessToken();
-      if (!token) {
-        Alert.alert("Not signed in", "Please sign in to generate summaries.");
-        return;
-      }
-
-      const res = await fetch(`${API_BASE}/api/notes/${selectedNoteId}/summary`, {
-        method: "POST",
-        headers: {
-          Authorization: `Bearer ${token}`,
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({ style: "bullet", length: "medium" }),
-      });
-      const json = await res.json().catch(() => ({}));
-      if (!res.ok) {
-        const msg = typeof json?.error === "string" ? json.error : "Summary failed";
-        Alert.alert("Summary error", msg);
-        return;
-      }
+      const json = await api.summarize(noteId, opts);
       const text = (json?.summary ?? "").trim();
-      setSummaryText(text);
-      await saveSummaryToStorage(selectedNoteId, text);
+      if (!text) throw new Error("The server returned an empty summary.");
+      const version = await addSummary(noteId, { ...opts, text });
+      // the user may have moved to another note while this ran
+      if (noteId === selectedNoteId) showVersions(await getSummaries(noteId), version.id);
     } catch (e: any) {
+      if (isNetworkError(e)) {
+        await enqueue({ kind: "summary", noteId: selectedNoteId, ...opts });
+        Alert.alert("You're offline", "The summary will be generated when you're back online.");
+        return;
+      }
       console.error("Summary error", e);
-      Alert.alert("Summary error", e?.message || "Something went wrong.");
+      Alert.alert("Summary error", errorMessage(e, "Summary failed"));
     } finally {
       setSummaryBusy(false);
     }
   }
 
-  const hasNotes = notes.length > 0;
-  const selected = useMemo(() => notes.find((n) => n.id === selectedNoteId) || null, [notes, selectedNoteId]);
-  const selectedIsIndexed = selectedNoteId ? indexedNoteIds.has(selectedNoteId) : false;
-  const generateDisabled = !selectedIsIndexed || summaryBusy || !selectedNoteId || !!summaryText;
-
-  // Theme-aware Markdown styles
-  const mdStyles = useMemo(
-    () => ({
-      body: { color: colors.foreground },
-      text: { color: colors.foreground },
-      heading1: { color: colors.foreground, fontWeight: "700", marginBottom: 8 },
-      heading2: { color: colors.foreground, fontWeight: "700", marginBottom: 6 },
-      heading3: { color: colors.foreground, fontWeight: "700", marginBottom: 4 },
-      bullet_list: { marginVertical: 6 },
-      ordered_list: { marginVertical: 6 },
-      list_item: { marginVertical: 2 },
-      strong: { fontWeight: "700", color: colors.foreground },
-      em: { fontStyle: "italic", color: colors.foreground },
-      code_inline: {
-        backgroundColor: isDark ? colors.grey5 : colors.grey4,
-        borderRadius: 6,
-        paddingHorizontal: 6,
-        paddingVertical: 2,
-        color: colors.foreground,
-      },
-      fence: {
-        backgroundColor: isDark ? colors.grey5 : colors.grey4,
-        borderRadius: 10,
-        padding: 10,
-        color: colors.foreground,
-      },
-      table: { borderWidth: 1, borderColor: colors.grey4, borderRadius: 8, overflow: "hidden" },
-      thead: { backgroundColor: isDark ? colors.grey5 : colors.grey4 },
-      th: {
-        padding: 8,
-        borderWidth: 1,
-        borderColor: colors.grey4,
-        fontWeight: "700",
-        color: colors.foreground,
-      },
-      td: {
-        padding: 8,
-        borderWidth: 1,
-        borderColor: colors.grey4,
-        color: colors.foreground,
-      },
-      link: { color: colors.primary, textDecorationLine: "underline" },
-      blockquote: {
-        borderLeftWidth: 3,
-        borderLeftColor: colors.grey3,
-        paddingLeft: 10,
-        color: colors.foreground,
-      },
-    }),
-    [colors, isDark]
+  function pickVersion(id: string) {
+    if (comparing && id !== activeVersionId) setCompareVersionId(id === compareVersionId ? null : id);
+    else setActiveVersionId(id);
+  }
+
+  function confirmDeleteVersion(v: SummaryVersion) {
+    if (!selectedNoteId) return;
+    const noteId = selectedNoteId;
+    confirmAction("Delete this version?", `${summaryLabel(v)} summary`, "Delete", async () => {
+      try {
+        showVersions(await removeSummary(noteId, v.id));
+      } catch (e) {
+        console.error("Delete summary error", e);
+      }
+    });
+  }
+
+  const tags = useMemo(() => allTags(notes), [notes]);
+  const visibleNotes = useMemo(
+    () => filterNotes(notes, { courseId: courseFilter, ...noteFilter }),
+    [notes, courseFilter, noteFilter]
+  );
+  const courseById = useMemo(() => new Map(courses.map((c) => [c.id, c])), [courses]);
+  const hasNotes = visibleNotes.length > 0;
+  const selected = useMemo(
+    () => visibleNotes.find((n) => n.id === selectedNoteId) || null,
+    [visibleNotes, selectedNoteId]
   );
+  const selectedIsIndexed = selected ? indexState(selected).status === "ready" : false;
+  const generateDisabled = !selectedIsIndexed || summaryBusy || pendingSummary || !selectedNoteId || needsVerification;
+  const activeVersion = versions.find((v) => v.id === activeVersionId) ?? null;
+  const compareVersion = comparing ? versions.find((v) => v.id === compareVersionId) ?? null : null;
+  const { width: windowWidth } = useWindowDimensions();
+
+  const mdStyles = useMarkdownStyles();
 
   const cardWidth = Math.min(320, Math.round(Dimensions.get("window").width * 0.78));
 
@@ -451,16 +492,211 @@ export default function UploadsScreen() {
         {/* Top row */}
         <View className="flex-row items-center justify-between">
           <Text className="text-2xl font-bold text-light-text dark:text-dark-text">Notes</Text>
-          <Pressable
-            onPress={pickAndUpload}
-            disabled={busy}
-            className="px-4 py-2 rounded-2xl bg-primary items-center justify-center"
-          >
-            <Text className="text-white font-semibold">
-              {busy ? "Uploading..." : "Upload note"}
-            </Text>
+          <View className="flex-row flex-wrap justify-end gap-2">
+            {notes.length ? (
+              <Pressable
+                onPress={() => (selecting ? endSelecting() : setSelecting(true))}
+                disabled={needsVerification || bulk.running}
+                className="px-4 py-2 rounded-2xl items-center justify-center border border-light-border dark:border-dark-border"
+              >
+                <Text className="text-light-text dark:text-dark-text font-semibold">
+                  {selecting ? "Done" : "Select"}
+                </Text>
+              </Pressable>
+            ) : null}
+            <Pressable
+              onPress={() => router.push("/(tabs)/search")}
+              accessibilityLabel="Search notes"
+              className="px-3 py-2 rounded-2xl items-center justify-center border border-light-border dark:border-dark-border"
+            >
+              <Search size={18} color={colors.foreground} />
+            </Pressable>
+            <Pressable
+              onPress={() => setLinkOpen(true)}
+              disabled={needsVerification}
+              className={`px-4 py-2 rounded-2xl items-center justify-center border border-light-border dark:border-dark-border ${
+                needsVerification ? "opacity-60" : ""
+              }`}
+            >
+              <Text className="text-light-text dark:text-dark-text font-semibold">Paste link</Text>
+            </Pressable>
+            <Pressable
+              onPress={() =>
+                router.push({
+                  pathname: "/(tabs)/note-editor",
+                  params: courseFilter ? { courseId: courseFilter } : {},
+                })
+              }
+              disabled={needsVerification}
+              className={`px-4 py-2 rounded-2xl items-center justify-center border border-light-border dark:border-dark-border ${
+                needsVerification ? "opacity-60" : ""
+              }`}
+            >
+              <Text className="text-light-text dark:text-dark-text font-semibold">Write note</Text>
+            </Pressable>
+            <Pressable
+              onPress={() =>
+                router.push({
+                  pathname: "/(tabs)/scan",
+                  params: courseFilter ? { courseId: courseFilter } : {},
+                })
+              }
+              disabled={needsVerification}
+              className={`px-4 py-2 rounded-2xl items-center justify-center border border-light-border dark:border-dark-border ${
+                needsVerification ? "opacity-60" : ""
+              }`}
+            >
+              <Text className="text-light-text dark:text-dark-text font-semibold">Scan pages</Text>
+            </Pressable>
+            <Pressable
+              onPress={pickAndUpload}
+              disabled={needsVerification || checkingFiles}
+              className={`px-4 py-2 rounded-2xl items-center justify-center ${
+                needsVerification || checkingFiles ? "bg-primary/60" : "bg-primary"
+              }`}
+            >
+              <Text className="text-white font-semibold">
+                {checkingFiles ? "Checking files…" : uploads.running ? "Upload more" : "Upload notes"}
+              </Text>
+            </Pressable>
+          </View>
+        </View>
+
+        <VerifyEmailNotice feature="uploads, notes and summaries" />
+
+        <View className="mt-3 flex-row items-center gap-2">
+          <CourseFilterChips
+            courses={courses}
+            value={courseFilter}
+            onChange={setCourseFilter}
+            className="flex-1"
+          />
+          <Pressable onPress={() => router.push("/(tabs)/courses")} className="px-2 py-1 ml-auto">
+            <Text style={{ color: colors.primary }}>{courses.length ? "Courses" : "Add a course"}</Text>
+          </Pressable>
+          <Pressable onPress={() => router.push("/(tabs)/trash")} className="px-2 py-1">
+            <Text style={{ color: colors.primary }}>Trash</Text>
           </Pressable>
         </View>
+        {notes.length ? (
+          <NoteFilterBar tags={tags} value={noteFilter} onChange={setNoteFilter} className="mt-2" />
+        ) : null}
+
+        {selecting ? (
+          <View
+            className="mt-3 rounded-2xl border p-3 gap-2"
+            style={{ backgroundColor: colors.card, borderColor: colors.grey4 }}
+          >
+            <View className="flex-row items-center gap-3">
+              <Text className="flex-1 font-semibold" style={{ color: colors.foreground }}>
+                {picked.size} selected
+              </Text>
+              <Pressable
+                onPress={() =>
+                  setPicked(picked.size === visibleNotes.length ? new Set() : new Set(visibleNotes.map((n) => n.id)))
+                }
+                hitSlop={6}
+              >
+                <Text style={{ color: colors.primary }}>
+                  {picked.size === visibleNotes.length ? "Select none" : "Select all"}
+                </Text>
+              </Pressable>
+            </View>
+            <View className="flex-row flex-wrap gap-2">
+              <BulkButton
+                label="Re-index"
+                colors={colors}
+                disabled={!picked.size}
+                onPress={() => runBulk({ kind: "reindex" })}
+              />
+              <BulkButton
+                label="Move to course"
+                colors={colors}
+                disabled={!picked.size}
+                onPress={() => setBulkMoving(true)}
+              />
+              <BulkButton
+                label="Study pack"
+                colors={colors}
+                disabled={!picked.size}
+                onPress={() => runBulk({ kind: "study-pack", style: summaryStyle, length: summaryLength })}
+              />
+              <BulkButton
+                label="Delete"
+                colors={colors}
+                destructive
+                disabled={!picked.size}
+                onPress={confirmBulkDelete}
+              />
+            </View>
+          </View>
+        ) : null}
+
+        {uploads.jobs.length > 0 ? (
+          <UploadProgressList
+            jobs={uploads.jobs}
+            summary={uploads.summary}
+            onCancel={uploads.cancel}
+            onCancelAll={uploads.cancelAll}
+            onDismiss={uploads.dismiss}
+          />
+        ) : null}
+
+        <LinkImportModal
+          visible={linkOpen}
+          courseId={courseFilter}
+          onClose={() => setLinkOpen(false)}
+          onImported={(noteId) => setSelectedNoteId(noteId)}
+        />
+
+        <CoursePickerModal note={assigning} courses={courses} onClose={() => setAssigning(null)} />
+        <CoursePickerModal
+          note={null}
+          bulk={
+            bulkMoving
+              ? {
+                  count: picked.size,
+                  onPick: (courseId) =>
+                    runBulk({
+                      kind: "move",
+                      courseId,
+                      courseName: courses.find((c) => c.id === courseId)?.name ?? "",
+                    }),
+                }
+              : null
+          }
+          courses={courses}
+          onClose={() => setBulkMoving(false)}
+        />
+        <BulkProgressSheet
+          action={bulk.action}
+          items={bulk.items}
+          summary={bulk.summary}
+          onStop={bulk.stop}
+          onRetry={() => void retryBulk()}
+          onDismiss={bulk.dismiss}
+        />
+        <TagEditorModal note={tagging} suggestions={tags} onClose={() => setTagging(null)} />
+        <NoteDetailsModal note={editingDetails} courses={courses} onClose={() => setEditingDetails(null)} />
+        <DuplicateUploadModal
+          duplicates={duplicates}
+          onOpen={openExisting}
+          onSkip={() => setDuplicates([])}
+          onUploadAnyway={uploadDuplicatesAnyway}
+        />
+        <ExportSummaryModal
+          title={selected?.title || "(untitled)"}
+          version={exporting}
+          onClose={() => setExporting(null)}
+        />
+
+        {pending.length > 0 ? (
+          <PendingList
+            items={pending}
+            colors={colors}
+            noteTitle={(id) => notes.find((n) => n.id === id)?.title || "(untitled)"}
+          />
+        ) : null}
 
         {/* Horizontal notes scroller */}
         <View className="mt-4">
@@ -468,16 +704,30 @@ export default function UploadsScreen() {
             <View className="items-center justify-center py-10">
               <ActivityIndicator />
             </View>
+          ) : !hasNotes && (noteFilter.tag || noteFilter.favouritesOnly) ? (
+            <View className="items-center justify-center mt-10">
+              <Text className="text-light-subtext dark:text-dark-subtext">No notes match these filters.</Text>
+              <Pressable onPress={() => setNoteFilter(DEFAULT_NOTE_FILTER)} className="mt-2">
+                <Text style={{ color: colors.primary }}>Clear filters</Text>
+              </Pressable>
+            </View>
+          ) : !hasNotes && courseFilter ? (
+            <View className="items-center justify-center mt-10">
+              <Text className="text-light-subtext dark:text-dark-subtext">No notes in this course yet.</Text>
+              <Text className="text-light-subtext dark:text-dark-subtext">
+                Uploads and notes you add now go straight into it.
+              </Text>
+            </View>
           ) : !hasNotes ? (
             <View className="items-center justify-center mt-10">
               <Text className="text-light-subtext dark:text-dark-subtext">No notes yet.</Text>
               <Text className="text-light-subtext dark:text-dark-subtext">
-                Tap “Upload note” to get started.
+                Tap “Upload notes” or “Write note” to get started.
               </Text>
             </View>
           ) : (
             <FlatList
-              data={notes}
+              data={visibleNotes}
               keyExtractor={(n) => n.id}
               horizontal
               showsHorizontalScrollIndicator={false}
@@ -492,15 +742,41 @@ export default function UploadsScreen() {
                   colors={colors}
                   active={item.id === selectedNoteId}
                   title={item.title || "(untitled)"}
+                  description={item.description ?? null}
+                  renaming={renamingId === item.id}
+                  onStartRename={
+                    selecting || item.id !== selectedNoteId ? undefined : () => setRenamingId(item.id)
+                  }
+                  onRename={(title) => (title === null ? setRenamingId(null) : void renameNote(item, title))}
+                  onEditDetails={() => setEditingDetails(item)}
+                  source={item.source}
+                  tags={item.tags ?? []}
+                  favorite={!!item.favorite}
+                  onToggleFavourite={() => toggleFavourite(item)}
+                  onEditTags={() => setTagging(item)}
+                  course={item.courseId ? courseById.get(item.courseId) : undefined}
                   date={new Date(item.createdAt).toLocaleString()}
-                  isIndexed={indexedNoteIds.has(item.id)}
-                  isIndexing={indexingNoteId === item.id}
+                  index={indexState(item)}
+                  checked={selecting ? picked.has(item.id) : undefined}
                   onSelect={() => {
+                    if (selecting) return togglePicked(item.id);
                     setSelectedNoteId(item.id);
                     loadSummaryFromStorage(item.id);
                   }}
+                  onLongPress={() => {
+                    if (needsVerification || bulk.running) return;
+                    setSelecting(true);
+                    togglePicked(item.id);
+                  }}
                   onIndex={() => indexEmbeddings(item.id)}
-                  onDelete={() => confirmDelete(item.id)}
+                  onDelete={() => void deleteNote(item.id)}
+                  onAssign={() => setAssigning(item)}
+                  onRead={() => router.push({ pathname: "/(tabs)/note-reader", params: { noteId: item.id } })}
+                  onEdit={
+                    item.source === "MANUAL"
+                      ? () => router.push({ pathname: "/(tabs)/note-editor", params: { noteId: item.id } })
+                      : undefined
+                  }
                 />
               )}
             />
@@ -516,23 +792,43 @@ export default function UploadsScreen() {
 
             {/* Prompt card */}
             <View
-              className="mt-3 rounded-2xl border p-4 items-center"
+              className="mt-3 rounded-2xl border p-4"
               style={{ backgroundColor: colors.card, borderColor: colors.grey4 }}
             >
-              <Text className="text-center" style={{ color: colors.foreground }}>
+              <Text style={{ color: colors.foreground }}>
                 Create a clear and easy-to-understand summary of your content
               </Text>
+              <OptionRow
+                label="Style"
+                options={SUMMARY_STYLES}
+                value={summaryStyle}
+                onChange={setSummaryStyle}
+                colors={colors}
+              />
+              <OptionRow
+                label="Length"
+                options={SUMMARY_LENGTHS}
+                value={summaryLength}
+                onChange={setSummaryLength}
+                colors={colors}
+              />
               <View className="mt-3 items-center">
                 <Pressable
                   onPress={generateSummary}
-                  disabled={!selectedIsIndexed || summaryBusy || !!summaryText}
+                  disabled={generateDisabled}
                   className={`px-4 py-2 rounded-2xl ${
-                    !selectedIsIndexed || summaryBusy || !!summaryText ? "bg-primary/60" : "bg-primary"
+                    generateDisabled ? "bg-primary/60" : "bg-primary"
                   } flex-row items-center justify-center gap-2`}
                 >
                   <Wand2 size={18} color="#fff" />
                   <Text className="text-white font-semibold">
-                    {summaryText ? "Generated" : "Generate"}
+                    {summaryBusy
+                      ? "Generating…"
+                      : pendingSummary
+                        ? "Queued"
+                        : versions.length
+                          ? "Generate new version"
+                          : "Generate"}
                   </Text>
                 </Pressable>
                 {summaryBusy && (
@@ -543,8 +839,46 @@ export default function UploadsScreen() {
               </View>
             </View>
 
+            {/* Saved versions */}
+            {versions.length > 1 ? (
+              <View className="mt-3 flex-row items-center gap-2">
+                <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={{ gap: 8 }}>
+                  {versions
+                    .slice()
+                    .reverse()
+                    .map((v) => (
+                      <VersionChip
+                        key={v.id}
+                        version={v}
+                        active={v.id === activeVersionId}
+                        compared={comparing && v.id === compareVersionId}
+                        onPress={() => pickVersion(v.id)}
+                        colors={colors}
+                      />
+                    ))}
+                </ScrollView>
+                <Pressable
+                  onPress={() => {
+                    setComparing((c) => !c);
+                    setCompareVersionId(null);
+                  }}
+                  className="px-3 py-1.5 rounded-full border"
+                  style={{ borderColor: comparing ? colors.primary : colors.grey4 }}
+                >
+                  <Text className="text-xs font-semibold" style={{ color: comparing ? colors.primary : colors.foreground }}>
+                    {comparing ? "Done" : "Compare"}
+                  </Text>
+                </Pressable>
+              </View>
+            ) : null}
+            {comparing && !compareVersion ? (
+              <Text className="mt-2 text-xs" style={{ color: colors.grey }}>
+                Pick another version to show next to the selected one.
+              </Text>
+            ) : null}
+
             {/* Markdown Result */}
-            {summaryText ? (
+            {activeVersion ? (
               <ScrollView
                 className="mt-4"
                 style={{ flex: 1 }}
@@ -554,20 +888,61 @@ export default function UploadsScreen() {
                 nestedScrollEnabled
                 keyboardShouldPersistTaps="handled"
               >
-                <View
-                  className="rounded-2xl border p-4"
-                  style={{ backgroundColor: colors.card, borderColor: colors.grey4 }}
-                >
-                  <Text className="text-base font-semibold mb-2" style={{ color: colors.foreground }}>
-                    Generated summary
-                  </Text>
-                  <Markdown style={mdStyles}>{summaryText}</Markdown>
+                <View className={compareVersion && windowWidth >= 900 ? "flex-row gap-3" : "gap-3"}>
+                  {[activeVersion, compareVersion].map((v) =>
+                    v ? (
+                      <View
+                        key={v.id}
+                        className="rounded-2xl border p-4"
+                        style={{
+                          flex: compareVersion && windowWidth >= 900 ? 1 : undefined,
+                          backgroundColor: colors.card,
+                          borderColor: v === activeVersion ? colors.primary : colors.grey4,
+                        }}
+                      >
+                        <View className="flex-row items-center justify-between mb-2 gap-2">
+                          <View className="flex-1">
+                            <Text className="text-base font-semibold" style={{ color: colors.foreground }}>
+                              {summaryLabel(v)}
+                            </Text>
+                            {v.createdAt ? (
+                              <Text className="text-xs" style={{ color: colors.grey }}>
+                                {new Date(v.createdAt).toLocaleString()}
+                              </Text>
+                            ) : null}
+                            {v.stale ? (
+                              <Text className="text-xs" style={{ color: colors.grey }}>
+                                Outdated: the note was edited after this summary was generated.
+                              </Text>
+                            ) : null}
+                          </View>
+                          <Pressable onPress={() => setExporting(v)} hitSlop={8} className="px-2 py-1">
+                            <Text className="text-xs font-semibold" style={{ color: colors.primary }}>
+                              {Platform.OS === "web" ? "Download" : "Share"}
+                            </Text>
+                          </Pressable>
+                          <Pressable onPress={() => confirmDeleteVersion(v)} hitSlop={8} className="px-2 py-1">
+                            <Text className="text-xs" style={{ color: colors.destructive }}>
+                              Delete
+                            </Text>
+                          </Pressable>
+                        </View>
+                        <Markdown style={mdStyles}>{v.text}</Markdown>
+                      </View>
+                    ) : null
+                  )}
                 </View>
               </ScrollView>
             ) : null}
           </View>
         ) : null}
       </View>
+      <UndoSnackbar
+        message={undo?.message ?? null}
+        bottom={BOTTOM_OVERLAY + 8}
+        onUndo={() => undo && void undoDelete(undo.noteIds)}
+        onHide={hideUndo}
+      />
     </View>
   );
 }
@@ -577,61 +952,171 @@ function Card({
   colors,
   active,
   title,
+  description,
+  renaming,
+  onStartRename,
+  onRename,
+  onEditDetails,
   date,
-  isIndexed,
-  isIndexing,
+  index,
+  checked,
   onSelect,
+  onLongPress,
   onIndex,
   onDelete,
+  onEdit,
+  onAssign,
+  onRead,
+  onToggleFavourite,
+  onEditTags,
+  source,
+  tags,
+  favorite,
+  course,
 }: {
   width: number;
   colors: any;
   active: boolean;
   title: string;
+  description: string | null;
+  renaming: boolean;
+  onStartRename?: () => void; // only the selected card renames inline; tapping others selects them
+  onRename: (title: string | null) => void; // null = cancelled
+  onEditDetails: () => void;
   date: string;
-  isIndexed: boolean;
-  isIndexing: boolean;
+  index: IndexState;
+  checked?: boolean; // set while multi-selecting
   onSelect: () => void;
+  onLongPress: () => void;
   onIndex: () => void;
   onDelete: () => void;
+  onEdit?: () => void;
+  onAssign: () => void;
+  onRead: () => void;
+  onToggleFavourite: () => void;
+  onEditTags: () => void;
+  source: Note["source"];
+  tags: string[];
+  favorite: boolean;
+  course?: Course;
 }) {
   return (
     <Pressable
       onPress={onSelect}
+      onLongPress={onLongPress}
       className="rounded-2xl border p-4"
       style={{
         width,
         backgroundColor: colors.card,
-        borderColor: active ? colors.primary : colors.grey4,
+        borderColor: checked || (checked === undefined && active) ? colors.primary : colors.grey4,
       }}
     >
-      <Text className="text-lg font-semibold" style={{ color: colors.foreground }}>
-        {title}
-      </Text>
+      <View className="flex-row items-start gap-2">
+        {checked !== undefined ? (
+          <View
+            className="mt-1 items-center justify-center"
+            style={{
+              width: 20,
+              height: 20,
+              borderRadius: 10,
+              borderWidth: checked ? 0 : 1.5,
+              borderColor: colors.grey,
+              backgroundColor: checked ? colors.primary : "transparent",
+            }}
+          >
+            {checked ? <Check size={14} color="#fff" /> : null}
+          </View>
+        ) : null}
+        {renaming ? (
+          <InlineTitleInput initial={title} colors={colors} onDone={onRename} />
+        ) : (
+          <Text
+            onPress={onStartRename}
+            accessibilityHint={onStartRename ? "Tap to rename" : undefined}
+            className="flex-1 text-lg font-semibold"
+            style={{ color: colors.foreground }}
+          >
+            {title}
+          </Text>
+        )}
+        <Pressable onPress={onEditDetails} hitSlop={8} accessibilityLabel="Edit note details">
+          <Pencil size={18} color={colors.grey} />
+        </Pressable>
+        <Pressable
+          onPress={onToggleFavourite}
+          hitSlop={8}
+          accessibilityLabel={favorite ? "Remove from favourites" : "Add to favourites"}
+        >
+          <Star size={20} color={favorite ? "#F59E0B" : colors.grey} fill={favorite ? "#F59E0B" : "transparent"} />
+        </Pressable>
+      </View>
+      {description ? (
+        <Text numberOfLines={2} className="mt-1 text-sm" style={{ color: colors.foreground, opacity: 0.8 }}>
+          {description}
+        </Text>
+      ) : null}
       <Text className="mt-1 text-xs" style={{ color: colors.grey }}>
-        {date}
+        {SOURCE_LABEL[source]} · {date}
       </Text>
+      <Pressable onPress={onAssign} className="mt-2 flex-row items-center gap-1.5 self-start" hitSlop={6}>
+        <View
+          style={{
+            width: 8,
+            height: 8,
+            borderRadius: 4,
+            backgroundColor: course?.color ?? "transparent",
+            borderWidth: course ? 0 : 1,
+            borderColor: colors.grey,
+          }}
+        />
+        <Text className="text-xs" style={{ color: course ? colors.foreground : colors.grey }}>
+          {course?.name ?? "Add to course"}
+        </Text>
+      </Pressable>
+      <Pressable onPress={onEditTags} className="mt-1 self-start" hitSlop={6}>
+        <Text numberOfLines={1} className="text-xs" style={{ color: tags.length ? colors.primary : colors.grey }}>
+          {tags.length ? tags.map((t) => `#${t}`).join(" ") : "+ Add tags"}
+        </Text>
+      </Pressable>
+
+      {index.status === "indexing" ? (
+        <View className="mt-3 h-1 rounded-full overflow-hidden" style={{ backgroundColor: colors.grey5 }}>
+          <View
+            className="h-1 rounded-full"
+            style={{ width: `${Math.round(index.progress * 100)}%`, backgroundColor: colors.primary }}
+          />
+        </View>
+      ) : null}
+      {index.status === "failed" && index.error ? (
+        <Text numberOfLines={2} className="mt-2 text-xs" style={{ color: colors.destructive }}>
+          {index.error}
+        </Text>
+      ) : null}
 
       <View className="flex-row gap-3 mt-4">
-        {isIndexed ? (
-          <Pressable
-            disabled
-            className="px-3 py-2 rounded-xl"
-            style={{
-              backgroundColor: (colors as any).grey5,
-              opacity: 0.8,
-            }}
-          >
-            <Text style={{ color: colors.foreground, opacity: 0.7 }}>Indexed</Text>
-          </Pressable>
-        ) : isIndexing ? (
+        {index.status === "ready" ? (
+          <View className="px-3 py-2 rounded-xl" style={{ backgroundColor: colors.grey5, opacity: 0.8 }}>
+            <Text style={{ color: colors.foreground, opacity: 0.7 }}>Ready</Text>
+          </View>
+        ) : index.status === "queued" || index.status === "indexing" ? (
           <View
             className="px-3 py-2 rounded-xl flex-row items-center gap-2"
             style={{ borderWidth: 1, borderColor: colors.grey4 }}
           >
             <ActivityIndicator />
-            <Text style={{ color: colors.foreground }}>Indexing…</Text>
+            <Text style={{ color: colors.foreground }}>
+              {index.status === "queued" ? "Queued" : `Indexing ${Math.round(index.progress * 100)}%`}
+            </Text>
           </View>
+        ) : index.status === "failed" ? (
+          <Pressable
+            onPress={onIndex}
+            className="px-3 py-2 rounded-xl"
+            style={{ borderWidth: 1, borderColor: colors.destructive }}
+            accessibilityLabel="Indexing failed, retry"
+          >
+            <Text style={{ color: colors.destructive }}>Failed · Retry</Text>
+          </Pressable>
         ) : (
           <Pressable
             onPress={onIndex}
@@ -642,6 +1127,24 @@ function Card({
           </Pressable>
         )}
 
+        <Pressable
+          onPress={onRead}
+          className="px-3 py-2 rounded-xl"
+          style={{ borderWidth: 1, borderColor: colors.grey4 }}
+        >
+          <Text style={{ color: colors.foreground }}>Read</Text>
+        </Pressable>
+
+        {onEdit ? (
+          <Pressable
+            onPress={onEdit}
+            className="px-3 py-2 rounded-xl"
+            style={{ borderWidth: 1, borderColor: colors.grey4 }}
+          >
+            <Text style={{ color: colors.foreground }}>Edit</Text>
+          </Pressable>
+        ) : null}
+
         <Pressable
           onPress={onDelete}
           className="px-3 py-2 rounded-xl"
@@ -653,3 +1156,186 @@ function Card({
     </Pressable>
   );
 }
+
+function InlineTitleInput({
+  initial,
+  colors,
+  onDone,
+}: {
+  initial: string;
+  colors: any;
+  onDone: (title: string | null) => void;
+}) {
+  const [value, setValue] = useState(initial);
+  // submitting also blurs the input; only report the first of the two
+  const finished = useRef(false);
+  const finish = (title: string | null) => {
+    if (finished.current) return;
+    finished.current = true;
+    onDone(title);
+  };
+  return (
+    <TextInput
+      value={value}
+      onChangeText={setValue}
+      autoFocus
+      selectTextOnFocus
+      maxLength={MAX_TITLE_LENGTH}
+      returnKeyType="done"
+      onSubmitEditing={() => finish(value)}
+      onBlur={() => finish(value)}
+      onKeyPress={(e) => {
+        if (e.nativeEvent.key === "Escape") finish(null);
+      }}
+      className="flex-1 text-lg font-semibold px-2 py-1 rounded-lg border"
+      style={{ color: colors.foreground, borderColor: colors.primary }}
+    />
+  );
+}
+
+function BulkButton({
+  label,
+  onPress,
+  disabled,
+  destructive,
+  colors,
+}: {
+  label: string;
+  onPress: () => void;
+  disabled?: boolean;
+  destructive?: boolean;
+  colors: any;
+}) {
+  return (
+    <Pressable
+      onPress={onPress}
+      disabled={disabled}
+      className="px-3 py-2 rounded-xl"
+      style={{
+        opacity: disabled ? 0.5 : 1,
+        backgroundColor: destructive ? colors.destructive : "transparent",
+        borderWidth: destructive ? 0 : 1,
+        borderColor: colors.grey4,
+      }}
+    >
+      <Text style={{ color: destructive ? "#fff" : colors.foreground }}>{label}</Text>
+    </Pressable>
+  );
+}
+
+function OptionRow<T extends string>({
+  label,
+  options,
+  value,
+  onChange,
+  colors,
+}: {
+  label: string;
+  options: { value: T; label: string }[];
+  value: T;
+  onChange: (v: T) => void;
+  colors: any;
+}) {
+  return (
+    <View className="mt-3">
+      <Text className="text-xs mb-1" style={{ color: colors.grey }}>
+        {label}
+      </Text>
+      <View className="flex-row flex-wrap gap-2">
+        {options.map((o) => {
+          const active = o.value === value;
+          return (
+            <Pressable
+              key={o.value}
+              onPress={() => onChange(o.value)}
+              className="px-3 py-1.5 rounded-full border"
+              style={{
+                borderColor: active ? colors.primary : colors.grey4,
+                backgroundColor: active ? colors.primary : "transparent",
+              }}
+            >
+              <Text className="text-xs font-semibold" style={{ color: active ? "#fff" : colors.foreground }}>
+                {o.label}
+              </Text>
+            </Pressable>
+          );
+        })}
+      </View>
+    </View>
+  );
+}
+
+function VersionChip({
+  version,
+  active,
+  compared,
+  onPress,
+  colors,
+}: {
+  version: SummaryVersion;
+  active: boolean;
+  compared: boolean;
+  onPress: () => void;
+  colors: any;
+}) {
+  return (
+    <Pressable
+      onPress={onPress}
+      className="px-3 py-1.5 rounded-full border"
+      style={{
+        borderColor: active || compared ? colors.primary : colors.grey4,
+        backgroundColor: active ? colors.primary : "transparent",
+      }}
+    >
+      <Text className="text-xs font-semibold" style={{ color: active ? "#fff" : colors.foreground }}>
+        {summaryLabel(version)}
+        {version.createdAt
+          ? ` · ${new Date(version.createdAt).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })}`
+          : ""}
+        {version.stale ? " · outdated" : ""}
+      </Text>
+    </Pressable>
+  );
+}
+
+function PendingList({
+  items,
+  colors,
+  noteTitle,
+}: {
+  items: OutboxItem[];
+  colors: any;
+  noteTitle: (noteId: string) => string;
+}) {
+  return (
+    <View className="mt-3 rounded-2xl border p-3 gap-2" style={{ backgroundColor: colors.card, borderColor: colors.grey4 }}>
+      <Text className="text-sm font-semibold" style={{ color: colors.foreground }}>
+        Waiting for connection ({items.length})
+      </Text>
+      {items.map((item) => (
+        <View key={item.id} className="flex-row items-center justify-between gap-2">
+          <View className="flex-1">
+            <Text numberOfLines={1} style={{ color: colors.foreground }}>
+              {item.kind === "upload"
+                ? `Upload · ${item.asset.name ?? "file"}`
+                : item.kind === "summary"
+                  ? `Summary · ${noteTitle(item.noteId)}`
+                  : "Chat"}
+            </Text>
+            <Text numberOfLines={1} className="text-xs" style={{ color: colors.grey }}>
+              {item.attempts > 0
+                ? `Retry ${item.attempts} failed${item.lastError ? `: ${item.lastError}` : ""}`
+                : "Queued"}
+            </Text>
+          </View>
+          <Pressable onPress={() => void retryNow(item.id)} className="px-2 py-1">
+            <Text style={{ color: colors.primary }}>Retry</Text>
+          </Pressable>
+          <Pressable onPress={() => void removeOutboxItem(item.id)} className="px-2 py-1">
+            <Text style={{ color: colors.destructive }}>Remove</Text>
+          </Pressable>
+        </View>
+      ))}
+    </View>
+  );
+}
@@ -1,42 +1,188 @@
-import { useEffect } from "react";
-import { View, Text, Pressable } from "react-native";
+import { useCallback, useEffect, useState } from "react";
+import {
+  View,
+  Text,
+  TextInput,
+  Pressable,
+  ScrollView,
+  ActivityIndicator,
+  Alert,
+  Image,
+  Switch,
+  Platform,
+} from "react-native";
 import { useRouter } from "expo-router";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+import * as DocumentPicker from "expo-document-picker";
 import Header from "@/components/Header";
-import { useAuth } from "@/providers/AuthProvider";
+import ErrorBanner from "@/components/ErrorBanner";
+import { useAuth, type Session } from "@/providers/AuthProvider";
+import { useAppLock } from "@/providers/AppLockProvider";
+import { IDLE_TIMEOUT_OPTIONS, WrongPinError } from "@/lib/appLock";
+import { errorMessage } from "@/lib/apiClient";
+import { confirmAction } from "@/lib/confirm";
+
+const TAB_BAR_HEIGHT = 54;
 
 export default function ProfileScreen() {
-  const { user, loading, signOut } = useAuth();
+  const { user, loading, sessionExpiresAt, signOut, signOutEverywhere, listSessions, revokeSession } =
+    useAuth();
   const router = useRouter();
+  const insets = useSafeAreaInsets();
+
+  const [sessions, setSessions] = useState<Session[]>([]);
+  const [sessionsLoading, setSessionsLoading] = useState(true);
+  const [sessionsErr, setSessionsErr] = useState<string | null>(null);
+  const [revokingId, setRevokingId] = useState<string | null>(null);
+  const [signingOutAll, setSigningOutAll] = useState(false);
 
   useEffect(() => {
     if (!loading && !user) router.replace("/login");
   }, [loading, user]);
 
+  const loadSessions = useCallback(async () => {
+    try {
+      setSessionsLoading(true);
+      setSessionsErr(null);
+      setSessions(await listSessions());
+    } catch (e) {
+      console.warn("Failed to load sessions", e);
+      setSessionsErr(errorMessage(e, "Could not load sessions."));
+    } finally {
+      setSessionsLoading(false);
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  useEffect(() => {
+    if (!loading && user) void loadSessions();
+  }, [loading, user, loadSessions]);
+
   async function onLogout() {
     await signOut();
     router.replace("/login");
   }
 
+  async function onRevoke(id: string) {
+    try {
+      setRevokingId(id);
+      await revokeSession(id);
+      setSessions((prev) => prev.filter((s) => s.id !== id));
+    } catch (e) {
+      console.error("Revoke session error", e);
+      Alert.alert("Sign out failed", errorMessage(e, "Could not sign out that device."));
+    } finally {
+      setRevokingId(null);
+    }
+  }
+
+  async function logoutEverywhere() {
+    try {
+      setSigningOutAll(true);
+      await signOutEverywhere();
+      router.replace("/login");
+    } catch (e) {
+      console.error("Sign out everywhere error", e);
+      Alert.alert("Sign out failed", errorMessage(e, "Could not sign out other devices."));
+    } finally {
+      setSigningOutAll(false);
+    }
+  }
+
+  function confirmLogoutEverywhere() {
+    confirmAction(
+      "Sign out everywhere?",
+      "This signs you out on every device, including this one.",
+      "Sign out",
+      () => void logoutEverywhere()
+    );
+  }
+
   return (
     <View className="flex-1 bg-light-bg dark:bg-dark-bg">
       <Header />
-      <View className="flex-1 px-6 py-8">
+      <ScrollView
+        className="flex-1"
+        contentContainerStyle={{
+          paddingHorizontal: 24,
+          paddingTop: 32,
+          paddingBottom: insets.bottom + TAB_BAR_HEIGHT + 48,
+        }}
+        showsVerticalScrollIndicator={false}
+      >
         <Text className="text-2xl font-bold text-light-text dark:text-dark-text">Profile</Text>
 
-        <View className="mt-6 rounded-2xl bg-light-surface dark:bg-dark-surface border border-light-border dark:border-dark-border p-4">
-          <Row label="Name" value={user?.name ?? "—"} />
-          <Row label="Email" value={user?.email ?? "—"} />
-          <Row label="Role" value={user?.role ?? "—"} />
-          <Row label="User ID" value={user?.id ?? "—"} last />
+        <AccountCard />
+
+        {/* Password */}
+        <Text className="mt-8 text-xl font-semibold text-light-text dark:text-dark-text">Password</Text>
+        <PasswordCard />
+
+        {/* App lock */}
+        <Text className="mt-8 text-xl font-semibold text-light-text dark:text-dark-text">App lock</Text>
+        <Text className="mt-1 text-light-subtext dark:text-dark-subtext">
+          Require a PIN{Platform.OS === "web" ? "" : " or biometrics"} after the app has been idle.
+        </Text>
+        <AppLockCard />
+
+        {/* Sessions */}
+        <Text className="mt-8 text-xl font-semibold text-light-text dark:text-dark-text">Sessions</Text>
+        <Text className="mt-1 text-light-subtext dark:text-dark-subtext">
+          Devices currently signed in to your account.
+        </Text>
+        {sessionExpiresAt ? (
+          <Text className="mt-1 text-xs text-light-subtext dark:text-dark-subtext">
+            This device renews its sign-in automatically · current token valid until{" "}
+            {new Date(sessionExpiresAt).toLocaleTimeString()}
+          </Text>
+        ) : null}
+
+        <View className="mt-3 rounded-2xl bg-light-surface dark:bg-dark-surface border border-light-border dark:border-dark-border px-4">
+          {sessionsLoading ? (
+            <View className="py-6 items-center">
+              <ActivityIndicator />
+            </View>
+          ) : sessionsErr ? (
+            <View className="py-4">
+              <Text className="text-danger">{sessionsErr}</Text>
+              <Pressable onPress={loadSessions} className="mt-2 self-start">
+                <Text className="text-primary font-semibold">Retry</Text>
+              </Pressable>
+            </View>
+          ) : sessions.length === 0 ? (
+            <Text className="py-4 text-light-subtext dark:text-dark-subtext">No active sessions.</Text>
+          ) : (
+            sessions.map((s, i) => (
+              <SessionRow
+                key={s.id}
+                session={s}
+                last={i === sessions.length - 1}
+                revoking={revokingId === s.id}
+                onRevoke={() => onRevoke(s.id)}
+              />
+            ))
+          )}
         </View>
 
+        <Pressable
+          onPress={confirmLogoutEverywhere}
+          disabled={signingOutAll}
+          className="mt-4 h-12 rounded-2xl border border-danger items-center justify-center"
+        >
+          {signingOutAll ? (
+            <ActivityIndicator />
+          ) : (
+            <Text className="text-danger font-semibold">Sign out everywhere</Text>
+          )}
+        </Pressable>
+
         <Pressable
           onPress={onLogout}
           className="mt-8 h-12 rounded-2xl bg-primary items-center justify-center"
         >
           <Text className="text-white font-semibold">Log out</Text>
         </Pressable>
-      </View>
+      </ScrollView>
     </View>
   );
 }
@@ -51,3 +197,526 @@ function Row({ label, value, last = false }: { label: string; value: string; las
     </View>
   );
 }
+
+function Field({
+  label,
+  value,
+  onChange,
+  error,
+  secure = false,
+  email = false,
+  numeric = false,
+  textContentType,
+}: {
+  label: string;
+  value: string;
+  onChange: (t: string) => void;
+  error?: string | null;
+  secure?: boolean;
+  email?: boolean;
+  numeric?: boolean;
+  textContentType?: "name" | "emailAddress" | "password" | "newPassword";
+}) {
+  return (
+    <View className="py-2">
+      <Text className="text-xs uppercase tracking-wide text-light-subtext dark:text-dark-subtext mb-2">
+        {label}
+      </Text>
+      <TextInput
+        value={value}
+        onChangeText={onChange}
+        secureTextEntry={secure}
+        autoCapitalize={email || secure ? "none" : "words"}
+        keyboardType={email ? "email-address" : numeric ? "number-pad" : "default"}
+        maxLength={numeric ? 6 : undefined}
+        placeholderTextColor="#9CA3AF"
+        className={`px-4 py-3 rounded-2xl bg-light-bg dark:bg-dark-bg text-light-text dark:text-dark-text border ${
+          error ? "border-danger" : "border-light-border dark:border-dark-border"
+        }`}
+        textContentType={textContentType}
+      />
+      {!!error && <Text className="mt-1 text-danger text-xs">{error}</Text>}
+    </View>
+  );
+}
+
+function AccountCard() {
+  const { user, updateProfile } = useAuth();
+
+  const [editing, setEditing] = useState(false);
+  const [name, setName] = useState(user?.name ?? "");
+  const [email, setEmail] = useState(user?.email ?? "");
+  const [saving, setSaving] = useState(false);
+  const [avatarBusy, setAvatarBusy] = useState(false);
+
+  // form + field errors
+  const [formError, setFormError] = useState<any>(null);
+  const [nameErr, setNameErr] = useState<string | null>(null);
+  const [emailErr, setEmailErr] = useState<string | null>(null);
+
+  function startEditing() {
+    setName(user?.name ?? "");
+    setEmail(user?.email ?? "");
+    setFormError(null);
+    setNameErr(null);
+    setEmailErr(null);
+    setEditing(true);
+  }
+
+  async function onSave() {
+    setFormError(null);
+    setNameErr(null);
+    setEmailErr(null);
+    setSaving(true);
+    try {
+      await updateProfile({
+        ...(name.trim() !== (user?.name ?? "") ? { name } : {}),
+        ...(email.trim().toLowerCase() !== user?.email ? { email } : {}),
+      });
+      setEditing(false);
+    } catch (e: any) {
+      const fe = (e?.json ?? e)?.details?.fieldErrors ?? {};
+      setNameErr(fe.name?.[0] ?? null);
+      setEmailErr(fe.email?.[0] ?? null);
+      setFormError(e);
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function pickAvatar() {
+    try {
+      const picked = await DocumentPicker.getDocumentAsync({
+        copyToCacheDirectory: true,
+        type: "image/*",
+        multiple: false,
+      });
+      if (picked.canceled) return;
+      const asset = picked.assets?.[0];
+      if (!asset?.uri) return;
+
+      setAvatarBusy(true);
+      await updateProfile({ avatar: asset });
+    } catch (e) {
+      console.error("Avatar upload error", e);
+      Alert.alert("Upload error", errorMessage(e, "Could not update your photo."));
+    } finally {
+      setAvatarBusy(false);
+    }
+  }
+
+  const initials = (user?.name || user?.email || "?").trim().charAt(0).toUpperCase();
+
+  return (
+    <View className="mt-6 rounded-2xl bg-light-surface dark:bg-dark-surface border border-light-border dark:border-dark-border p-4">
+      {/* Avatar */}
+      <View className="flex-row items-center pb-3 border-b border-light-border dark:border-dark-border">
+        <View className="w-16 h-16 rounded-full overflow-hidden bg-primary/10 items-center justify-center">
+          {avatarBusy ? (
+            <ActivityIndicator />
+          ) : user?.avatarUrl ? (
+            <Image source={{ uri: user.avatarUrl }} style={{ width: 64, height: 64 }} />
+          ) : (
+            <Text className="text-primary text-2xl font-bold">{initials}</Text>
+          )}
+        </View>
+        <Pressable onPress={pickAvatar} disabled={avatarBusy} className="ml-4">
+          <Text className="text-primary font-semibold">Change photo</Text>
+        </Pressable>
+        <View className="flex-1" />
+        {!editing && (
+          <Pressable
+            onPress={startEditing}
+            className="px-3 py-2 rounded-xl border border-light-border dark:border-dark-border"
+          >
+            <Text className="text-light-text dark:text-dark-text text-sm">Edit</Text>
+          </Pressable>
+        )}
+      </View>
+
+      {editing ? (
+        <View className="pt-2">
+          <Field
+            label="Name"
+            value={name}
+            onChange={(t) => {
+              setName(t);
+              if (nameErr) setNameErr(null);
+            }}
+            error={nameErr}
+            textContentType="name"
+          />
+          <Field
+            label="Email"
+            value={email}
+            onChange={(t) => {
+              setEmail(t);
+              if (emailErr) setEmailErr(null);
+            }}
+            error={emailErr}
+            email
+            textContentType="emailAddress"
+          />
+          {email.trim().toLowerCase() !== user?.email ? (
+            <Text className="mt-1 text-xs text-light-subtext dark:text-dark-subtext">
+              You&apos;ll need to verify the new address.
+            </Text>
+          ) : null}
+
+          <ErrorBanner error={formError} />
+
+          <View className="mt-3 flex-row gap-3">
+            <Pressable
+              onPress={onSave}
+              disabled={saving}
+              className="flex-1 h-11 rounded-2xl bg-primary items-center justify-center"
+            >
+              {saving ? <ActivityIndicator /> : <Text className="text-white font-semibold">Save</Text>}
+            </Pressable>
+            <Pressable
+              onPress={() => setEditing(false)}
+              disabled={saving}
+              className="flex-1 h-11 rounded-2xl border border-light-border dark:border-dark-border items-center justify-center"
+            >
+              <Text className="text-light-text dark:text-dark-text">Cancel</Text>
+            </Pressable>
+          </View>
+        </View>
+      ) : (
+        <>
+          <Row label="Name" value={user?.name ?? "—"} />
+          <Row
+            label="Email"
+            value={`${user?.email ?? "—"}${user?.emailVerified === false ? " · unverified" : ""}`}
+          />
+          <Row label="Role" value={user?.role ?? "—"} />
+          <Row label="User ID" value={user?.id ?? "—"} last />
+        </>
+      )}
+    </View>
+  );
+}
+
+function PasswordCard() {
+  const { changePassword } = useAuth();
+
+  const [current, setCurrent] = useState("");
+  const [next, setNext] = useState("");
+  const [confirm, setConfirm] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [done, setDone] = useState(false);
+
+  // form + field errors
+  const [formError, setFormError] = useState<any>(null);
+  const [currentErr, setCurrentErr] = useState<string | null>(null);
+  const [nextErr, setNextErr] = useState<string | null>(null);
+  const [confirmErr, setConfirmErr] = useState<string | null>(null);
+
+  async function onSubmit() {
+    setFormError(null);
+    setCurrentErr(null);
+    setNextErr(null);
+    setConfirmErr(null);
+    setDone(false);
+
+    if (next !== confirm) {
+      setConfirmErr("Passwords don't match.");
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await changePassword({ currentPassword: current, newPassword: next });
+      setCurrent("");
+      setNext("");
+      setConfirm("");
+      setDone(true);
+    } catch (e: any) {
+      if (e?.status === 401 || e?.status === 403) {
+        // not a sign-in failure, so keep the generic "Invalid email or password" banner out of it
+        setCurrentErr("Current password is incorrect.");
+        return;
+      }
+      const fe = (e?.json ?? e)?.details?.fieldErrors ?? {};
+      setCurrentErr(fe.currentPassword?.[0] ?? null);
+      setNextErr(fe.newPassword?.[0] ?? null);
+      setFormError(e);
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  const canSubmit = !!current && !!next && !!confirm && !saving;
+
+  return (
+    <View className="mt-3 rounded-2xl bg-light-surface dark:bg-dark-surface border border-light-border dark:border-dark-border p-4">
+      <Field
+        label="Current password"
+        value={current}
+        onChange={(t) => {
+          setCurrent(t);
+          if (currentErr) setCurrentErr(null);
+        }}
+        error={currentErr}
+        secure
+        textContentType="password"
+      />
+      <Field
+        label="New password"
+        value={next}
+        onChange={(t) => {
+          setNext(t);
+          if (nextErr) setNextErr(null);
+        }}
+        error={nextErr}
+        secure
+        textContentType="newPassword"
+      />
+      <Field
+        label="Confirm new password"
+        value={confirm}
+        onChange={(t) => {
+          setConfirm(t);
+          if (confirmErr) setConfirmErr(null);
+        }}
+        error={confirmErr}
+        secure
+        textContentType="newPassword"
+      />
+
+      <ErrorBanner error={formError} fallback="Could not change your password." />
+      {done && (
+        <Text className="mt-2 text-xs text-light-subtext dark:text-dark-subtext">Password updated.</Text>
+      )}
+
+      <Pressable
+        onPress={onSubmit}
+        disabled={!canSubmit}
+        className={`mt-3 h-11 rounded-2xl bg-primary items-center justify-center ${canSubmit ? "" : "opacity-60"}`}
+      >
+        {saving ? <ActivityIndicator /> : <Text className="text-white font-semibold">Change password</Text>}
+      </Pressable>
+    </View>
+  );
+}
+
+function AppLockCard() {
+  const { settings, canUseBiometrics, enableLock, disableLock, changePin, updateSettings } = useAppLock();
+
+  // PIN form is shown when turning the lock on or off, or changing the PIN.
+  // Turning it off and changing the PIN both ask for the current PIN first.
+  const [pinMode, setPinMode] = useState<"enable" | "change" | "disable" | null>(null);
+  const [current, setCurrent] = useState("");
+  const [pin, setPinValue] = useState("");
+  const [confirm, setConfirm] = useState("");
+  const [currentErr, setCurrentErr] = useState<string | null>(null);
+  const [pinErr, setPinErr] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  function closePinForm() {
+    setPinMode(null);
+    setCurrent("");
+    setPinValue("");
+    setConfirm("");
+    setCurrentErr(null);
+    setPinErr(null);
+  }
+
+  async function onSavePin() {
+    if (pinMode !== "enable" && !current) {
+      setCurrentErr("Enter your current PIN.");
+      return;
+    }
+    if (pinMode !== "disable") {
+      if (!/^\d{4,6}$/.test(pin)) {
+        setPinErr("Use 4 to 6 digits.");
+        return;
+      }
+      if (pin !== confirm) {
+        setPinErr("PINs don't match.");
+        return;
+      }
+    }
+    setSaving(true);
+    try {
+      if (pinMode === "enable") await enableLock(pin);
+      else if (pinMode === "change") await changePin(current, pin);
+      else await disableLock(current);
+      closePinForm();
+    } catch (e) {
+      if (e instanceof WrongPinError) {
+        setCurrent("");
+        setCurrentErr(e.message);
+        return;
+      }
+      console.error("App lock PIN error", e);
+      setPinErr(pinMode === "disable" ? "Could not turn off the app lock." : "Could not save your PIN.");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  function onToggle(on: boolean) {
+    closePinForm();
+    setPinMode(on ? "enable" : "disable");
+  }
+
+  return (
+    <View className="mt-3 rounded-2xl bg-light-surface dark:bg-dark-surface border border-light-border dark:border-dark-border px-4">
+      <View className="py-3 flex-row items-center border-b border-light-border dark:border-dark-border">
+        <Text className="flex-1 text-light-text dark:text-dark-text">Lock app</Text>
+        <Switch
+          value={(settings.enabled && pinMode !== "disable") || pinMode === "enable"}
+          onValueChange={onToggle}
+        />
+      </View>
+
+      {pinMode ? (
+        <View className="py-3 border-b border-light-border dark:border-dark-border">
+          {pinMode !== "enable" ? (
+            <Field
+              label="Current PIN"
+              value={current}
+              onChange={(t) => {
+                setCurrent(t.replace(/\D/g, ""));
+                if (currentErr) setCurrentErr(null);
+              }}
+              error={currentErr}
+              secure
+              numeric
+            />
+          ) : null}
+          {pinMode !== "disable" ? (
+            <>
+              <Field
+                label={pinMode === "enable" ? "Choose a PIN" : "New PIN"}
+                value={pin}
+                onChange={(t) => {
+                  setPinValue(t.replace(/\D/g, ""));
+                  if (pinErr) setPinErr(null);
+                }}
+                secure
+                numeric
+              />
+              <Field
+                label="Confirm PIN"
+                value={confirm}
+                onChange={(t) => {
+                  setConfirm(t.replace(/\D/g, ""));
+                  if (pinErr) setPinErr(null);
+                }}
+                error={pinErr}
+                secure
+                numeric
+              />
+            </>
+          ) : pinErr ? (
+            <Text className="mt-1 text-danger text-xs">{pinErr}</Text>
+          ) : null}
+          <View className="mt-2 flex-row gap-3">
+            <Pressable
+              onPress={onSavePin}
+              disabled={saving}
+              className="flex-1 h-11 rounded-2xl bg-primary items-center justify-center"
+            >
+              {saving ? (
+                <ActivityIndicator />
+              ) : (
+                <Text className="text-white font-semibold">
+                  {pinMode === "disable" ? "Turn off lock" : "Save PIN"}
+                </Text>
+              )}
+            </Pressable>
+            <Pressable
+              onPress={closePinForm}
+              disabled={saving}
+              className="flex-1 h-11 rounded-2xl border border-light-border dark:border-dark-border items-center justify-center"
+            >
+              <Text className="text-light-text dark:text-dark-text">Cancel</Text>
+            </Pressable>
+          </View>
+        </View>
+      ) : null}
+
+      {settings.enabled ? (
+        <>
+          {canUseBiometrics ? (
+            <View className="py-3 flex-row items-center border-b border-light-border dark:border-dark-border">
+              <Text className="flex-1 text-light-text dark:text-dark-text">Unlock with biometrics</Text>
+              <Switch
+                value={settings.useBiometrics}
+                onValueChange={(v) => void updateSettings({ useBiometrics: v })}
+              />
+            </View>
+          ) : null}
+
+          <View className="py-3 border-b border-light-border dark:border-dark-border">
+            <Text className="text-xs uppercase tracking-wide text-light-subtext dark:text-dark-subtext">
+              Lock after
+            </Text>
+            <View className="mt-2 flex-row flex-wrap gap-2">
+              {IDLE_TIMEOUT_OPTIONS.map((o) => {
+                const active = settings.idleTimeoutMs === o.ms;
+                return (
+                  <Pressable
+                    key={o.ms}
+                    onPress={() => void updateSettings({ idleTimeoutMs: o.ms })}
+                    className={`px-3 py-2 rounded-xl border ${
+                      active ? "bg-primary border-primary" : "border-light-border dark:border-dark-border"
+                    }`}
+                  >
+                    <Text className={active ? "text-white text-sm" : "text-light-text dark:text-dark-text text-sm"}>
+                      {o.label}
+                    </Text>
+                  </Pressable>
+                );
+              })}
+            </View>
+          </View>
+
+          {!pinMode ? (
+            <Pressable onPress={() => setPinMode("change")} className="py-3">
+              <Text className="text-primary font-semibold">Change PIN</Text>
+            </Pressable>
+          ) : null}
+        </>
+      ) : null}
+    </View>
+  );
+}
+
+function SessionRow({
+  session,
+  last,
+  revoking,
+  onRevoke,
+}: {
+  session: Session;
+  last: boolean;
+  revoking: boolean;
+  onRevoke: () => void;
+}) {
+  const seen = session.lastUsedAt ?? session.createdAt;
+  return (
+    <View
+      className={`py-3 flex-row items-center ${last ? "" : "border-b border-light-border dark:border-dark-border"}`}
+    >
+      <View className="flex-1 pr-3">
+        <Text className="text-light-text dark:text-dark-text" numberOfLines={1}>
+          {session.device || "Unknown device"}
+          {session.current ? " · This device" : ""}
+        </Text>
+        <Text className="mt-1 text-xs text-light-subtext dark:text-dark-subtext">
+          {session.ip ? `${session.ip} · ` : ""}Last active {new Date(seen).toLocaleString()}
+        </Text>
+      </View>
+      {session.current ? null : revoking ? (
+        <ActivityIndicator />
+      ) : (
+        <Pressable onPress={onRevoke} className="px-3 py-2 rounded-xl border border-light-border dark:border-dark-border">
+          <Text className="text-light-text dark:text-dark-text text-sm">Sign out</Text>
+        </Pressable>
+      )}
+    </View>
+  );
+}
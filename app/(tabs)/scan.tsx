@@ -0,0 +1,442 @@
+import React, { useCallback, useEffect, useRef, useState } from "react";
+import {
+  View,
+  Text,
+  TextInput,
+  Pressable,
+  ScrollView,
+  Image,
+  ActivityIndicator,
+  KeyboardAvoidingView,
+  Platform,
+} from "react-native";
+import { useLocalSearchParams, useRouter } from "expo-router";
+import { useFocusEffect } from "@react-navigation/native";
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+import { ArrowDown, ArrowUp, Crop, X } from "lucide-react-native";
+import Header from "@/components/Header";
+import ErrorBanner from "@/components/ErrorBanner";
+import VerifyEmailNotice from "@/components/VerifyEmailNotice";
+import CropPageModal from "@/components/CropPageModal";
+import { useAuth } from "@/providers/AuthProvider";
+import { useThemeMode } from "@/theme/ThemeProvider";
+import { emit } from "@/lib/eventBus";
+import * as api from "@/lib/apiClient";
+import { confirmAction } from "@/lib/confirm";
+import { runIndexJob } from "@/lib/indexJobs";
+import {
+  MAX_SCAN_PAGES,
+  editPage,
+  pagesToAssets,
+  pickPhotos,
+  scanProblem,
+  takePhoto,
+  type CropInsets,
+  type ScanPage,
+} from "@/lib/scanPages";
+
+const LAST_INDEXED_KEY = "last-indexed-note-id";
+
+const TAB_HEIGHT = 54;
+const TAB_MARGIN_BOTTOM = 36;
+
+type Phase = "idle" | "uploading" | "reading" | "indexing";
+
+const PHASE_LABEL: Record<Exclude<Phase, "idle">, string> = {
+  uploading: "Uploading pages",
+  reading: "Reading your handwriting",
+  indexing: "Indexing for the tutor",
+};
+
+/**
+ * Turn photos of paper notes into one note (?courseId=... files it under a
+ * course). Pages are uploaded together in the order shown, the server OCRs
+ * them into a single UPLOAD note, and it's indexed like any other upload.
+ */
+export default function ScanScreen() {
+  const { user, loading, needsVerification } = useAuth();
+  const { colors } = useThemeMode();
+  const router = useRouter();
+  const insets = useSafeAreaInsets();
+  const { courseId } = useLocalSearchParams<{ courseId?: string }>();
+
+  const [pages, setPages] = useState<ScanPage[]>([]);
+  const [title, setTitle] = useState("");
+  const [cropping, setCropping] = useState<ScanPage | null>(null);
+  const [adding, setAdding] = useState(false);
+  const [phase, setPhase] = useState<Phase>("idle");
+  const [progress, setProgress] = useState(0);
+  const [formError, setFormError] = useState<any>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  const focusedRef = useRef(false);
+
+  const busy = phase !== "idle";
+  const problem = pages.length ? scanProblem(pages) : null;
+
+  // after an upload or Cancel; just switching tabs keeps the pages (and a running upload)
+  const reset = useCallback(() => {
+    setPages([]);
+    setTitle("");
+    setCropping(null);
+    setPhase("idle");
+    setProgress(0);
+    setFormError(null);
+  }, []);
+
+  useFocusEffect(
+    useCallback(() => {
+      focusedRef.current = true;
+      return () => {
+        focusedRef.current = false;
+      };
+    }, [])
+  );
+
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  // ---------- pages ----------
+  async function addFromCamera() {
+    setFormError(null);
+    setAdding(true);
+    try {
+      const page = await takePhoto();
+      if (page) setPages((prev) => [...prev, page]);
+    } catch (e) {
+      console.error("Camera error", e);
+      setFormError(e);
+    } finally {
+      setAdding(false);
+    }
+  }
+
+  async function addFromLibrary() {
+    setFormError(null);
+    setAdding(true);
+    try {
+      const picked = await pickPhotos(MAX_SCAN_PAGES - pages.length);
+      if (picked.length) setPages((prev) => [...prev, ...picked]);
+    } catch (e) {
+      console.error("Photo picker error", e);
+      setFormError(e);
+    } finally {
+      setAdding(false);
+    }
+  }
+
+  function move(index: number, by: -1 | 1) {
+    setPages((prev) => {
+      const to = index + by;
+      if (to < 0 || to >= prev.length) return prev;
+      const next = [...prev];
+      [next[index], next[to]] = [next[to], next[index]];
+      return next;
+    });
+  }
+
+  function remove(id: string) {
+    setPages((prev) => prev.filter((p) => p.id !== id));
+  }
+
+  async function applyCrop(crop: CropInsets, quarterTurns: number) {
+    if (!cropping) return;
+    try {
+      const edited = await editPage(cropping, crop, quarterTurns);
+      setPages((prev) => prev.map((p) => (p.id === cropping.id ? edited : p)));
+      setCropping(null);
+    } catch (e) {
+      console.error("Crop error", e);
+      setCropping(null);
+      setFormError({ error: "Couldn't crop that page. Try again, or upload it as it is." });
+    }
+  }
+
+  // ---------- upload ----------
+  async function onUpload() {
+    setFormError(null);
+    const why = scanProblem(pages);
+    if (why) return setFormError({ error: why });
+
+    const ctrl = new AbortController();
+    abortRef.current = ctrl;
+    setPhase("uploading");
+    setProgress(0);
+    try {
+      const json = await api.uploadScan(pagesToAssets(pages), {
+        title,
+        courseId: courseId ?? null,
+        signal: ctrl.signal,
+        onProgress: (f) => {
+          setProgress(f);
+          // the bytes are there; the server is OCRing before it answers
+          if (f >= 1) setPhase("reading");
+        },
+      });
+      const id = json?.note?.id;
+      if (!id) throw new Error("The server didn't return the new note.");
+      emit("notes:changed", { noteId: id });
+
+      setPhase("indexing");
+      try {
+        await runIndexJob(id);
+        await AsyncStorage.setItem(LAST_INDEXED_KEY, id).catch(() => {});
+      } catch (e) {
+        // the note is saved; the Notes tab shows the failure and offers a retry
+        console.error("Auto-indexing error", e);
+      }
+      // cancelled while it indexed: Cancel already reset and left
+      if (ctrl.signal.aborted) return;
+
+      reset();
+      // finished while the user was on another tab; don't pull them back
+      if (focusedRef.current) router.replace({ pathname: "/(tabs)/notes", params: { noteId: id } });
+    } catch (e: any) {
+      if (e?.name === "AbortError") return;
+      console.error("Scan upload error", e);
+      const fe = (e?.json ?? e)?.details?.fieldErrors ?? {};
+      setFormError(fe.pages?.[0] ? { error: fe.pages[0] } : e);
+      setPhase("idle");
+    } finally {
+      abortRef.current = null;
+    }
+  }
+
+  function onCancel() {
+    const leave = () => {
+      abortRef.current?.abort();
+      reset();
+      router.replace("/(tabs)/notes");
+    };
+    if (!pages.length) return leave();
+    if (phase === "indexing") return leave(); // the note exists already; indexing carries on
+    confirmAction(
+      busy ? "Stop uploading?" : "Discard pages?",
+      busy ? "The scan won't be saved." : "The pages you've added will be lost.",
+      busy ? "Stop" : "Discard",
+      leave
+    );
+  }
+
+  if (loading || !user) {
+    return (
+      <View className="flex-1 items-center justify-center bg-light-bg dark:bg-dark-bg">
+        <ActivityIndicator />
+      </View>
+    );
+  }
+
+  const full = pages.length >= MAX_SCAN_PAGES;
+  const canUpload = !!pages.length && !problem && !busy && !needsVerification;
+
+  return (
+    <KeyboardAvoidingView
+      behavior={Platform.OS === "ios" ? "padding" : undefined}
+      className="flex-1 bg-light-bg dark:bg-dark-bg"
+    >
+      <Header />
+      <View
+        className="flex-1 px-6 py-6"
+        style={{ paddingBottom: insets.bottom + TAB_HEIGHT + TAB_MARGIN_BOTTOM + 8 }}
+      >
+        {/* Top row */}
+        <View className="flex-row items-center justify-between">
+          <Text className="text-2xl font-bold text-light-text dark:text-dark-text">Scan pages</Text>
+          <View className="flex-row gap-2">
+            <Pressable
+              onPress={onCancel}
+              className="px-4 py-2 rounded-2xl border border-light-border dark:border-dark-border"
+            >
+              <Text className="text-light-text dark:text-dark-text">Cancel</Text>
+            </Pressable>
+            <Pressable
+              onPress={onUpload}
+              disabled={!canUpload}
+              className={`px-4 py-2 rounded-2xl items-center justify-center ${
+                canUpload ? "bg-primary" : "bg-primary/60"
+              }`}
+            >
+              {busy ? (
+                <ActivityIndicator color="#fff" />
+              ) : (
+                <Text className="text-white font-semibold">
+                  Upload{pages.length > 1 ? ` ${pages.length} pages` : ""}
+                </Text>
+              )}
+            </Pressable>
+          </View>
+        </View>
+
+        <VerifyEmailNotice feature="uploads" />
+        <ErrorBanner error={formError} fallback="Couldn't upload the scan." />
+        {!!problem && <Text className="mt-3 text-danger text-xs">{problem}</Text>}
+
+        {busy ? (
+          <View
+            className="mt-4 rounded-2xl border p-4"
+            style={{ backgroundColor: colors.card, borderColor: colors.grey4 }}
+          >
+            <Text style={{ color: colors.foreground }}>
+              {PHASE_LABEL[phase]}
+              {phase === "uploading" ? ` · ${Math.round(progress * 100)}%` : "…"}
+            </Text>
+            <View className="mt-2 h-1.5 rounded-full overflow-hidden" style={{ backgroundColor: colors.grey5 }}>
+              <View
+                className="h-full rounded-full"
+                style={{
+                  width: `${phase === "uploading" ? Math.round(progress * 100) : 100}%`,
+                  backgroundColor: colors.primary,
+                  opacity: phase === "uploading" ? 1 : 0.5,
+                }}
+              />
+            </View>
+          </View>
+        ) : null}
+
+        {/* Title */}
+        <TextInput
+          value={title}
+          onChangeText={setTitle}
+          editable={!busy}
+          placeholder="Title (optional)"
+          placeholderTextColor="#9CA3AF"
+          className="mt-4 px-4 py-3 rounded-2xl text-lg font-semibold bg-light-surface dark:bg-dark-surface text-light-text dark:text-dark-text border border-light-border dark:border-dark-border"
+        />
+
+        <View className="mt-4 flex-row gap-2">
+          <Pressable
+            onPress={addFromCamera}
+            disabled={busy || adding || full || Platform.OS === "web"}
+            className={`px-4 py-2 rounded-2xl border border-light-border dark:border-dark-border ${
+              busy || adding || full || Platform.OS === "web" ? "opacity-60" : ""
+            }`}
+          >
+            <Text className="text-light-text dark:text-dark-text font-semibold">Take photo</Text>
+          </Pressable>
+          <Pressable
+            onPress={addFromLibrary}
+            disabled={busy || adding || full}
+            className={`px-4 py-2 rounded-2xl border border-light-border dark:border-dark-border ${
+              busy || adding || full ? "opacity-60" : ""
+            }`}
+          >
+            <Text className="text-light-text dark:text-dark-text font-semibold">Choose photos</Text>
+          </Pressable>
+          {adding ? <ActivityIndicator /> : null}
+          <Text className="ml-auto self-center text-xs" style={{ color: colors.grey }}>
+            {pages.length}/{MAX_SCAN_PAGES} pages
+          </Text>
+        </View>
+
+        <ScrollView className="mt-3 flex-1" contentContainerStyle={{ gap: 10, paddingBottom: 16 }}>
+          {pages.length ? (
+            pages.map((page, i) => (
+              <PageRow
+                key={page.id}
+                page={page}
+                index={i}
+                count={pages.length}
+                colors={colors}
+                disabled={busy}
+                onUp={() => move(i, -1)}
+                onDown={() => move(i, 1)}
+                onCrop={() => setCropping(page)}
+                onRemove={() => remove(page.id)}
+              />
+            ))
+          ) : (
+            <Text className="mt-6 text-center" style={{ color: colors.grey }}>
+              Photograph each page of your paper notes, or choose photos you&apos;ve already taken. They&apos;re
+              combined into one note in the order shown here.
+            </Text>
+          )}
+        </ScrollView>
+      </View>
+
+      <CropPageModal page={cropping} onClose={() => setCropping(null)} onApply={applyCrop} />
+    </KeyboardAvoidingView>
+  );
+}
+
+/* ------------------------------ UI helpers ------------------------------- */
+
+function PageRow({
+  page,
+  index,
+  count,
+  colors,
+  disabled,
+  onUp,
+  onDown,
+  onCrop,
+  onRemove,
+}: {
+  page: ScanPage;
+  index: number;
+  count: number;
+  colors: any;
+  disabled: boolean;
+  onUp: () => void;
+  onDown: () => void;
+  onCrop: () => void;
+  onRemove: () => void;
+}) {
+  return (
+    <View
+      className="rounded-2xl border p-3 flex-row items-center gap-3"
+      style={{ backgroundColor: colors.card, borderColor: colors.grey4, opacity: disabled ? 0.6 : 1 }}
+    >
+      <Image
+        source={{ uri: page.uri }}
+        resizeMode="cover"
+        className="rounded-lg"
+        style={{ width: 56, height: 72, backgroundColor: colors.grey5 }}
+      />
+      <View className="flex-1">
+        <Text className="font-semibold" style={{ color: colors.foreground }}>
+          Page {index + 1}
+        </Text>
+        <Text className="text-xs" style={{ color: colors.grey }}>
+          {page.width} × {page.height}
+        </Text>
+      </View>
+      <IconButton label="Move up" colors={colors} disabled={disabled || index === 0} onPress={onUp}>
+        <ArrowUp size={16} color={colors.foreground} />
+      </IconButton>
+      <IconButton label="Move down" colors={colors} disabled={disabled || index === count - 1} onPress={onDown}>
+        <ArrowDown size={16} color={colors.foreground} />
+      </IconButton>
+      <IconButton label="Crop page" colors={colors} disabled={disabled} onPress={onCrop}>
+        <Crop size={16} color={colors.foreground} />
+      </IconButton>
+      <IconButton label="Remove page" colors={colors} disabled={disabled} onPress={onRemove}>
+        <X size={16} color={colors.destructive} />
+      </IconButton>
+    </View>
+  );
+}
+
+function IconButton({
+  label,
+  colors,
+  disabled,
+  onPress,
+  children,
+}: {
+  label: string;
+  colors: any;
+  disabled: boolean;
+  onPress: () => void;
+  children: React.ReactNode;
+}) {
+  return (
+    <Pressable
+      onPress={onPress}
+      disabled={disabled}
+      accessibilityLabel={label}
+      className="h-9 w-9 rounded-xl items-center justify-center border"
+      style={{ borderColor: colors.grey4, opacity: disabled ? 0.4 : 1 }}
+    >
+      {children}
+    </Pressable>
+  );
+}
@@ -0,0 +1,270 @@
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import { ActivityIndicator, FlatList, Pressable, Text, TextInput, View, type TextStyle } from "react-native";
+import { useLocalSearchParams, useRouter } from "expo-router";
+import { useFocusEffect } from "@react-navigation/native";
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+import { Search as SearchIcon, X } from "lucide-react-native";
+import Header from "@/components/Header";
+import { useAuth } from "@/providers/AuthProvider";
+import { useThemeMode } from "@/theme/ThemeProvider";
+import { on } from "@/lib/eventBus";
+import * as api from "@/lib/apiClient";
+import { errorMessage, type Note } from "@/lib/apiClient";
+import { searchNotes, type Range, type SearchHit } from "@/lib/search";
+
+const TAB_BAR_HEIGHT = 54;
+const LAST_INDEXED_KEY = "last-indexed-note-id";
+const DEBOUNCE_MS = 200;
+const SOURCE_LABEL: Record<Note["source"], string> = { UPLOAD: "Upload", MANUAL: "Written", LINK: "Link" };
+
+export default function SearchScreen() {
+  const insets = useSafeAreaInsets();
+  const router = useRouter();
+  const { user, loading } = useAuth();
+  const { colors } = useThemeMode();
+  const params = useLocalSearchParams<{ q?: string }>();
+
+  const [notes, setNotes] = useState<Note[]>([]);
+  const [notesLoading, setNotesLoading] = useState(true);
+  const [err, setErr] = useState<string | null>(null);
+  const [query, setQuery] = useState(params.q ?? "");
+  const [debounced, setDebounced] = useState(query);
+  const inputRef = useRef<TextInput>(null);
+
+  const loadNotes = React.useCallback(async () => {
+    try {
+      setErr(null);
+      setNotes(await api.listNotes());
+    } catch (e: any) {
+      console.error("Search load error", e);
+      setErr(errorMessage(e, "Could not load your notes."));
+    } finally {
+      setNotesLoading(false);
+    }
+  }, []);
+
+  useFocusEffect(
+    React.useCallback(() => {
+      if (loading || !user) return;
+      void loadNotes();
+      const off = on("notes:changed", () => void loadNotes());
+      return () => off();
+    }, [loading, user, loadNotes])
+  );
+
+  useEffect(() => {
+    const t = setTimeout(() => setDebounced(query), DEBOUNCE_MS);
+    return () => clearTimeout(t);
+  }, [query]);
+
+  const hits = useMemo(() => searchNotes(notes, debounced), [notes, debounced]);
+
+  async function open(
+    pathname: "/(tabs)/notes" | "/(tabs)/note-reader" | "/(tabs)/ai-tutor" | "/(tabs)/study-tools",
+    noteId: string
+  ) {
+    // the tutor and tools also fall back to this when they're opened without params
+    await AsyncStorage.setItem(LAST_INDEXED_KEY, noteId).catch(() => {});
+    router.push({ pathname, params: { noteId } });
+  }
+
+  if (loading || !user) {
+    return (
+      <View className="flex-1 items-center justify-center bg-light-bg dark:bg-dark-bg">
+        <ActivityIndicator />
+      </View>
+    );
+  }
+
+  return (
+    <View className="flex-1 bg-light-bg dark:bg-dark-bg">
+      <Header />
+      <View className="px-6 pt-6">
+        <Text className="text-2xl font-bold text-light-text dark:text-dark-text">Search</Text>
+        <View
+          className="mt-3 flex-row items-center gap-2 px-3 rounded-2xl border border-light-border dark:border-dark-border bg-light-surface dark:bg-dark-surface"
+        >
+          <SearchIcon size={18} color={colors.grey} />
+          <TextInput
+            ref={inputRef}
+            value={query}
+            onChangeText={setQuery}
+            autoFocus
+            autoCapitalize="none"
+            autoCorrect={false}
+            returnKeyType="search"
+            placeholder="Search titles and note text"
+            placeholderTextColor="#9CA3AF"
+            className="flex-1 py-3 text-light-text dark:text-dark-text"
+          />
+          {query ? (
+            <Pressable
+              onPress={() => {
+                setQuery("");
+                inputRef.current?.focus();
+              }}
+              hitSlop={8}
+              accessibilityLabel="Clear search"
+            >
+              <X size={18} color={colors.grey} />
+            </Pressable>
+          ) : null}
+        </View>
+        {debounced.trim() && !notesLoading ? (
+          <Text className="mt-2 text-xs" style={{ color: colors.grey }}>
+            {hits.length} result{hits.length === 1 ? "" : "s"} in {notes.length} note{notes.length === 1 ? "" : "s"}
+          </Text>
+        ) : null}
+      </View>
+
+      {notesLoading ? (
+        <View className="items-center justify-center py-10">
+          <ActivityIndicator />
+        </View>
+      ) : err ? (
+        <Text className="px-6 mt-4" style={{ color: colors.destructive }}>
+          {err}
+        </Text>
+      ) : (
+        <FlatList
+          data={hits}
+          keyExtractor={(h) => h.note.id}
+          keyboardShouldPersistTaps="handled"
+          contentContainerStyle={{
+            paddingHorizontal: 24,
+            paddingTop: 12,
+            paddingBottom: insets.bottom + TAB_BAR_HEIGHT + 48,
+            gap: 12,
+          }}
+          ListEmptyComponent={
+            <Text className="mt-6 text-center" style={{ color: colors.grey }}>
+              {!debounced.trim()
+                ? "Type to search across all your notes."
+                : `No notes match “${debounced.trim()}”.`}
+            </Text>
+          }
+          renderItem={({ item }) => (
+            <ResultCard
+              hit={item}
+              colors={colors}
+              onOpen={() => open("/(tabs)/notes", item.note.id)}
+              onRead={() => open("/(tabs)/note-reader", item.note.id)}
+              onChat={() => open("/(tabs)/ai-tutor", item.note.id)}
+              onStudy={() => open("/(tabs)/study-tools", item.note.id)}
+            />
+          )}
+        />
+      )}
+    </View>
+  );
+}
+
+/* ------------------------------ UI helpers ------------------------------- */
+
+function Highlighted({
+  text,
+  ranges,
+  style,
+  markStyle,
+  numberOfLines,
+}: {
+  text: string;
+  ranges: Range[];
+  style: TextStyle;
+  markStyle: TextStyle;
+  numberOfLines?: number;
+}) {
+  const parts: React.ReactNode[] = [];
+  let at = 0;
+  ranges.forEach(([s, e], i) => {
+    if (s > at) parts.push(text.slice(at, s));
+    parts.push(
+      <Text key={i} style={markStyle}>
+        {text.slice(s, e)}
+      </Text>
+    );
+    at = e;
+  });
+  if (at < text.length) parts.push(text.slice(at));
+  return (
+    <Text style={style} numberOfLines={numberOfLines}>
+      {parts}
+    </Text>
+  );
+}
+
+function ResultCard({
+  hit,
+  colors,
+  onOpen,
+  onRead,
+  onChat,
+  onStudy,
+}: {
+  hit: SearchHit;
+  colors: any;
+  onOpen: () => void;
+  onRead: () => void;
+  onChat: () => void;
+  onStudy: () => void;
+}) {
+  const mark: TextStyle = { backgroundColor: colors.grey5, color: colors.primary, fontWeight: "700" };
+  return (
+    <Pressable
+      onPress={onOpen}
+      className="rounded-2xl border p-4"
+      style={{ backgroundColor: colors.card, borderColor: colors.grey4 }}
+    >
+      <Highlighted
+        text={hit.note.title || "(untitled)"}
+        ranges={hit.titleRanges}
+        style={{ color: colors.foreground, fontSize: 16, fontWeight: "600" }}
+        markStyle={mark}
+        numberOfLines={2}
+      />
+      <Text className="mt-1 text-xs" style={{ color: colors.grey }}>
+        {SOURCE_LABEL[hit.note.source]} · {new Date(hit.note.createdAt).toLocaleDateString()}
+      </Text>
+      {hit.snippet ? (
+        <Highlighted
+          text={hit.snippet}
+          ranges={hit.snippetRanges}
+          style={{ color: colors.foreground, marginTop: 8, fontSize: 13, lineHeight: 19 }}
+          markStyle={mark}
+          numberOfLines={4}
+        />
+      ) : null}
+      <View className="mt-3 flex-row flex-wrap gap-2">
+        <SmallButton label="Open in Notes" onPress={onOpen} colors={colors} primary />
+        <SmallButton label="Read" onPress={onRead} colors={colors} />
+        <SmallButton label="Ask AI Tutor" onPress={onChat} colors={colors} />
+        <SmallButton label="Study tools" onPress={onStudy} colors={colors} />
+      </View>
+    </Pressable>
+  );
+}
+
+function SmallButton({
+  label,
+  onPress,
+  colors,
+  primary = false,
+}: {
+  label: string;
+  onPress: () => void;
+  colors: any;
+  primary?: boolean;
+}) {
+  return (
+    <Pressable
+      onPress={onPress}
+      className="px-3 py-2 rounded-xl"
+      style={primary ? { backgroundColor: colors.primary } : { borderWidth: 1, borderColor: colors.grey4 }}
+    >
+      <Text className="text-xs font-semibold" style={{ color: primary ? "#fff" : colors.foreground }}>
+        {label}
+      </Text>
+    </Pressable>
+  );
+}
@@ -9,53 +9,69 @@ import {
   FlatList,
 } from "react-native";
 import Header from "@/components/Header";
+import VerifyEmailNotice from "@/components/VerifyEmailNotice";
+import CourseFilterChips from "@/components/CourseFilterChips";
+import NoteFilterBar, { DEFAULT_NOTE_FILTER, type NoteFilterValue } from "@/components/NoteFilterBar";
 import { useAuth } from "@/providers/AuthProvider";
-import { getApiBase } from "@/constants/api";
-import { useRouter } from "expo-router";
+import { useLocalSearchParams, useRouter } from "expo-router";
 import { Layers, HelpCircle } from "lucide-react-native";
 import { useSafeAreaInsets } from "react-native-safe-area-context";
 import { useFocusEffect } from "@react-navigation/native";
 import { emit, on } from "@/lib/eventBus";
 import AsyncStorage from "@react-native-async-storage/async-storage";
 import { useThemeMode } from "@/theme/ThemeProvider";
+import * as api from "@/lib/apiClient";
+import type { Note } from "@/lib/apiClient";
+import { useCourses } from "@/lib/courses";
+import { allTags, filterNotes } from "@/lib/noteFilters";
 
-type Note = {
-  id: string;
-  title: string;
-  source: "MANUAL" | "UPLOAD" | "LINK";
-  createdAt: string;
-};
-
-const API_BASE = getApiBase();
 const LAST_INDEXED_KEY = "last-indexed-note-id";
 
 export default function StudyToolsScreen() {
-  const { user, loading, getAccessToken } = useAuth();
+  const { user, loading, needsVerification } = useAuth();
   const router = useRouter();
+  const { noteId: noteIdParam, courseId: courseIdParam } = useLocalSearchParams<{
+    noteId?: string;
+    courseId?: string;
+  }>();
   const insets = useSafeAreaInsets();
   const { colors } = useThemeMode();
 
   const [notes, setNotes] = useState<Note[]>([]);
   const [loadingNotes, setLoadingNotes] = useState(true);
   const [selectedNoteId, setSelectedNoteId] = useState<string | null>(null);
+  const [courseFilter, setCourseFilter] = useState<string | null>(courseIdParam ?? null);
+  const [noteFilter, setNoteFilter] = useState<NoteFilterValue>(DEFAULT_NOTE_FILTER);
+  const { courses } = useCourses(!loading && !!user);
 
+  const tags = useMemo(() => allTags(notes), [notes]);
+  const visibleNotes = useMemo(
+    () => filterNotes(notes, { courseId: courseFilter, ...noteFilter }),
+    [notes, courseFilter, noteFilter]
+  );
   const selected = useMemo(
-    () => notes.find(n => n.id === selectedNoteId) || null,
-    [notes, selectedNoteId]
+    () => visibleNotes.find(n => n.id === selectedNoteId) || null,
+    [visibleNotes, selectedNoteId]
   );
 
+  useEffect(() => {
+    if (courseIdParam) setCourseFilter(courseIdParam);
+  }, [courseIdParam]);
+
+  // switching course picks its newest note unless the selection is already in it
+  useEffect(() => {
+    if (visibleNotes.length && !visibleNotes.some((n) => n.id === selectedNoteId)) {
+      setSelectedNoteId(visibleNotes[0].id);
+    }
+  }, [visibleNotes, selectedNoteId]);
+
   const loadNotes = useCallback(async () => {
     try {
       setLoadingNotes(true);
-      const token = await getAccessToken();
-      const res = await fetch(`${API_BASE}/api/notes`, {
-        headers: token ? { Authorization: `Bearer ${token}` } : {},
-      });
-      const json = (await res.json().catch(() => [])) as Note[];
-      if (!res.ok) throw json;
-      // Keep uploads first (usually the ones you work with)
+      const json = await api.listNotes();
+      // Newest first (usually the ones you work with)
       const sorted = json
-        .filter(n => n.source === "UPLOAD")
+        .slice()
         .sort((a, b) => +new Date(b.createdAt) - +new Date(a.createdAt));
       setNotes(sorted);
       if (sorted.length && !selectedNoteId) setSelectedNoteId(sorted[0].id);
@@ -64,7 +80,7 @@ export default function StudyToolsScreen() {
     } finally {
       setLoadingNotes(false);
     }
-  }, [getAccessToken, selectedNoteId]);
+  }, [selectedNoteId]);
 
   useEffect(() => {
     if (!loading && user) loadNotes();
@@ -76,13 +92,10 @@ export default function StudyToolsScreen() {
       // re-run your existing "load notes" logic here
       void loadNotes?.();
 
-      // also, prefer last-indexed if present
+      // nothing picked yet: start from the last-indexed note; keep the user's pick otherwise
       (async () => {
         const last = await AsyncStorage.getItem(LAST_INDEXED_KEY);
-        if (last) {
-          // if your screen tracks a selected noteId, set it here
-          setSelectedNoteId?.(last);
-        }
+        if (last) setSelectedNoteId((cur) => cur ?? last);
       })();
 
       // subscribe to bus
@@ -97,6 +110,14 @@ export default function StudyToolsScreen() {
     }, [])
   );
 
+  // a note passed in the route (Home, Search) is applied once; clearing the param
+  // keeps later visits from snapping back to it
+  useEffect(() => {
+    if (!noteIdParam) return;
+    setSelectedNoteId(noteIdParam);
+    router.setParams({ noteId: undefined });
+  }, [noteIdParam, router]);
+
   if (loading || !user) {
     return (
       <View className="flex-1 items-center justify-center bg-light-bg dark:bg-dark-bg">
@@ -146,26 +167,35 @@ export default function StudyToolsScreen() {
         <Text className="mt-1 text-light-subtext dark:text-dark-subtext">
           Choose a note and pick a tool to generate study aids.
         </Text>
+        <VerifyEmailNotice feature="flashcards and quizzes" />
 
         {/* Note picker (horizontal) */}
         <View className="mt-5">
           <Text className="text-sm mb-2 text-light-subtext dark:text-dark-subtext">
             Notes
           </Text>
+          <CourseFilterChips courses={courses} value={courseFilter} onChange={setCourseFilter} className="mb-2" />
+          {notes.length ? (
+            <NoteFilterBar tags={tags} value={noteFilter} onChange={setNoteFilter} className="mb-3" />
+          ) : null}
           {loadingNotes ? (
             <View className="h-16 items-center justify-center rounded-2xl border border-light-border dark:border-dark-border">
               <ActivityIndicator />
             </View>
-          ) : notes.length === 0 ? (
+          ) : visibleNotes.length === 0 ? (
             <View className="rounded-2xl border border-light-border dark:border-dark-border p-4">
               <Text className="text-light-subtext dark:text-dark-subtext">
-                No notes yet. Upload a note first from the Notes tab.
+                {noteFilter.tag || noteFilter.favouritesOnly
+                  ? "No notes match these filters."
+                  : courseFilter
+                  ? "No notes in this course yet. Add some from the Notes tab."
+                  : "No notes yet. Upload, write or import a note first from the Notes tab."}
               </Text>
             </View>
           ) : (
             <FlatList
               horizontal
-              data={notes}
+              data={visibleNotes}
               keyExtractor={(n) => n.id}
               showsHorizontalScrollIndicator={false}
               contentContainerStyle={{ gap: 12 }}
@@ -190,6 +220,7 @@ export default function StudyToolsScreen() {
                       style={{ color: active ? "#fff" : colors.foreground }}
                       numberOfLines={1}
                     >
+                      {item.favorite ? "★ " : ""}
                       {item.title || "(untitled)"}
                     </Text>
                   </Pressable>
@@ -206,7 +237,7 @@ export default function StudyToolsScreen() {
             subtitle="Generate concise Q/A cards"
             Icon={Layers}
             onPress={onOpenFlashcards}
-            disabled={!selected}
+            disabled={!selected || needsVerification}
           />
           <Divider />
           <ToolRow
@@ -214,7 +245,7 @@ export default function StudyToolsScreen() {
             subtitle="Test yourself with MCQs"
             Icon={HelpCircle}
             onPress={onOpenQuiz}
-            disabled={!selected}
+            disabled={!selected || needsVerification}
           />
         </View>
       </ScrollView>
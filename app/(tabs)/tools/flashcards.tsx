@@ -9,22 +9,22 @@ import {
 import { useLocalSearchParams, useRouter } from "expo-router";
 import AsyncStorage from "@react-native-async-storage/async-storage";
 import { useSafeAreaInsets } from "react-native-safe-area-context";
-import { useAuth } from "@/providers/AuthProvider";
-import { getApiBase } from "@/constants/api";
 import Header from "@/components/Header";
+import VerifyEmailNotice from "@/components/VerifyEmailNotice";
+import { useAuth } from "@/providers/AuthProvider";
 import { getFlashcards as cacheGetFC, setFlashcards as cacheSetFC } from "@/lib/toolsCache";
+import * as api from "@/lib/apiClient";
+import { errorMessage, type ApiCard } from "@/lib/apiClient";
 
-type ApiCard = { q?: string; a?: string };
 type Card = { q: string; a: string; id: string };
 
-const API_BASE = getApiBase();
 const LAST_INDEXED_KEY = "last-indexed-note-id";
 
 export default function FlashcardsScreen() {
   const insets = useSafeAreaInsets();
   const TAB_BAR_HEIGHT = 54;
   const router = useRouter();
-  const { getAccessToken } = useAuth();
+  const { needsVerification } = useAuth();
   const { noteId: noteIdParam } = useLocalSearchParams<{ noteId?: string }>();
 
   const [noteId, setNoteId] = useState<string | null>(noteIdParam ?? null);
@@ -50,6 +50,8 @@ export default function FlashcardsScreen() {
       setCards([]);
       return;
     }
+    // generating is locked until the email is verified; cached results still show
+    if (needsVerification) return;
     if (!force && cards.length > 0) {
       // Already have data (cached or fetched) — don’t refetch.
       return;
@@ -58,27 +60,7 @@ export default function FlashcardsScreen() {
     try {
       setErr(null);
       setLoading(true);
-      const token = await getAccessToken();
-
-      const res = await fetch(`${API_BASE}/api/notes/${noteId}/flashcards`, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          ...(token ? { Authorization: `Bearer ${token}` } : {}),
-        },
-        body: JSON.stringify({ count: 12 }),
-      });
-
-      const json = await res.json().catch(() => ({} as any));
-      if (!res.ok) {
-        const msg =
-          (typeof json?.error === "string" && json.error) ||
-          "Failed to generate flashcards.";
-        setErr(msg);
-        setCards([]);
-        return;
-      }
-
+      const json = await api.flashcards(noteId!, { count: 12 });
       const raw: ApiCard[] = Array.isArray(json?.cards) ? json.cards : [];
       const mapped: Card[] = raw
         .map((c, i) => ({
@@ -98,7 +80,7 @@ export default function FlashcardsScreen() {
       if (noteId) await cacheSetFC(noteId, mapped);
     } catch (e: any) {
       console.error("flashcards error", e);
-      setErr(e?.message || "Something went wrong.");
+      setErr(errorMessage(e, "Failed to generate flashcards."));
       setCards([]);
     } finally {
       setLoading(false);
@@ -116,7 +98,7 @@ export default function FlashcardsScreen() {
         return;
       }
       setHydratedFromCache(true);
-      await fetchFlashcards();
+      if (!needsVerification) await fetchFlashcards();
     })();
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [canFetch]);
@@ -134,6 +116,7 @@ export default function FlashcardsScreen() {
         keyboardShouldPersistTaps="handled"
         showsVerticalScrollIndicator={false}
       >
+        <VerifyEmailNotice feature="flashcards" />
         {!canFetch ? (
           <EmptyState
             title="No note selected"
@@ -152,14 +135,14 @@ export default function FlashcardsScreen() {
           <EmptyState
             title="Couldn’t create flashcards"
             subtitle={err}
-            actionLabel="Try Again"
+            actionLabel={needsVerification ? undefined : "Try Again"}
             onAction={() => fetchFlashcards(true)}
           />
         ) : cards.length === 0 ? (
           <EmptyState
             title="No flashcards yet"
             subtitle="Generate flashcards for this note."
-            actionLabel="Generate"
+            actionLabel={needsVerification ? undefined : "Generate"}
             onAction={() => fetchFlashcards(true)}
           />
         ) : (
@@ -182,7 +165,10 @@ export default function FlashcardsScreen() {
             <View className="mt-6 flex-row gap-3">
               <Pressable
                 onPress={() => fetchFlashcards(true)}
-                className="px-4 py-2 rounded-2xl bg-primary items-center justify-center"
+                disabled={needsVerification}
+                className={`px-4 py-2 rounded-2xl items-center justify-center ${
+                  needsVerification ? "bg-primary/60" : "bg-primary"
+                }`}
               >
                 <Text className="text-white font-semibold">Regenerate</Text>
               </Pressable>
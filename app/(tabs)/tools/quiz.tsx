@@ -9,17 +9,13 @@ import {
 import { useLocalSearchParams, useRouter } from "expo-router";
 import AsyncStorage from "@react-native-async-storage/async-storage";
 import { useSafeAreaInsets } from "react-native-safe-area-context";
-import { useAuth } from "@/providers/AuthProvider";
-import { getApiBase } from "@/constants/api";
 import Header from "@/components/Header";
+import VerifyEmailNotice from "@/components/VerifyEmailNotice";
+import { useAuth } from "@/providers/AuthProvider";
 import { getQuiz as cacheGetQuiz, setQuiz as cacheSetQuiz } from "@/lib/toolsCache";
+import * as api from "@/lib/apiClient";
+import { errorMessage, type ApiQuestion } from "@/lib/apiClient";
 
-type ApiQuestion = {
-  question?: string;
-  choices?: string[];
-  answer_index?: number;
-  explanation?: string;
-};
 type Question = {
   question: string;
   choices: string[];
@@ -27,14 +23,13 @@ type Question = {
   explanation: string;
 };
 
-const API_BASE = getApiBase();
 const LAST_INDEXED_KEY = "last-indexed-note-id";
 
 export default function QuizScreen() {
   const insets = useSafeAreaInsets();
   const TAB_BAR_HEIGHT = 54;
   const router = useRouter();
-  const { getAccessToken } = useAuth();
+  const { needsVerification } = useAuth();
   const { noteId: noteIdParam } = useLocalSearchParams<{ noteId?: string }>();
 
   const [noteId, setNoteId] = useState<string | null>(noteIdParam ?? null);
@@ -73,6 +68,8 @@ export default function QuizScreen() {
       setItems([]);
       return;
     }
+    // generating is locked until the email is verified; cached results still show
+    if (needsVerification) return;
     if (!force && items.length > 0) {
       // Already have data (from cache or earlier fetch) — don’t refetch.
       return;
@@ -82,27 +79,7 @@ export default function QuizScreen() {
       setErr(null);
       setLoading(true);
       setSelected({});
-      const token = await getAccessToken();
-
-      const res = await fetch(`${API_BASE}/api/notes/${noteId}/quiz`, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          ...(token ? { Authorization: `Bearer ${token}` } : {}),
-        },
-        body: JSON.stringify({ count: 10, difficulty: "medium" }),
-      });
-
-      const json = await res.json().catch(() => ({} as any));
-      if (!res.ok) {
-        const msg =
-          (typeof json?.error === "string" && json.error) ||
-          "Failed to generate quiz.";
-        setErr(msg);
-        setItems([]);
-        return;
-      }
-
+      const json = await api.quiz(noteId!, { count: 10, difficulty: "medium" });
       const raw: ApiQuestion[] = Array.isArray(json?.quiz) ? json.quiz : [];
       const mapped = mapApi(raw);
       if (!mapped.length) {
@@ -116,7 +93,7 @@ export default function QuizScreen() {
       if (noteId) await cacheSetQuiz(noteId, mapped);
     } catch (e: any) {
       console.error("quiz error", e);
-      setErr(e?.message || "Something went wrong.");
+      setErr(errorMessage(e, "Failed to generate quiz."));
       setItems([]);
     } finally {
       setLoading(false);
@@ -134,7 +111,7 @@ export default function QuizScreen() {
         return; // don’t fetch now; user can tap Regenerate
       }
       setHydratedFromCache(true);
-      await fetchQuiz(); // initial fetch
+      if (!needsVerification) await fetchQuiz(); // initial fetch
     })();
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [canFetch]);
@@ -159,6 +136,7 @@ export default function QuizScreen() {
         keyboardShouldPersistTaps="handled"
         showsVerticalScrollIndicator={false}
       >
+        <VerifyEmailNotice feature="quizzes" />
         {!canFetch ? (
           <EmptyState
             title="No note selected"
@@ -177,14 +155,14 @@ export default function QuizScreen() {
           <EmptyState
             title="Couldn’t create a quiz"
             subtitle={err}
-            actionLabel="Try Again"
+            actionLabel={needsVerification ? undefined : "Try Again"}
             onAction={() => fetchQuiz(true)}
           />
         ) : items.length === 0 ? (
           <EmptyState
             title="No quiz yet"
             subtitle="Generate a quiz for this note."
-            actionLabel="Generate"
+            actionLabel={needsVerification ? undefined : "Generate"}
             onAction={() => fetchQuiz(true)}
           />
         ) : (
@@ -297,7 +275,10 @@ export default function QuizScreen() {
             <View className="mt-6 flex-row gap-3">
               <Pressable
                 onPress={() => fetchQuiz(true)}
-                className="px-4 py-2 rounded-2xl bg-primary items-center justify-center"
+                disabled={needsVerification}
+                className={`px-4 py-2 rounded-2xl items-center justify-center ${
+                  needsVerification ? "bg-primary/60" : "bg-primary"
+                }`}
               >
                 <Text className="text-white font-semibold">Regenerate</Text>
               </Pressable>
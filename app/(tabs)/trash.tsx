@@ -0,0 +1,225 @@
+import React, { useState } from "react";
+import { ActivityIndicator, Alert, FlatList, Pressable, Text, View } from "react-native";
+import { useFocusEffect } from "@react-navigation/native";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+import Header from "@/components/Header";
+import { useAuth } from "@/providers/AuthProvider";
+import { useThemeMode } from "@/theme/ThemeProvider";
+import * as api from "@/lib/apiClient";
+import { errorMessage, type TrashedNote } from "@/lib/apiClient";
+import { confirmAction } from "@/lib/confirm";
+import { emit, on } from "@/lib/eventBus";
+import { clearNoteCaches, purgeLabel, sweepPurgedCaches } from "@/lib/trash";
+
+const TAB_BAR_HEIGHT = 54;
+const DEFAULT_RETENTION_DAYS = 30;
+
+export default function TrashScreen() {
+  const insets = useSafeAreaInsets();
+  const { user, loading } = useAuth();
+  const { colors } = useThemeMode();
+
+  const [notes, setNotes] = useState<TrashedNote[]>([]);
+  const [retentionDays, setRetentionDays] = useState(DEFAULT_RETENTION_DAYS);
+  const [listLoading, setListLoading] = useState(true);
+  const [err, setErr] = useState<string | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const load = React.useCallback(async () => {
+    try {
+      setErr(null);
+      const json = await api.listTrash();
+      setNotes(json.notes ?? []);
+      if (json.retentionDays) setRetentionDays(json.retentionDays);
+      // anything the server purged since the last visit
+      void sweepPurgedCaches(true);
+    } catch (e) {
+      console.error("Trash load error", e);
+      setErr(errorMessage(e, "Could not load the trash."));
+    } finally {
+      setListLoading(false);
+    }
+  }, []);
+
+  useFocusEffect(
+    React.useCallback(() => {
+      if (loading || !user) return;
+      void load();
+      return on("notes:changed", () => void load());
+    }, [loading, user, load])
+  );
+
+  async function restore(note: TrashedNote) {
+    try {
+      setBusyId(note.id);
+      await api.restoreNote(note.id);
+      setNotes((prev) => prev.filter((n) => n.id !== note.id));
+      emit("notes:changed", { noteId: note.id });
+    } catch (e) {
+      console.error("Restore error", e);
+      Alert.alert("Couldn't restore", errorMessage(e, "Please try again."));
+    } finally {
+      setBusyId(null);
+    }
+  }
+
+  async function purge(note: TrashedNote) {
+    try {
+      setBusyId(note.id);
+      await api.purgeNote(note.id);
+      await clearNoteCaches([note.id]);
+      setNotes((prev) => prev.filter((n) => n.id !== note.id));
+    } catch (e) {
+      console.error("Purge error", e);
+      Alert.alert("Delete failed", errorMessage(e, "Could not delete"));
+    } finally {
+      setBusyId(null);
+    }
+  }
+
+  async function emptyTrash() {
+    try {
+      setBusyId("all");
+      const json = await api.emptyTrash();
+      await clearNoteCaches(json?.purged ?? notes.map((n) => n.id));
+      setNotes([]);
+    } catch (e) {
+      console.error("Empty trash error", e);
+      Alert.alert("Couldn't empty the trash", errorMessage(e, "Please try again."));
+      void load();
+    } finally {
+      setBusyId(null);
+    }
+  }
+
+  function confirmPurge(note: TrashedNote) {
+    confirmAction(
+      "Delete forever?",
+      `“${note.title || "(untitled)"}”, its upload and everything generated from it will be removed. This can't be undone.`,
+      "Delete",
+      () => void purge(note)
+    );
+  }
+
+  function confirmEmpty() {
+    confirmAction(
+      "Empty trash?",
+      `${notes.length} note${notes.length === 1 ? "" : "s"} will be deleted permanently. This can't be undone.`,
+      "Empty trash",
+      () => void emptyTrash()
+    );
+  }
+
+  if (loading || !user) {
+    return (
+      <View className="flex-1 items-center justify-center bg-light-bg dark:bg-dark-bg">
+        <ActivityIndicator />
+      </View>
+    );
+  }
+
+  return (
+    <View className="flex-1 bg-light-bg dark:bg-dark-bg">
+      <Header />
+      <View className="px-6 pt-6 flex-row items-center justify-between">
+        <Text className="text-2xl font-bold text-light-text dark:text-dark-text">Trash</Text>
+        {notes.length ? (
+          <Pressable
+            onPress={confirmEmpty}
+            disabled={!!busyId}
+            className="px-4 py-2 rounded-2xl"
+            style={{ backgroundColor: colors.destructive, opacity: busyId ? 0.6 : 1 }}
+          >
+            <Text className="text-white font-semibold">Empty trash</Text>
+          </Pressable>
+        ) : null}
+      </View>
+      <Text className="px-6 mt-1 text-sm" style={{ color: colors.grey }}>
+        Deleted notes stay here for {retentionDays} days, then they&apos;re removed for good.
+      </Text>
+
+      {listLoading ? (
+        <View className="items-center justify-center py-10">
+          <ActivityIndicator />
+        </View>
+      ) : err ? (
+        <Text className="px-6 mt-4" style={{ color: colors.destructive }}>
+          {err}
+        </Text>
+      ) : (
+        <FlatList
+          data={notes}
+          keyExtractor={(n) => n.id}
+          contentContainerStyle={{
+            paddingHorizontal: 24,
+            paddingTop: 16,
+            paddingBottom: insets.bottom + TAB_BAR_HEIGHT + 48,
+            gap: 12,
+          }}
+          ListEmptyComponent={
+            <Text className="mt-6 text-center" style={{ color: colors.grey }}>
+              The trash is empty.
+            </Text>
+          }
+          renderItem={({ item }) => (
+            <TrashRow
+              note={item}
+              colors={colors}
+              busy={busyId === item.id || busyId === "all"}
+              onRestore={() => restore(item)}
+              onPurge={() => confirmPurge(item)}
+            />
+          )}
+        />
+      )}
+    </View>
+  );
+}
+
+/* ------------------------------ UI helpers ------------------------------- */
+
+function TrashRow({
+  note,
+  colors,
+  busy,
+  onRestore,
+  onPurge,
+}: {
+  note: TrashedNote;
+  colors: any;
+  busy: boolean;
+  onRestore: () => void;
+  onPurge: () => void;
+}) {
+  return (
+    <View
+      className="rounded-2xl border p-4 flex-row items-center gap-3"
+      style={{ backgroundColor: colors.card, borderColor: colors.grey4, opacity: busy ? 0.6 : 1 }}
+    >
+      <View className="flex-1">
+        <Text numberOfLines={1} className="text-base font-semibold" style={{ color: colors.foreground }}>
+          {note.title || "(untitled)"}
+        </Text>
+        <Text className="mt-1 text-xs" style={{ color: colors.grey }}>
+          Deleted {new Date(note.deletedAt).toLocaleDateString()} · {purgeLabel(note.purgeAt)}
+        </Text>
+      </View>
+      <Pressable
+        onPress={onRestore}
+        disabled={busy}
+        className="px-3 py-2 rounded-xl"
+        style={{ borderWidth: 1, borderColor: colors.grey4 }}
+      >
+        <Text style={{ color: colors.foreground }}>Restore</Text>
+      </Pressable>
+      <Pressable
+        onPress={onPurge}
+        disabled={busy}
+        className="px-3 py-2 rounded-xl"
+        style={{ backgroundColor: colors.destructive }}
+      >
+        <Text className="text-white">Delete</Text>
+      </Pressable>
+    </View>
+  );
+}
@@ -1,6 +1,7 @@
 import { Stack } from "expo-router";
 import { ThemeProvider } from "@/theme/ThemeProvider";
 import { AuthProvider } from "@/providers/AuthProvider";
+import { AppLockProvider } from "@/providers/AppLockProvider";
 import { StatusBar } from "expo-status-bar";
 import React from "react";
 import "./globals.css";
@@ -8,13 +9,15 @@ import "./globals.css";
 export default function RootLayout() {
   return (
     <ThemeProvider>
-      <AuthProvider>
-        <StatusBar translucent backgroundColor="transparent" />
-        <Stack screenOptions={{ headerShown: false }}>
-          <Stack.Screen name="(tabs)" />
-          <Stack.Screen name="index" />
-        </Stack>
-      </AuthProvider>
+      <StatusBar translucent backgroundColor="transparent" />
+      <AppLockProvider>
+        <AuthProvider>
+          <Stack screenOptions={{ headerShown: false }}>
+            <Stack.Screen name="(tabs)" />
+            <Stack.Screen name="index" />
+          </Stack>
+        </AuthProvider>
+      </AppLockProvider>
     </ThemeProvider>
   );
 }
@@ -0,0 +1,130 @@
+import { useState } from "react";
+import {
+  View,
+  Text,
+  TextInput,
+  Pressable,
+  ActivityIndicator,
+  KeyboardAvoidingView,
+  Platform,
+} from "react-native";
+import { Link, useLocalSearchParams, useRouter } from "expo-router";
+import { useAuth } from "@/providers/AuthProvider";
+import Header from "@/components/Header";
+import ErrorBanner from "@/components/ErrorBanner";
+
+export default function ForgotPassword() {
+  const { requestPasswordReset } = useAuth();
+  const router = useRouter();
+  const params = useLocalSearchParams<{ email?: string }>();
+
+  const [email, setEmail] = useState(params.email ?? "");
+
+  // form + field errors
+  const [formError, setFormError] = useState<any>(null);
+  const [emailErr, setEmailErr] = useState<string | null>(null);
+
+  const [submitting, setSubmitting] = useState(false);
+  const [sent, setSent] = useState(false);
+
+  async function onSubmit() {
+    setFormError(null);
+    setEmailErr(null);
+    setSubmitting(true);
+    try {
+      await requestPasswordReset(email.trim().toLowerCase());
+      setSent(true);
+    } catch (e: any) {
+      const fe = (e?.json ?? e)?.details?.fieldErrors ?? {};
+      setEmailErr(fe.email?.[0] ?? null);
+      setFormError(e);
+    } finally {
+      setSubmitting(false);
+    }
+  }
+
+  return (
+    <KeyboardAvoidingView
+      behavior={Platform.OS === "ios" ? "padding" : undefined}
+      className="flex-1 bg-light-bg dark:bg-dark-bg"
+    >
+      <Header />
+      <View className="flex-1 px-6 py-8">
+        <Text className="text-3xl font-extrabold text-light-text dark:text-dark-text">
+          Forgot password
+        </Text>
+        <Text className="mt-1 text-light-subtext dark:text-dark-subtext">
+          We&apos;ll email you a link to choose a new password.
+        </Text>
+
+        {sent ? (
+          <View className="mt-8 gap-4">
+            <View className="rounded-2xl border border-light-border dark:border-dark-border bg-light-surface dark:bg-dark-surface px-4 py-3">
+              <Text className="text-light-text dark:text-dark-text font-semibold">Check your inbox</Text>
+              <Text className="mt-1 text-light-subtext dark:text-dark-subtext">
+                If an account exists for {email.trim().toLowerCase()}, a reset link is on its way.
+                Open it on this device, or paste the code from the email.
+              </Text>
+            </View>
+
+            <Pressable
+              onPress={() => router.push("/reset-password")}
+              className="h-12 rounded-2xl bg-primary items-center justify-center"
+            >
+              <Text className="text-white font-semibold">I have a code</Text>
+            </Pressable>
+          </View>
+        ) : (
+          <View className="mt-8 gap-4">
+            {/* Email */}
+            <View>
+              <Text className="text-sm text-light-subtext dark:text-dark-subtext mb-2">Email</Text>
+              <TextInput
+                autoCapitalize="none"
+                keyboardType="email-address"
+                value={email}
+                onChangeText={(t) => {
+                  setEmail(t);
+                  if (emailErr) setEmailErr(null);
+                }}
+                placeholder="you@example.com"
+                placeholderTextColor="#9CA3AF"
+                className={`px-4 py-3 rounded-2xl bg-light-surface dark:bg-dark-surface text-light-text dark:text-dark-text border ${
+                  emailErr ? "border-danger" : "border-light-border dark:border-dark-border"
+                }`}
+                textContentType="emailAddress"
+              />
+              {!!emailErr && <Text className="mt-1 text-danger text-xs">{emailErr}</Text>}
+            </View>
+
+            {/* Submit */}
+            <Pressable
+              onPress={onSubmit}
+              disabled={submitting || !email.trim()}
+              className={`mt-2 h-12 rounded-2xl bg-primary items-center justify-center ${
+                !email.trim() ? "opacity-60" : ""
+              }`}
+            >
+              {submitting ? (
+                <ActivityIndicator />
+              ) : (
+                <Text className="text-white font-semibold">Send reset link</Text>
+              )}
+            </Pressable>
+
+            {/* Form-level error banner (friendly messages + zod lists) */}
+            <ErrorBanner error={formError} />
+          </View>
+        )}
+
+        {/* Link */}
+        <Text className="text-sm text-light-subtext dark:text-dark-subtext mt-8">
+          Remembered it?{" "}
+          <Link href="/login" className="text-light-subtext dark:text-dark-subtext underline">
+            Back to sign in
+          </Link>
+        </Text>
+      </View>
+    </KeyboardAvoidingView>
+  );
+}
@@ -102,6 +102,12 @@ export default function Login() {
               textContentType="password"
             />
             {!!passwordErr && <Text className="mt-1 text-danger text-xs">{passwordErr}</Text>}
+            <Link
+              href={{ pathname: "/forgot-password", params: email ? { email } : {} }}
+              className="mt-2 self-end text-sm text-light-subtext dark:text-dark-subtext underline"
+            >
+              Forgot password?
+            </Link>
           </View>
 
           {/* Submit */}
@@ -44,8 +44,8 @@ export default function Register() {
     setPasswordErr(null);
     setSubmitting(true);
     try {
-      await signUp({ name: name.trim(), email: email.trim().toLowerCase(), password });
-      router.replace("/(tabs)");
+      const u = await signUp({ name: name.trim(), email: email.trim().toLowerCase(), password });
+      router.replace(u.emailVerified === false ? "/verify-email" : "/(tabs)");
     } catch (e: any) {
       parseFieldErrors(e);
       setFormError(e); // pass raw error to ErrorBanner for exact messages
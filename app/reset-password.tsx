@@ -0,0 +1,196 @@
+import { useState } from "react";
+import {
+  View,
+  Text,
+  TextInput,
+  Pressable,
+  ActivityIndicator,
+  KeyboardAvoidingView,
+  Platform,
+} from "react-native";
+import { Link, useLocalSearchParams, useRouter } from "expo-router";
+import { useAuth } from "@/providers/AuthProvider";
+import Header from "@/components/Header";
+import ErrorBanner from "@/components/ErrorBanner";
+
+/**
+ * Reached from the emailed deep link (companionapp://reset-password?token=...)
+ * or manually from "I have a code" on the forgot-password screen.
+ */
+export default function ResetPassword() {
+  const { resetPassword } = useAuth();
+  const router = useRouter();
+  const params = useLocalSearchParams<{ token?: string }>();
+  const fromLink = !!params.token;
+
+  const [token, setToken] = useState(params.token ?? "");
+  const [password, setPassword] = useState("");
+  const [confirm, setConfirm] = useState("");
+
+  // form + field errors
+  const [formError, setFormError] = useState<any>(null);
+  const [tokenErr, setTokenErr] = useState<string | null>(null);
+  const [passwordErr, setPasswordErr] = useState<string | null>(null);
+  const [confirmErr, setConfirmErr] = useState<string | null>(null);
+
+  const [submitting, setSubmitting] = useState(false);
+  const [done, setDone] = useState(false);
+
+  function parseFieldErrors(e: any) {
+    const payload = e?.json ?? e;
+    const fe = payload?.details?.fieldErrors ?? {};
+    setTokenErr(fe.token?.[0] ?? null);
+    setPasswordErr(fe.password?.[0] ?? null);
+  }
+
+  async function onSubmit() {
+    setFormError(null);
+    setTokenErr(null);
+    setPasswordErr(null);
+    setConfirmErr(null);
+
+    if (!token.trim()) {
+      setTokenErr("Paste the code from your email.");
+      return;
+    }
+    if (password !== confirm) {
+      setConfirmErr("Passwords don't match.");
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      await resetPassword({ token, password });
+      setDone(true);
+    } catch (e: any) {
+      parseFieldErrors(e);
+      setFormError(e); // pass raw error to ErrorBanner for exact messages
+    } finally {
+      setSubmitting(false);
+    }
+  }
+
+  return (
+    <KeyboardAvoidingView
+      behavior={Platform.OS === "ios" ? "padding" : undefined}
+      className="flex-1 bg-light-bg dark:bg-dark-bg"
+    >
+      <Header />
+      <View className="flex-1 px-6 py-8">
+        <Text className="text-3xl font-extrabold text-light-text dark:text-dark-text">
+          Reset password
+        </Text>
+        <Text className="mt-1 text-light-subtext dark:text-dark-subtext">
+          Choose a new password for your account
+        </Text>
+
+        {done ? (
+          <View className="mt-8 gap-4">
+            <View className="rounded-2xl border border-light-border dark:border-dark-border bg-light-surface dark:bg-dark-surface px-4 py-3">
+              <Text className="text-light-text dark:text-dark-text font-semibold">Password updated</Text>
+              <Text className="mt-1 text-light-subtext dark:text-dark-subtext">
+                You can now sign in with your new password.
+              </Text>
+            </View>
+            <Pressable
+              onPress={() => router.replace("/login")}
+              className="h-12 rounded-2xl bg-primary items-center justify-center"
+            >
+              <Text className="text-white font-semibold">Sign in</Text>
+            </Pressable>
+          </View>
+        ) : (
+          <View className="mt-8 gap-4">
+            {/* Token (only when not opened from the email link) */}
+            {!fromLink && (
+              <View>
+                <Text className="text-sm text-light-subtext dark:text-dark-subtext mb-2">Reset code</Text>
+                <TextInput
+                  autoCapitalize="none"
+                  autoCorrect={false}
+                  value={token}
+                  onChangeText={(t) => {
+                    setToken(t);
+                    if (tokenErr) setTokenErr(null);
+                  }}
+                  placeholder="Code from the email"
+                  placeholderTextColor="#9CA3AF"
+                  className={`px-4 py-3 rounded-2xl bg-light-surface dark:bg-dark-surface text-light-text dark:text-dark-text border ${
+                    tokenErr ? "border-danger" : "border-light-border dark:border-dark-border"
+                  }`}
+                  textContentType="oneTimeCode"
+                />
+                {!!tokenErr && <Text className="mt-1 text-danger text-xs">{tokenErr}</Text>}
+              </View>
+            )}
+            {fromLink && !!tokenErr && <Text className="text-danger text-xs">{tokenErr}</Text>}
+
+            {/* Password */}
+            <View>
+              <Text className="text-sm text-light-subtext dark:text-dark-subtext mb-2">New password</Text>
+              <TextInput
+                secureTextEntry
+                value={password}
+                onChangeText={(t) => {
+                  setPassword(t);
+                  if (passwordErr) setPasswordErr(null);
+                }}
+                placeholder="At least 6 characters"
+                placeholderTextColor="#9CA3AF"
+                className={`px-4 py-3 rounded-2xl bg-light-surface dark:bg-dark-surface text-light-text dark:text-dark-text border ${
+                  passwordErr ? "border-danger" : "border-light-border dark:border-dark-border"
+                }`}
+                textContentType="newPassword"
+              />
+              {!!passwordErr && <Text className="mt-1 text-danger text-xs">{passwordErr}</Text>}
+            </View>
+
+            {/* Confirm */}
+            <View>
+              <Text className="text-sm text-light-subtext dark:text-dark-subtext mb-2">Confirm password</Text>
+              <TextInput
+                secureTextEntry
+                value={confirm}
+                onChangeText={(t) => {
+                  setConfirm(t);
+                  if (confirmErr) setConfirmErr(null);
+                }}
+                placeholder="••••••••"
+                placeholderTextColor="#9CA3AF"
+                className={`px-4 py-3 rounded-2xl bg-light-surface dark:bg-dark-surface text-light-text dark:text-dark-text border ${
+                  confirmErr ? "border-danger" : "border-light-border dark:border-dark-border"
+                }`}
+                textContentType="newPassword"
+              />
+              {!!confirmErr && <Text className="mt-1 text-danger text-xs">{confirmErr}</Text>}
+            </View>
+
+            {/* Submit */}
+            <Pressable
+              onPress={onSubmit}
+              disabled={submitting}
+              className="mt-2 h-12 rounded-2xl bg-primary items-center justify-center"
+            >
+              {submitting ? (
+                <ActivityIndicator />
+              ) : (
+                <Text className="text-white font-semibold">Update password</Text>
+              )}
+            </Pressable>
+
+            {/* Form-level error banner (friendly messages + zod lists) */}
+            <ErrorBanner error={formError} fallback="This reset link is invalid or has expired." />
+          </View>
+        )}
+
+        {/* Link */}
+        <Text className="text-sm text-light-subtext dark:text-dark-subtext mt-8">
+          Need a new link?{" "}
+          <Link href="/forgot-password" className="text-light-subtext dark:text-dark-subtext underline">
+            Request another
+          </Link>
+        </Text>
+      </View>
+    </KeyboardAvoidingView>
+  );
+}
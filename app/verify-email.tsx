@@ -0,0 +1,158 @@
+import { useEffect, useState } from "react";
+import {
+  View,
+  Text,
+  TextInput,
+  Pressable,
+  ActivityIndicator,
+  KeyboardAvoidingView,
+  Platform,
+} from "react-native";
+import { useLocalSearchParams, useRouter } from "expo-router";
+import { useAuth } from "@/providers/AuthProvider";
+import Header from "@/components/Header";
+import ErrorBanner from "@/components/ErrorBanner";
+
+const RESEND_COOLDOWN_S = 30;
+
+/**
+ * Shown after registration and from the "verify your email" notice. Also opens
+ * from the emailed deep link (companionapp://verify-email?code=...).
+ */
+export default function VerifyEmail() {
+  const { user, loading, needsVerification, verifyEmail, resendVerification } = useAuth();
+  const router = useRouter();
+  const params = useLocalSearchParams<{ code?: string }>();
+
+  const [code, setCode] = useState(params.code ?? "");
+  const [formError, setFormError] = useState<any>(null);
+  const [codeErr, setCodeErr] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  const [resending, setResending] = useState(false);
+  const [resent, setResent] = useState(false);
+  const [cooldown, setCooldown] = useState(0);
+
+  useEffect(() => {
+    if (loading) return;
+    if (!user) router.replace("/login");
+    else if (!needsVerification) router.replace("/(tabs)");
+  }, [loading, user, needsVerification, router]);
+
+  useEffect(() => {
+    if (cooldown <= 0) return;
+    const t = setTimeout(() => setCooldown((c) => c - 1), 1000);
+    return () => clearTimeout(t);
+  }, [cooldown]);
+
+  async function onSubmit() {
+    setFormError(null);
+    setCodeErr(null);
+    setSubmitting(true);
+    try {
+      await verifyEmail(code);
+      // the effect above routes into the app once `needsVerification` flips
+    } catch (e: any) {
+      const fe = (e?.json ?? e)?.details?.fieldErrors ?? {};
+      setCodeErr(fe.code?.[0] ?? null);
+      setFormError(e);
+    } finally {
+      setSubmitting(false);
+    }
+  }
+
+  async function onResend() {
+    setFormError(null);
+    setResending(true);
+    try {
+      await resendVerification();
+      setResent(true);
+      setCooldown(RESEND_COOLDOWN_S);
+    } catch (e: any) {
+      setFormError(e);
+    } finally {
+      setResending(false);
+    }
+  }
+
+  return (
+    <KeyboardAvoidingView
+      behavior={Platform.OS === "ios" ? "padding" : undefined}
+      className="flex-1 bg-light-bg dark:bg-dark-bg"
+    >
+      <Header />
+      <View className="flex-1 px-6 py-8">
+        <Text className="text-3xl font-extrabold text-light-text dark:text-dark-text">
+          Verify your email
+        </Text>
+        <Text className="mt-1 text-light-subtext dark:text-dark-subtext">
+          Enter the code we sent to {user?.email ?? "your inbox"} to unlock uploads and AI features.
+        </Text>
+
+        <View className="mt-8 gap-4">
+          {/* Code */}
+          <View>
+            <Text className="text-sm text-light-subtext dark:text-dark-subtext mb-2">Verification code</Text>
+            <TextInput
+              autoCapitalize="none"
+              autoCorrect={false}
+              keyboardType="number-pad"
+              value={code}
+              onChangeText={(t) => {
+                setCode(t);
+                if (codeErr) setCodeErr(null);
+              }}
+              placeholder="123456"
+              placeholderTextColor="#9CA3AF"
+              className={`px-4 py-3 rounded-2xl bg-light-surface dark:bg-dark-surface text-light-text dark:text-dark-text border tracking-widest ${
+                codeErr ? "border-danger" : "border-light-border dark:border-dark-border"
+              }`}
+              textContentType="oneTimeCode"
+            />
+            {!!codeErr && <Text className="mt-1 text-danger text-xs">{codeErr}</Text>}
+          </View>
+
+          {/* Submit */}
+          <Pressable
+            onPress={onSubmit}
+            disabled={submitting || !code.trim()}
+            className={`mt-2 h-12 rounded-2xl bg-primary items-center justify-center ${
+              !code.trim() ? "opacity-60" : ""
+            }`}
+          >
+            {submitting ? <ActivityIndicator /> : <Text className="text-white font-semibold">Verify</Text>}
+          </Pressable>
+
+          {/* Form-level error banner (friendly messages + zod lists) */}
+          <ErrorBanner error={formError} fallback="That code didn't work." />
+
+          {/* Resend */}
+          <Pressable
+            onPress={onResend}
+            disabled={resending || cooldown > 0}
+            className={`h-12 rounded-2xl border border-light-border dark:border-dark-border items-center justify-center ${
+              cooldown > 0 ? "opacity-60" : ""
+            }`}
+          >
+            {resending ? (
+              <ActivityIndicator />
+            ) : (
+              <Text className="text-light-text dark:text-dark-text">
+                {cooldown > 0 ? `Resend code (${cooldown}s)` : "Resend code"}
+              </Text>
+            )}
+          </Pressable>
+          {resent && (
+            <Text className="text-xs text-light-subtext dark:text-dark-subtext">
+              A new code is on its way. Check your spam folder too.
+            </Text>
+          )}
+
+          <Pressable onPress={() => router.replace("/(tabs)")} className="mt-2 self-center">
+            <Text className="text-sm text-light-subtext dark:text-dark-subtext underline">Skip for now</Text>
+          </Pressable>
+        </View>
+      </View>
+    </KeyboardAvoidingView>
+  );
+}
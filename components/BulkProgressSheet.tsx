@@ -0,0 +1,124 @@
+import { Modal, View, Text, Pressable, ScrollView, ActivityIndicator } from "react-native";
+import { Check, X } from "lucide-react-native";
+import { useThemeMode } from "@/theme/ThemeProvider";
+import { bulkTitle, type BulkAction, type BulkItem, type BulkSummary } from "@/lib/bulkActions";
+
+const STATUS_LABEL: Record<BulkItem["status"], string> = {
+  pending: "Waiting…",
+  running: "Working…",
+  done: "Done",
+  failed: "Failed",
+  skipped: "Skipped",
+};
+
+/** Per-note progress for a bulk action, with a summary and "retry failed" once it settles */
+export default function BulkProgressSheet({
+  action,
+  items,
+  summary,
+  onStop,
+  onRetry,
+  onDismiss,
+}: {
+  action: BulkAction | null;
+  items: BulkItem[];
+  summary: BulkSummary | null;
+  onStop: () => void;
+  onRetry: () => void;
+  onDismiss: () => void;
+}) {
+  const { colors } = useThemeMode();
+  const finished = items.filter((i) => i.status !== "pending" && i.status !== "running").length;
+  const retryable = summary ? summary.failed + summary.skipped : 0;
+
+  return (
+    <Modal visible={!!action} transparent animationType="fade" onRequestClose={summary ? onDismiss : undefined}>
+      <View className="flex-1 items-center justify-center px-6" style={{ backgroundColor: "rgba(0,0,0,0.45)" }}>
+        <View
+          className="w-full max-w-[480px] rounded-2xl border p-5"
+          style={{ backgroundColor: colors.card, borderColor: colors.grey4 }}
+        >
+          <Text className="text-lg font-semibold" style={{ color: colors.foreground }}>
+            {action ? bulkTitle(action, items.length) : ""}
+          </Text>
+          <Text className="mt-1 text-sm" style={{ color: colors.grey }}>
+            {summary
+              ? [
+                  `${summary.done} done`,
+                  summary.failed ? `${summary.failed} failed` : null,
+                  summary.skipped ? `${summary.skipped} skipped` : null,
+                ]
+                  .filter(Boolean)
+                  .join(" · ")
+              : `${finished} of ${items.length}`}
+          </Text>
+
+          <View className="mt-3 h-1.5 rounded-full overflow-hidden" style={{ backgroundColor: colors.grey5 }}>
+            <View
+              className="h-1.5 rounded-full"
+              style={{
+                width: `${items.length ? Math.round((finished / items.length) * 100) : 0}%`,
+                backgroundColor: summary?.failed ? colors.destructive : colors.primary,
+              }}
+            />
+          </View>
+
+          <ScrollView className="mt-3" style={{ maxHeight: 320 }}>
+            {items.map((item) => {
+              const failed = item.status === "failed";
+              return (
+                <View key={item.noteId} className="py-2 gap-0.5">
+                  <View className="flex-row items-center gap-2">
+                    {item.status === "running" ? (
+                      <ActivityIndicator size="small" />
+                    ) : item.status === "done" ? (
+                      <Check size={16} color={colors.primary} />
+                    ) : failed ? (
+                      <X size={16} color={colors.destructive} />
+                    ) : (
+                      <View style={{ width: 16 }} />
+                    )}
+                    <Text numberOfLines={1} className="flex-1" style={{ color: colors.foreground }}>
+                      {item.title}
+                    </Text>
+                    <Text className="text-xs" style={{ color: failed ? colors.destructive : colors.grey }}>
+                      {item.status === "running" && item.step ? item.step : STATUS_LABEL[item.status]}
+                    </Text>
+                  </View>
+                  {failed && item.error ? (
+                    <Text className="text-xs ml-6" style={{ color: colors.destructive }}>
+                      {item.error}
+                    </Text>
+                  ) : null}
+                </View>
+              );
+            })}
+          </ScrollView>
+
+          <View className="mt-4 flex-row justify-end gap-2">
+            {!summary ? (
+              <Pressable onPress={onStop} className="px-4 py-2 rounded-xl border" style={{ borderColor: colors.grey4 }}>
+                <Text style={{ color: colors.destructive }}>Stop</Text>
+              </Pressable>
+            ) : (
+              <>
+                {retryable ? (
+                  <Pressable
+                    onPress={onRetry}
+                    className="px-4 py-2 rounded-xl border"
+                    style={{ borderColor: colors.grey4 }}
+                  >
+                    <Text style={{ color: colors.foreground }}>Retry {retryable}</Text>
+                  </Pressable>
+                ) : null}
+                <Pressable onPress={onDismiss} className="px-4 py-2 rounded-xl bg-primary">
+                  <Text className="text-white font-semibold">Close</Text>
+                </Pressable>
+              </>
+            )}
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+}
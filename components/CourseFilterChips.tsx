@@ -0,0 +1,48 @@
+import { ScrollView, Pressable, Text, View } from "react-native";
+import { useThemeMode } from "@/theme/ThemeProvider";
+import type { Course } from "@/lib/apiClient";
+
+/** Horizontal "All / <course> …" filter; `null` means every note */
+export default function CourseFilterChips({
+  courses,
+  value,
+  onChange,
+  className = "",
+}: {
+  courses: Course[];
+  value: string | null;
+  onChange: (courseId: string | null) => void;
+  className?: string;
+}) {
+  const { colors } = useThemeMode();
+  if (!courses.length) return null;
+
+  const chip = (key: string, label: string, active: boolean, onPress: () => void, dot?: string) => (
+    <Pressable
+      key={key}
+      onPress={onPress}
+      className="flex-row items-center gap-1.5 px-3 py-1.5 rounded-full border"
+      style={{
+        borderColor: active ? colors.primary : colors.grey4,
+        backgroundColor: active ? colors.primary : colors.card,
+      }}
+    >
+      {dot ? <View style={{ width: 8, height: 8, borderRadius: 4, backgroundColor: dot }} /> : null}
+      <Text className="text-xs font-semibold" style={{ color: active ? "#fff" : colors.foreground }}>
+        {label}
+      </Text>
+    </Pressable>
+  );
+
+  return (
+    <ScrollView
+      horizontal
+      showsHorizontalScrollIndicator={false}
+      className={className}
+      contentContainerStyle={{ gap: 8 }}
+    >
+      {chip("all", "All", value === null, () => onChange(null))}
+      {courses.map((c) => chip(c.id, c.name, value === c.id, () => onChange(c.id), c.color))}
+    </ScrollView>
+  );
+}
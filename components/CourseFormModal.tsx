@@ -0,0 +1,149 @@
+import { useEffect, useState } from "react";
+import { Modal, View, Text, TextInput, Pressable, KeyboardAvoidingView, Platform } from "react-native";
+import { Check } from "lucide-react-native";
+import { useThemeMode } from "@/theme/ThemeProvider";
+import ErrorBanner from "@/components/ErrorBanner";
+import * as api from "@/lib/apiClient";
+import type { Course } from "@/lib/apiClient";
+import { emit } from "@/lib/eventBus";
+import { COURSE_COLORS } from "@/lib/courses";
+
+/** Create a course, or edit one when `course` is passed */
+export default function CourseFormModal({
+  visible,
+  course,
+  onClose,
+  onSaved,
+}: {
+  visible: boolean;
+  course?: Course | null;
+  onClose: () => void;
+  onSaved?: (course: Course) => void;
+}) {
+  const { colors } = useThemeMode();
+  const [name, setName] = useState("");
+  const [color, setColor] = useState(COURSE_COLORS[0]);
+  const [examDate, setExamDate] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<any>(null);
+  const [fieldErrs, setFieldErrs] = useState<Record<string, string[]>>({});
+
+  useEffect(() => {
+    if (!visible) return;
+    setName(course?.name ?? "");
+    setColor(course?.color ?? COURSE_COLORS[0]);
+    setExamDate(course?.examDate?.slice(0, 10) ?? "");
+    setError(null);
+    setFieldErrs({});
+  }, [visible, course]);
+
+  async function onSubmit() {
+    const fe: Record<string, string[]> = {};
+    if (!name.trim()) fe.name = ["Name is required"];
+    if (examDate.trim() && !/^\d{4}-\d{2}-\d{2}$/.test(examDate.trim())) fe.examDate = ["Use YYYY-MM-DD"];
+    setFieldErrs(fe);
+    if (Object.keys(fe).length) return;
+
+    const input = { name: name.trim(), color, examDate: examDate.trim() || null };
+    try {
+      setSaving(true);
+      setError(null);
+      const json = course ? await api.updateCourse(course.id, input) : await api.createCourse(input);
+      emit("courses:changed", {});
+      if (json?.course) onSaved?.(json.course);
+      onClose();
+    } catch (e: any) {
+      console.error("Course save error", e);
+      setFieldErrs((e?.json ?? e)?.details?.fieldErrors ?? {});
+      setError(e);
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={saving ? undefined : onClose}>
+      <KeyboardAvoidingView
+        behavior={Platform.OS === "ios" ? "padding" : undefined}
+        className="flex-1 items-center justify-center px-6"
+        style={{ backgroundColor: "rgba(0,0,0,0.45)" }}
+      >
+        <View
+          className="w-full max-w-[480px] rounded-2xl border p-5"
+          style={{ backgroundColor: colors.card, borderColor: colors.grey4 }}
+        >
+          <Text className="text-xl font-semibold" style={{ color: colors.foreground }}>
+            {course ? "Edit course" : "New course"}
+          </Text>
+
+          <Text className="mt-4 mb-1 text-sm" style={{ color: colors.grey }}>
+            Name
+          </Text>
+          <TextInput
+            value={name}
+            onChangeText={setName}
+            autoFocus={!course}
+            placeholder="e.g. Biology 101"
+            placeholderTextColor="#9CA3AF"
+            className={`px-3 py-3 rounded-2xl border ${
+              fieldErrs.name ? "border-danger" : "border-light-border dark:border-dark-border"
+            } bg-light-surface dark:bg-dark-surface text-light-text dark:text-dark-text`}
+          />
+          {!!fieldErrs.name?.[0] && <Text className="mt-1 text-danger text-xs">{fieldErrs.name[0]}</Text>}
+
+          <Text className="mt-4 mb-1 text-sm" style={{ color: colors.grey }}>
+            Colour
+          </Text>
+          <View className="flex-row flex-wrap gap-2">
+            {COURSE_COLORS.map((c) => (
+              <Pressable
+                key={c}
+                onPress={() => setColor(c)}
+                accessibilityLabel={`Colour ${c}`}
+                className="items-center justify-center"
+                style={{ width: 32, height: 32, borderRadius: 16, backgroundColor: c }}
+              >
+                {color === c ? <Check size={16} color="#fff" /> : null}
+              </Pressable>
+            ))}
+          </View>
+
+          <Text className="mt-4 mb-1 text-sm" style={{ color: colors.grey }}>
+            Exam date (optional)
+          </Text>
+          <TextInput
+            value={examDate}
+            onChangeText={setExamDate}
+            placeholder="YYYY-MM-DD"
+            placeholderTextColor="#9CA3AF"
+            autoCapitalize="none"
+            keyboardType="numbers-and-punctuation"
+            className={`px-3 py-3 rounded-2xl border ${
+              fieldErrs.examDate ? "border-danger" : "border-light-border dark:border-dark-border"
+            } bg-light-surface dark:bg-dark-surface text-light-text dark:text-dark-text`}
+          />
+          {!!fieldErrs.examDate?.[0] && <Text className="mt-1 text-danger text-xs">{fieldErrs.examDate[0]}</Text>}
+
+          <ErrorBanner error={error} fallback="Couldn't save the course." />
+
+          <View className="mt-5 flex-row justify-end gap-2">
+            <Pressable
+              onPress={onClose}
+              disabled={saving}
+              className="px-4 py-2 rounded-2xl border border-light-border dark:border-dark-border"
+            >
+              <Text className="text-light-text dark:text-dark-text">Cancel</Text>
+            </Pressable>
+            <Pressable
+              onPress={onSubmit}
+              disabled={saving}
+              className={`px-4 py-2 rounded-2xl ${saving ? "bg-primary/60" : "bg-primary"}`}
+            >
+              <Text className="text-white font-semibold">{saving ? "Saving…" : course ? "Save" : "Create"}</Text>
+            </Pressable>
+          </View>
+        </View>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+}
@@ -0,0 +1,108 @@
+import { useState } from "react";
+import { Modal, View, Text, Pressable, ScrollView, Alert } from "react-native";
+import { Check } from "lucide-react-native";
+import { useThemeMode } from "@/theme/ThemeProvider";
+import * as api from "@/lib/apiClient";
+import { errorMessage, type Course, type Note } from "@/lib/apiClient";
+import { emit } from "@/lib/eventBus";
+
+/**
+ * Move a note into one of the user's courses (or out of all of them). With `bulk`
+ * the choice is handed back instead, for moving several notes at once.
+ */
+export default function CoursePickerModal({
+  note,
+  bulk,
+  courses,
+  onClose,
+}: {
+  note: Note | null;
+  bulk?: { count: number; onPick: (courseId: string | null) => void } | null;
+  courses: Course[];
+  onClose: () => void;
+}) {
+  const { colors } = useThemeMode();
+  const [saving, setSaving] = useState<string | null>(null);
+
+  async function pick(courseId: string | null) {
+    if (bulk) {
+      onClose();
+      return bulk.onPick(courseId);
+    }
+    if (!note) return;
+    if ((note.courseId ?? null) === courseId) return onClose();
+    try {
+      setSaving(courseId ?? "none");
+      await api.setNoteCourse(note.id, courseId);
+      emit("notes:changed", { noteId: note.id });
+      onClose();
+    } catch (e) {
+      console.error("Assign course error", e);
+      Alert.alert("Couldn't move note", errorMessage(e, "Please try again."));
+    } finally {
+      setSaving(null);
+    }
+  }
+
+  const row = (key: string, label: string, selected: boolean, onPress: () => void, dot?: string) => (
+    <Pressable
+      key={key}
+      onPress={onPress}
+      disabled={!!saving}
+      className="flex-row items-center gap-3 px-3 py-3 rounded-xl"
+      style={{ backgroundColor: selected ? colors.grey5 : "transparent" }}
+    >
+      <View
+        style={{
+          width: 12,
+          height: 12,
+          borderRadius: 6,
+          backgroundColor: dot ?? "transparent",
+          borderWidth: dot ? 0 : 1,
+          borderColor: colors.grey,
+        }}
+      />
+      <Text className="flex-1" style={{ color: colors.foreground }}>
+        {label}
+      </Text>
+      {saving === key ? (
+        <Text className="text-xs" style={{ color: colors.grey }}>
+          Saving…
+        </Text>
+      ) : selected ? (
+        <Check size={16} color={colors.primary} />
+      ) : null}
+    </Pressable>
+  );
+
+  return (
+    <Modal visible={!!note || !!bulk} transparent animationType="fade" onRequestClose={onClose}>
+      <Pressable
+        className="flex-1 items-center justify-center px-6"
+        style={{ backgroundColor: "rgba(0,0,0,0.45)" }}
+        onPress={saving ? undefined : onClose}
+      >
+        <Pressable
+          className="w-full max-w-[420px] rounded-2xl border p-5"
+          style={{ backgroundColor: colors.card, borderColor: colors.grey4 }}
+        >
+          <Text className="text-lg font-semibold" style={{ color: colors.foreground }}>
+            Move to course
+          </Text>
+          <Text numberOfLines={1} className="mt-1 mb-3 text-sm" style={{ color: colors.grey }}>
+            {bulk ? `${bulk.count} selected note${bulk.count === 1 ? "" : "s"}` : note?.title || "(untitled)"}
+          </Text>
+          <ScrollView style={{ maxHeight: 360 }}>
+            {row("none", "No course", !bulk && !note?.courseId, () => pick(null))}
+            {courses.map((c) => row(c.id, c.name, !bulk && note?.courseId === c.id, () => pick(c.id), c.color))}
+          </ScrollView>
+          {!courses.length ? (
+            <Text className="mt-2 text-xs" style={{ color: colors.grey }}>
+              You haven&apos;t created any courses yet — add one from the Courses page.
+            </Text>
+          ) : null}
+        </Pressable>
+      </Pressable>
+    </Modal>
+  );
+}
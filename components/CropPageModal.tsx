@@ -0,0 +1,218 @@
+import { useEffect, useState } from "react";
+import { Modal, View, Text, Pressable, Image, ActivityIndicator } from "react-native";
+import { useThemeMode } from "@/theme/ThemeProvider";
+import { NO_CROP, type CropInsets, type ScanPage } from "@/lib/scanPages";
+
+const STEP = 0.05;
+// never trim more than this off one edge, so there's always something left
+const MAX_INSET = 0.4;
+const PREVIEW_HEIGHT = 320;
+
+const EDGES: { key: keyof CropInsets; label: string }[] = [
+  { key: "top", label: "Top" },
+  { key: "bottom", label: "Bottom" },
+  { key: "left", label: "Left" },
+  { key: "right", label: "Right" },
+];
+
+/**
+ * Trim the edges of a scanned page (desk, fingers, the next page) and turn it
+ * upright. The preview shades what will be cut; `onApply` does the actual work.
+ */
+export default function CropPageModal({
+  page,
+  onClose,
+  onApply,
+}: {
+  page: ScanPage | null;
+  onClose: () => void;
+  onApply: (crop: CropInsets, quarterTurns: number) => Promise<void>;
+}) {
+  const { colors } = useThemeMode();
+  const [crop, setCrop] = useState<CropInsets>(NO_CROP);
+  const [turns, setTurns] = useState(0);
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    setCrop(NO_CROP);
+    setTurns(0);
+    setBusy(false);
+  }, [page?.id]);
+
+  function nudge(edge: keyof CropInsets, by: number) {
+    setCrop((c) => ({ ...c, [edge]: Math.min(MAX_INSET, Math.max(0, Math.round((c[edge] + by) * 100) / 100)) }));
+  }
+
+  async function apply() {
+    setBusy(true);
+    try {
+      await onApply(crop, turns);
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  if (!page) return null;
+
+  // the preview rotates as a whole, so the shaded insets are laid out on the rotated frame
+  const rotated = turns % 2 === 1;
+  const aspect = rotated ? page.height / page.width : page.width / page.height;
+  const previewWidth = Math.min(PREVIEW_HEIGHT * aspect, 420);
+  const previewHeight = previewWidth / aspect;
+  const shade = "rgba(0,0,0,0.55)";
+  const changed = turns % 4 !== 0 || EDGES.some((e) => crop[e.key] > 0);
+
+  return (
+    <Modal visible transparent animationType="fade" onRequestClose={onClose}>
+      <View className="flex-1 items-center justify-center px-6" style={{ backgroundColor: "rgba(0,0,0,0.45)" }}>
+        <View
+          className="w-full max-w-[480px] rounded-2xl border p-5"
+          style={{ backgroundColor: colors.card, borderColor: colors.grey4 }}
+        >
+          <Text className="text-xl font-semibold" style={{ color: colors.foreground }}>
+            Crop page
+          </Text>
+
+          <View className="mt-3 items-center">
+            <View style={{ width: previewWidth, height: previewHeight, overflow: "hidden" }}>
+              <Image
+                source={{ uri: page.uri }}
+                resizeMode="contain"
+                style={{
+                  position: "absolute",
+                  width: rotated ? previewHeight : previewWidth,
+                  height: rotated ? previewWidth : previewHeight,
+                  left: rotated ? (previewWidth - previewHeight) / 2 : 0,
+                  top: rotated ? (previewHeight - previewWidth) / 2 : 0,
+                  transform: [{ rotate: `${(turns % 4) * 90}deg` }],
+                }}
+              />
+              <View
+                style={{
+                  position: "absolute",
+                  left: 0,
+                  right: 0,
+                  top: 0,
+                  height: `${crop.top * 100}%`,
+                  backgroundColor: shade,
+                }}
+              />
+              <View
+                style={{
+                  position: "absolute",
+                  left: 0,
+                  right: 0,
+                  bottom: 0,
+                  height: `${crop.bottom * 100}%`,
+                  backgroundColor: shade,
+                }}
+              />
+              <View
+                style={{
+                  position: "absolute",
+                  left: 0,
+                  width: `${crop.left * 100}%`,
+                  top: `${crop.top * 100}%`,
+                  bottom: `${crop.bottom * 100}%`,
+                  backgroundColor: shade,
+                }}
+              />
+              <View
+                style={{
+                  position: "absolute",
+                  right: 0,
+                  width: `${crop.right * 100}%`,
+                  top: `${crop.top * 100}%`,
+                  bottom: `${crop.bottom * 100}%`,
+                  backgroundColor: shade,
+                }}
+              />
+            </View>
+          </View>
+
+          <View className="mt-4 flex-row flex-wrap gap-3">
+            {EDGES.map((e) => (
+              <View key={e.key} className="flex-row items-center gap-2" style={{ width: "47%" }}>
+                <Text className="flex-1" style={{ color: colors.foreground }}>
+                  {e.label} {Math.round(crop[e.key] * 100)}%
+                </Text>
+                <Stepper
+                  label="−"
+                  colors={colors}
+                  disabled={busy || crop[e.key] <= 0}
+                  onPress={() => nudge(e.key, -STEP)}
+                />
+                <Stepper
+                  label="+"
+                  colors={colors}
+                  disabled={busy || crop[e.key] >= MAX_INSET}
+                  onPress={() => nudge(e.key, STEP)}
+                />
+              </View>
+            ))}
+          </View>
+
+          <View className="mt-5 flex-row items-center gap-2">
+            <Pressable
+              onPress={() => setTurns((t) => (t + 1) % 4)}
+              disabled={busy}
+              className="px-4 py-2 rounded-2xl border border-light-border dark:border-dark-border"
+            >
+              <Text className="text-light-text dark:text-dark-text">Rotate</Text>
+            </Pressable>
+            <Pressable
+              onPress={() => {
+                setCrop(NO_CROP);
+                setTurns(0);
+              }}
+              disabled={busy || !changed}
+              className="px-3 py-2"
+            >
+              <Text style={{ color: changed ? colors.primary : colors.grey }}>Reset</Text>
+            </Pressable>
+            <View className="flex-1" />
+            <Pressable
+              onPress={onClose}
+              disabled={busy}
+              className="px-4 py-2 rounded-2xl border border-light-border dark:border-dark-border"
+            >
+              <Text className="text-light-text dark:text-dark-text">Cancel</Text>
+            </Pressable>
+            <Pressable
+              onPress={apply}
+              disabled={busy || !changed}
+              className={`px-4 py-2 rounded-2xl items-center justify-center ${
+                busy || !changed ? "bg-primary/60" : "bg-primary"
+              }`}
+            >
+              {busy ? <ActivityIndicator color="#fff" /> : <Text className="text-white font-semibold">Apply</Text>}
+            </Pressable>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+function Stepper({
+  label,
+  colors,
+  disabled,
+  onPress,
+}: {
+  label: string;
+  colors: any;
+  disabled: boolean;
+  onPress: () => void;
+}) {
+  return (
+    <Pressable
+      onPress={onPress}
+      disabled={disabled}
+      className="h-8 w-8 rounded-xl items-center justify-center border"
+      style={{ borderColor: colors.grey4, opacity: disabled ? 0.4 : 1 }}
+    >
+      <Text style={{ color: colors.foreground }}>{label}</Text>
+    </Pressable>
+  );
+}
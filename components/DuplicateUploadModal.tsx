@@ -0,0 +1,76 @@
+import { Modal, View, Text, Pressable, ScrollView } from "react-native";
+import { useThemeMode } from "@/theme/ThemeProvider";
+import type { Note } from "@/lib/apiClient";
+
+export type DuplicateUpload = { name: string; existing: Note };
+
+/** Picked files that were uploaded before: open the existing note, skip them, or upload again */
+export default function DuplicateUploadModal({
+  duplicates,
+  onOpen,
+  onSkip,
+  onUploadAnyway,
+}: {
+  duplicates: DuplicateUpload[];
+  onOpen: (note: Note) => void;
+  onSkip: () => void;
+  onUploadAnyway: () => void;
+}) {
+  const { colors } = useThemeMode();
+  const many = duplicates.length > 1;
+
+  return (
+    <Modal visible={duplicates.length > 0} transparent animationType="fade" onRequestClose={onSkip}>
+      <View className="flex-1 items-center justify-center px-6" style={{ backgroundColor: "rgba(0,0,0,0.45)" }}>
+        <View
+          className="w-full max-w-[480px] rounded-2xl border p-5"
+          style={{ backgroundColor: colors.card, borderColor: colors.grey4 }}
+        >
+          <Text className="text-xl font-semibold" style={{ color: colors.foreground }}>
+            Already uploaded
+          </Text>
+          <Text className="mt-1 text-sm" style={{ color: colors.grey }}>
+            {many
+              ? `${duplicates.length} of these files are already in your notes.`
+              : "This file is already in your notes."}
+          </Text>
+
+          <ScrollView className="mt-3" style={{ maxHeight: 300 }}>
+            {duplicates.map((d) => (
+              <View key={`${d.name}-${d.existing.id}`} className="py-2 flex-row items-center gap-3">
+                <View className="flex-1">
+                  <Text numberOfLines={1} style={{ color: colors.foreground }}>
+                    {d.name}
+                  </Text>
+                  <Text numberOfLines={1} className="text-xs" style={{ color: colors.grey }}>
+                    Saved as “{d.existing.title || "(untitled)"}” ·{" "}
+                    {new Date(d.existing.createdAt).toLocaleDateString()}
+                  </Text>
+                </View>
+                <Pressable
+                  onPress={() => onOpen(d.existing)}
+                  className="px-3 py-2 rounded-xl"
+                  style={{ borderWidth: 1, borderColor: colors.grey4 }}
+                >
+                  <Text style={{ color: colors.primary }}>Open existing</Text>
+                </Pressable>
+              </View>
+            ))}
+          </ScrollView>
+
+          <View className="mt-5 flex-row justify-end gap-2">
+            <Pressable
+              onPress={onSkip}
+              className="px-4 py-2 rounded-2xl border border-light-border dark:border-dark-border"
+            >
+              <Text className="text-light-text dark:text-dark-text">{many ? "Skip these" : "Skip"}</Text>
+            </Pressable>
+            <Pressable onPress={onUploadAnyway} className="px-4 py-2 rounded-2xl bg-primary">
+              <Text className="text-white font-semibold">Upload anyway</Text>
+            </Pressable>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+}
@@ -0,0 +1,94 @@
+import { useState } from "react";
+import { Modal, View, Text, Pressable, ActivityIndicator, Alert, Platform } from "react-native";
+import { FileDown, FileText, FileType, Globe } from "lucide-react-native";
+import { useThemeMode } from "@/theme/ThemeProvider";
+import { errorMessage } from "@/lib/apiClient";
+import type { SummaryVersion } from "@/lib/summaries";
+import { EXPORT_FORMATS, exportSummary, type ExportFormat } from "@/lib/summaryExport";
+
+const ICONS: Record<ExportFormat, typeof FileText> = {
+  markdown: FileType,
+  text: FileText,
+  html: Globe,
+  pdf: FileDown,
+};
+
+/** Format picker for sharing (native) or downloading (web) one summary version */
+export default function ExportSummaryModal({
+  title,
+  version,
+  onClose,
+}: {
+  title: string;
+  version: SummaryVersion | null;
+  onClose: () => void;
+}) {
+  const { colors } = useThemeMode();
+  const [busy, setBusy] = useState<ExportFormat | null>(null);
+
+  async function run(format: ExportFormat) {
+    if (!version) return;
+    try {
+      setBusy(format);
+      await exportSummary(format, { title, version });
+      onClose();
+    } catch (e) {
+      console.error("Export summary error", e);
+      Alert.alert("Export failed", errorMessage(e, "Could not export the summary."));
+    } finally {
+      setBusy(null);
+    }
+  }
+
+  return (
+    <Modal visible={!!version} transparent animationType="fade" onRequestClose={busy ? undefined : onClose}>
+      <Pressable
+        className="flex-1 items-center justify-center px-6"
+        style={{ backgroundColor: "rgba(0,0,0,0.45)" }}
+        onPress={busy ? undefined : onClose}
+      >
+        <Pressable
+          className="w-full max-w-[420px] rounded-2xl border p-5"
+          style={{ backgroundColor: colors.card, borderColor: colors.grey4 }}
+        >
+          <Text className="text-lg font-semibold" style={{ color: colors.foreground }}>
+            {Platform.OS === "web" ? "Download summary" : "Share summary"}
+          </Text>
+          <Text numberOfLines={1} className="mt-1 mb-3 text-sm" style={{ color: colors.grey }}>
+            {title}
+          </Text>
+          {EXPORT_FORMATS.map((f) => {
+            const Icon = ICONS[f.value];
+            return (
+              <Pressable
+                key={f.value}
+                onPress={() => run(f.value)}
+                disabled={!!busy}
+                className="flex-row items-center gap-3 px-3 py-3 rounded-xl"
+                style={{ opacity: busy && busy !== f.value ? 0.5 : 1 }}
+              >
+                <Icon size={20} color={colors.foreground} />
+                <View className="flex-1">
+                  <Text className="font-semibold" style={{ color: colors.foreground }}>
+                    {f.label}
+                  </Text>
+                  <Text className="text-xs" style={{ color: colors.grey }}>
+                    {f.hint}
+                  </Text>
+                </View>
+                {busy === f.value ? <ActivityIndicator size="small" /> : null}
+              </Pressable>
+            );
+          })}
+          <Pressable
+            onPress={onClose}
+            disabled={!!busy}
+            className="mt-3 self-end px-4 py-2 rounded-2xl border border-light-border dark:border-dark-border"
+          >
+            <Text className="text-light-text dark:text-dark-text">Cancel</Text>
+          </Pressable>
+        </Pressable>
+      </Pressable>
+    </Modal>
+  );
+}
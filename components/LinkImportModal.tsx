@@ -0,0 +1,200 @@
+import { useEffect, useState } from "react";
+import { Modal, View, Text, TextInput, Pressable, ActivityIndicator, KeyboardAvoidingView, Platform } from "react-native";
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { Check, Link2, Youtube } from "lucide-react-native";
+import { useThemeMode } from "@/theme/ThemeProvider";
+import ErrorBanner from "@/components/ErrorBanner";
+import * as api from "@/lib/apiClient";
+import { emit } from "@/lib/eventBus";
+import { runIndexJob } from "@/lib/indexJobs";
+import { parseLink } from "@/lib/links";
+
+const LAST_INDEXED_KEY = "last-indexed-note-id";
+
+type Step = "idle" | "extracting" | "indexing" | "done";
+
+const STEPS: { key: Exclude<Step, "idle">; label: (youtube: boolean) => string }[] = [
+  { key: "extracting", label: (yt) => (yt ? "Fetching the video transcript" : "Fetching and extracting the article") },
+  { key: "indexing", label: () => "Indexing for the tutor and study tools" },
+  { key: "done", label: () => "Ready" },
+];
+
+/**
+ * "Paste link" sheet on the Notes screen. Creates a LINK note, then indexes it
+ * the same way uploads are auto-indexed, and reports the new note id.
+ */
+export default function LinkImportModal({
+  visible,
+  courseId = null,
+  onClose,
+  onImported,
+}: {
+  visible: boolean;
+  courseId?: string | null; // file the imported note under this course
+  onClose: () => void;
+  onImported: (noteId: string) => void;
+}) {
+  const { colors } = useThemeMode();
+  const [input, setInput] = useState("");
+  const [step, setStep] = useState<Step>("idle");
+  const [error, setError] = useState<any>(null);
+  const [urlErr, setUrlErr] = useState<string | null>(null);
+  const [elapsed, setElapsed] = useState(0);
+
+  const parsed = parseLink(input);
+  const busy = step === "extracting" || step === "indexing";
+
+  useEffect(() => {
+    if (!visible) {
+      setInput("");
+      setStep("idle");
+      setError(null);
+      setUrlErr(null);
+    }
+  }, [visible]);
+
+  // extraction has no server-side progress, so show how long it's been going
+  useEffect(() => {
+    if (step !== "extracting") return;
+    setElapsed(0);
+    const t = setInterval(() => setElapsed((s) => s + 1), 1000);
+    return () => clearInterval(t);
+  }, [step]);
+
+  async function onSubmit() {
+    setError(null);
+    setUrlErr(null);
+    if (!parsed) {
+      setUrlErr("Paste a full web or YouTube link.");
+      return;
+    }
+
+    let noteId: string | undefined;
+    try {
+      setStep("extracting");
+      const json = await api.importLink(parsed.url, parsed.kind, courseId);
+      noteId = json?.note?.id;
+      if (!noteId) throw new Error("The server didn't return the imported note.");
+      emit("notes:changed", { noteId });
+    } catch (e: any) {
+      console.error("Link import error", e);
+      const fe = (e?.json ?? e)?.details?.fieldErrors ?? {};
+      setUrlErr(fe.url?.[0] ?? null);
+      setError(e);
+      setStep("idle");
+      return;
+    }
+
+    try {
+      setStep("indexing");
+      await runIndexJob(noteId);
+      await AsyncStorage.setItem(LAST_INDEXED_KEY, noteId).catch(() => {});
+    } catch (e) {
+      // imported fine; indexing can be retried from the note card
+      console.error("Auto-indexing error", e);
+    }
+    setStep("done");
+    onImported(noteId);
+  }
+
+  const activeIndex = STEPS.findIndex((s) => s.key === step);
+  const isYoutube = parsed?.kind === "youtube";
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={busy ? undefined : onClose}>
+      <KeyboardAvoidingView
+        behavior={Platform.OS === "ios" ? "padding" : undefined}
+        className="flex-1 items-center justify-center px-6"
+        style={{ backgroundColor: "rgba(0,0,0,0.45)" }}
+      >
+        <View
+          className="w-full max-w-[480px] rounded-2xl border p-5"
+          style={{ backgroundColor: colors.card, borderColor: colors.grey4 }}
+        >
+          <Text className="text-xl font-semibold" style={{ color: colors.foreground }}>
+            Import from a link
+          </Text>
+          <Text className="mt-1 text-sm" style={{ color: colors.grey }}>
+            Paste a web article or a YouTube video. We&apos;ll pull out the text so you can summarise it, chat about
+            it and make flashcards.
+          </Text>
+
+          <View
+            className={`mt-4 flex-row items-center gap-2 px-3 rounded-2xl border ${
+              urlErr ? "border-danger" : "border-light-border dark:border-dark-border"
+            } bg-light-surface dark:bg-dark-surface`}
+          >
+            {isYoutube ? <Youtube size={18} color={colors.grey} /> : <Link2 size={18} color={colors.grey} />}
+            <TextInput
+              value={input}
+              onChangeText={(t) => {
+                setInput(t);
+                if (urlErr) setUrlErr(null);
+              }}
+              onSubmitEditing={onSubmit}
+              editable={!busy && step !== "done"}
+              autoCapitalize="none"
+              autoCorrect={false}
+              keyboardType="url"
+              autoFocus
+              placeholder="https://…"
+              placeholderTextColor="#9CA3AF"
+              className="flex-1 py-3 text-light-text dark:text-dark-text"
+            />
+          </View>
+          {!!urlErr && <Text className="mt-1 text-danger text-xs">{urlErr}</Text>}
+          {parsed && step === "idle" ? (
+            <Text className="mt-1 text-xs" style={{ color: colors.grey }}>
+              {isYoutube ? "YouTube video · transcript import" : "Web page · article import"}
+            </Text>
+          ) : null}
+
+          {/* Progress */}
+          {step !== "idle" ? (
+            <View className="mt-4 gap-2">
+              {STEPS.map((s, i) => {
+                const state = i < activeIndex || step === "done" ? "done" : i === activeIndex ? "active" : "todo";
+                return (
+                  <View key={s.key} className="flex-row items-center gap-2">
+                    {state === "done" ? (
+                      <Check size={16} color={colors.primary} />
+                    ) : state === "active" ? (
+                      <ActivityIndicator size="small" />
+                    ) : (
+                      <View style={{ width: 16, height: 16, borderRadius: 8, borderWidth: 1, borderColor: colors.grey4 }} />
+                    )}
+                    <Text style={{ color: state === "todo" ? colors.grey : colors.foreground }}>
+                      {s.label(isYoutube)}
+                      {state === "active" && s.key === "extracting" && elapsed > 0 ? ` · ${elapsed}s` : ""}
+                    </Text>
+                  </View>
+                );
+              })}
+            </View>
+          ) : null}
+
+          <ErrorBanner error={error} fallback="Couldn't import that link." />
+
+          <View className="mt-5 flex-row justify-end gap-2">
+            <Pressable
+              onPress={onClose}
+              disabled={busy}
+              className={`px-4 py-2 rounded-2xl border border-light-border dark:border-dark-border ${busy ? "opacity-60" : ""}`}
+            >
+              <Text className="text-light-text dark:text-dark-text">{step === "done" ? "Close" : "Cancel"}</Text>
+            </Pressable>
+            {step !== "done" ? (
+              <Pressable
+                onPress={onSubmit}
+                disabled={busy || !input.trim()}
+                className={`px-4 py-2 rounded-2xl ${busy || !input.trim() ? "bg-primary/60" : "bg-primary"}`}
+              >
+                <Text className="text-white font-semibold">{busy ? "Importing…" : "Import"}</Text>
+              </Pressable>
+            ) : null}
+          </View>
+        </View>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+}
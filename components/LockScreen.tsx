@@ -0,0 +1,129 @@
+import { useEffect, useState } from "react";
+import { Text, TextInput, Pressable, ActivityIndicator, Image, KeyboardAvoidingView, Platform } from "react-native";
+import { Fingerprint } from "lucide-react-native";
+import { useAppLock } from "@/providers/AppLockProvider";
+import { useThemeMode } from "@/theme/ThemeProvider";
+import { images } from "@/constants/images";
+import { confirmAction } from "@/lib/confirm";
+import { FREE_PIN_ATTEMPTS, getPinLockout, pinFailureMessage, type PinLockout } from "@/lib/appLock";
+
+export default function LockScreen() {
+  const { settings, canUseBiometrics, unlockWithPin, unlockWithBiometrics, resetLock } = useAppLock();
+  const { colors } = useThemeMode();
+
+  const [pin, setPin] = useState("");
+  const [err, setErr] = useState<string | null>(null);
+  const [lockout, setLockout] = useState<PinLockout>({ failures: 0, retryAt: null });
+  const [now, setNow] = useState(Date.now());
+  const [checking, setChecking] = useState(false);
+
+  const bioEnabled = settings.useBiometrics && canUseBiometrics;
+  const waiting = !!lockout.retryAt && lockout.retryAt > now;
+
+  // the count survives restarts, so a wait that was running still applies
+  useEffect(() => {
+    void getPinLockout().then(setLockout);
+  }, []);
+
+  // tick the countdown while a wait is running
+  useEffect(() => {
+    if (!waiting) return;
+    const t = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(t);
+  }, [waiting]);
+
+  // Offer biometrics straight away; PIN entry stays available if it's dismissed
+  useEffect(() => {
+    if (bioEnabled) void unlockWithBiometrics();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  async function onSubmit() {
+    if (!pin || checking || waiting) return;
+    setChecking(true);
+    setErr(null);
+    try {
+      const check = await unlockWithPin(pin);
+      if (!check.ok) {
+        setLockout(check);
+        setNow(Date.now());
+        setErr(check.retryAt ? null : pinFailureMessage(check));
+        setPin("");
+      }
+    } finally {
+      setChecking(false);
+    }
+  }
+
+  function onForgot() {
+    confirmAction(
+      "Forgot PIN?",
+      "You'll be signed out on this device and the app lock will be turned off.",
+      "Sign out",
+      () => void resetLock()
+    );
+  }
+
+  return (
+    <KeyboardAvoidingView
+      behavior={Platform.OS === "ios" ? "padding" : undefined}
+      className="flex-1 items-center justify-center px-8 bg-light-bg dark:bg-dark-bg"
+    >
+      <Image source={images.smartAiLogo} style={{ width: 56, height: 56, resizeMode: "contain" }} />
+      <Text className="mt-4 text-2xl font-bold text-light-text dark:text-dark-text">Smart AI Buddy is locked</Text>
+      <Text className="mt-1 text-center text-light-subtext dark:text-dark-subtext">
+        Enter your app PIN{bioEnabled ? " or use biometrics" : ""} to continue.
+      </Text>
+
+      <TextInput
+        value={pin}
+        onChangeText={(t) => {
+          setPin(t.replace(/\D/g, ""));
+          if (err) setErr(null);
+        }}
+        onSubmitEditing={onSubmit}
+        editable={!waiting}
+        secureTextEntry
+        keyboardType="number-pad"
+        maxLength={6}
+        autoFocus={!bioEnabled}
+        placeholder="PIN"
+        placeholderTextColor="#9CA3AF"
+        className={`mt-6 w-full px-4 py-3 rounded-2xl text-center text-lg tracking-widest bg-light-surface dark:bg-dark-surface text-light-text dark:text-dark-text border ${
+          err ? "border-danger" : "border-light-border dark:border-dark-border"
+        }`}
+      />
+      {waiting ? (
+        <Text className="mt-2 text-danger text-xs">{pinFailureMessage(lockout, now)}</Text>
+      ) : err ? (
+        <Text className="mt-2 text-danger text-xs">{err}</Text>
+      ) : null}
+
+      <Pressable
+        onPress={onSubmit}
+        disabled={!pin || checking || waiting}
+        className={`mt-4 w-full h-12 rounded-2xl bg-primary items-center justify-center ${
+          pin && !waiting ? "" : "opacity-60"
+        }`}
+      >
+        {checking ? <ActivityIndicator /> : <Text className="text-white font-semibold">Unlock</Text>}
+      </Pressable>
+
+      {bioEnabled ? (
+        <Pressable
+          onPress={() => void unlockWithBiometrics()}
+          className="mt-3 w-full h-12 rounded-2xl border border-light-border dark:border-dark-border flex-row items-center justify-center gap-2"
+        >
+          <Fingerprint size={18} color={colors.foreground} />
+          <Text className="text-light-text dark:text-dark-text">Use biometrics</Text>
+        </Pressable>
+      ) : null}
+
+      {lockout.failures >= FREE_PIN_ATTEMPTS ? (
+        <Pressable onPress={onForgot} className="mt-6">
+          <Text className="text-sm text-light-subtext dark:text-dark-subtext underline">Forgot PIN? Sign out</Text>
+        </Pressable>
+      ) : null}
+    </KeyboardAvoidingView>
+  );
+}
@@ -0,0 +1,160 @@
+import { useEffect, useState } from "react";
+import { Modal, View, Text, TextInput, Pressable, ScrollView, KeyboardAvoidingView, Platform } from "react-native";
+import { useThemeMode } from "@/theme/ThemeProvider";
+import ErrorBanner from "@/components/ErrorBanner";
+import * as api from "@/lib/apiClient";
+import type { Course, Note } from "@/lib/apiClient";
+import { emit } from "@/lib/eventBus";
+import { MAX_DESCRIPTION_LENGTH, MAX_TITLE_LENGTH } from "@/lib/noteFilters";
+
+/** Edit a note's title, description and course without touching its text */
+export default function NoteDetailsModal({
+  note,
+  courses,
+  onClose,
+}: {
+  note: Note | null;
+  courses: Course[];
+  onClose: () => void;
+}) {
+  const { colors } = useThemeMode();
+  const [title, setTitle] = useState("");
+  const [description, setDescription] = useState("");
+  const [courseId, setCourseId] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<any>(null);
+  const [fieldErrs, setFieldErrs] = useState<Record<string, string[]>>({});
+
+  useEffect(() => {
+    if (!note) return;
+    setTitle(note.title ?? "");
+    setDescription(note.description ?? "");
+    setCourseId(note.courseId ?? null);
+    setError(null);
+    setFieldErrs({});
+  }, [note]);
+
+  async function onSave() {
+    if (!note) return;
+    const fe: Record<string, string[]> = {};
+    if (!title.trim()) fe.title = ["Title is required"];
+    else if (title.trim().length > MAX_TITLE_LENGTH) fe.title = [`Keep the title under ${MAX_TITLE_LENGTH} characters`];
+    if (description.trim().length > MAX_DESCRIPTION_LENGTH) {
+      fe.description = [`Keep the description under ${MAX_DESCRIPTION_LENGTH} characters`];
+    }
+    setFieldErrs(fe);
+    if (Object.keys(fe).length) return;
+
+    try {
+      setSaving(true);
+      setError(null);
+      await api.updateNote(note.id, { title: title.trim(), description: description.trim() || null, courseId });
+      emit("notes:changed", { noteId: note.id });
+      onClose();
+    } catch (e: any) {
+      console.error("Save note details error", e);
+      setFieldErrs((e?.json ?? e)?.details?.fieldErrors ?? {});
+      setError(e);
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  const chip = (key: string, label: string, active: boolean, onPress: () => void, dot?: string) => (
+    <Pressable
+      key={key}
+      onPress={onPress}
+      className="flex-row items-center gap-1.5 px-3 py-1.5 rounded-full border"
+      style={{
+        borderColor: active ? colors.primary : colors.grey4,
+        backgroundColor: active ? colors.primary : "transparent",
+      }}
+    >
+      {dot ? <View style={{ width: 8, height: 8, borderRadius: 4, backgroundColor: dot }} /> : null}
+      <Text className="text-xs font-semibold" style={{ color: active ? "#fff" : colors.foreground }}>
+        {label}
+      </Text>
+    </Pressable>
+  );
+
+  return (
+    <Modal visible={!!note} transparent animationType="fade" onRequestClose={saving ? undefined : onClose}>
+      <KeyboardAvoidingView
+        behavior={Platform.OS === "ios" ? "padding" : undefined}
+        className="flex-1 items-center justify-center px-6"
+        style={{ backgroundColor: "rgba(0,0,0,0.45)" }}
+      >
+        <View
+          className="w-full max-w-[480px] rounded-2xl border p-5"
+          style={{ backgroundColor: colors.card, borderColor: colors.grey4 }}
+        >
+          <Text className="text-xl font-semibold" style={{ color: colors.foreground }}>
+            Note details
+          </Text>
+
+          <Text className="mt-4 mb-1 text-sm" style={{ color: colors.grey }}>
+            Title
+          </Text>
+          <TextInput
+            value={title}
+            onChangeText={setTitle}
+            maxLength={MAX_TITLE_LENGTH}
+            placeholder="Note title"
+            placeholderTextColor="#9CA3AF"
+            className={`px-3 py-3 rounded-2xl border ${
+              fieldErrs.title ? "border-danger" : "border-light-border dark:border-dark-border"
+            } bg-light-surface dark:bg-dark-surface text-light-text dark:text-dark-text`}
+          />
+          {!!fieldErrs.title?.[0] && <Text className="mt-1 text-danger text-xs">{fieldErrs.title[0]}</Text>}
+
+          <Text className="mt-4 mb-1 text-sm" style={{ color: colors.grey }}>
+            Description (optional)
+          </Text>
+          <TextInput
+            value={description}
+            onChangeText={setDescription}
+            multiline
+            maxLength={MAX_DESCRIPTION_LENGTH}
+            placeholder="What is this note about?"
+            placeholderTextColor="#9CA3AF"
+            style={{ minHeight: 80, textAlignVertical: "top" }}
+            className={`px-3 py-3 rounded-2xl border ${
+              fieldErrs.description ? "border-danger" : "border-light-border dark:border-dark-border"
+            } bg-light-surface dark:bg-dark-surface text-light-text dark:text-dark-text`}
+          />
+          {!!fieldErrs.description?.[0] && (
+            <Text className="mt-1 text-danger text-xs">{fieldErrs.description[0]}</Text>
+          )}
+
+          <Text className="mt-4 mb-1 text-sm" style={{ color: colors.grey }}>
+            Course
+          </Text>
+          <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={{ gap: 8 }}>
+            {chip("none", "No course", !courseId, () => setCourseId(null))}
+            {courses.map((c) => chip(c.id, c.name, courseId === c.id, () => setCourseId(c.id), c.color))}
+          </ScrollView>
+          {!!fieldErrs.courseId?.[0] && <Text className="mt-1 text-danger text-xs">{fieldErrs.courseId[0]}</Text>}
+
+          <ErrorBanner error={error} fallback="Couldn't save the note." />
+
+          <View className="mt-5 flex-row justify-end gap-2">
+            <Pressable
+              onPress={onClose}
+              disabled={saving}
+              className="px-4 py-2 rounded-2xl border border-light-border dark:border-dark-border"
+            >
+              <Text className="text-light-text dark:text-dark-text">Cancel</Text>
+            </Pressable>
+            <Pressable
+              onPress={onSave}
+              disabled={saving}
+              className={`px-4 py-2 rounded-2xl ${saving ? "bg-primary/60" : "bg-primary"}`}
+            >
+              <Text className="text-white font-semibold">{saving ? "Saving…" : "Save"}</Text>
+            </Pressable>
+          </View>
+        </View>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+}
@@ -0,0 +1,78 @@
+import { ScrollView, Pressable, Text } from "react-native";
+import { ArrowUpDown, Star } from "lucide-react-native";
+import { useThemeMode } from "@/theme/ThemeProvider";
+import { SORT_LABEL, type NoteSort } from "@/lib/noteFilters";
+
+export type NoteFilterValue = { tag: string | null; favouritesOnly: boolean; sort: NoteSort };
+
+export const DEFAULT_NOTE_FILTER: NoteFilterValue = { tag: null, favouritesOnly: false, sort: "newest" };
+
+const SORTS = Object.keys(SORT_LABEL) as NoteSort[];
+
+/** Favourites toggle, sort order (tap to cycle) and one chip per tag */
+export default function NoteFilterBar({
+  tags,
+  value,
+  onChange,
+  className = "",
+}: {
+  tags: string[];
+  value: NoteFilterValue;
+  onChange: (next: NoteFilterValue) => void;
+  className?: string;
+}) {
+  const { colors } = useThemeMode();
+
+  const chipStyle = (active: boolean) => ({
+    borderColor: active ? colors.primary : colors.grey4,
+    backgroundColor: active ? colors.primary : colors.card,
+  });
+  const textColor = (active: boolean) => (active ? "#fff" : colors.foreground);
+
+  return (
+    <ScrollView
+      horizontal
+      showsHorizontalScrollIndicator={false}
+      className={className}
+      contentContainerStyle={{ gap: 8 }}
+    >
+      <Pressable
+        onPress={() => onChange({ ...value, favouritesOnly: !value.favouritesOnly })}
+        accessibilityLabel="Only favourites"
+        className="flex-row items-center gap-1.5 px-3 py-1.5 rounded-full border"
+        style={chipStyle(value.favouritesOnly)}
+      >
+        <Star size={12} color={textColor(value.favouritesOnly)} fill={value.favouritesOnly ? "#fff" : "transparent"} />
+        <Text className="text-xs font-semibold" style={{ color: textColor(value.favouritesOnly) }}>
+          Favourites
+        </Text>
+      </Pressable>
+      <Pressable
+        onPress={() => onChange({ ...value, sort: SORTS[(SORTS.indexOf(value.sort) + 1) % SORTS.length] })}
+        accessibilityLabel={`Sort: ${SORT_LABEL[value.sort]}`}
+        className="flex-row items-center gap-1.5 px-3 py-1.5 rounded-full border"
+        style={chipStyle(false)}
+      >
+        <ArrowUpDown size={12} color={colors.foreground} />
+        <Text className="text-xs font-semibold" style={{ color: colors.foreground }}>
+          {SORT_LABEL[value.sort]}
+        </Text>
+      </Pressable>
+      {tags.map((t) => {
+        const active = value.tag === t;
+        return (
+          <Pressable
+            key={t}
+            onPress={() => onChange({ ...value, tag: active ? null : t })}
+            className="px-3 py-1.5 rounded-full border"
+            style={chipStyle(active)}
+          >
+            <Text className="text-xs font-semibold" style={{ color: textColor(active) }}>
+              #{t}
+            </Text>
+          </Pressable>
+        );
+      })}
+    </ScrollView>
+  );
+}
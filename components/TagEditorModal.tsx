@@ -0,0 +1,153 @@
+import { useEffect, useState } from "react";
+import { Modal, View, Text, TextInput, Pressable, KeyboardAvoidingView, Platform } from "react-native";
+import { X } from "lucide-react-native";
+import { useThemeMode } from "@/theme/ThemeProvider";
+import ErrorBanner from "@/components/ErrorBanner";
+import * as api from "@/lib/apiClient";
+import type { Note } from "@/lib/apiClient";
+import { emit } from "@/lib/eventBus";
+import { MAX_TAGS, normalizeTag } from "@/lib/noteFilters";
+
+/** Add/remove free-form tags on a note; `suggestions` are tags already used elsewhere */
+export default function TagEditorModal({
+  note,
+  suggestions,
+  onClose,
+}: {
+  note: Note | null;
+  suggestions: string[];
+  onClose: () => void;
+}) {
+  const { colors } = useThemeMode();
+  const [tags, setTags] = useState<string[]>([]);
+  const [input, setInput] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<any>(null);
+
+  useEffect(() => {
+    if (!note) return;
+    setTags(note.tags ?? []);
+    setInput("");
+    setError(null);
+  }, [note]);
+
+  function add(raw: string) {
+    const t = normalizeTag(raw);
+    setInput("");
+    if (!t || tags.includes(t) || tags.length >= MAX_TAGS) return;
+    setTags([...tags, t]);
+  }
+
+  async function onSave() {
+    if (!note) return;
+    // keep whatever is still in the input box
+    const next = input.trim() ? [...new Set([...tags, normalizeTag(input)])].filter(Boolean) : tags;
+    try {
+      setSaving(true);
+      setError(null);
+      await api.updateNote(note.id, { tags: next.slice(0, MAX_TAGS) });
+      emit("notes:changed", { noteId: note.id });
+      onClose();
+    } catch (e) {
+      console.error("Save tags error", e);
+      setError(e);
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  const unused = suggestions.filter((s) => !tags.includes(s)).slice(0, 12);
+
+  return (
+    <Modal visible={!!note} transparent animationType="fade" onRequestClose={saving ? undefined : onClose}>
+      <KeyboardAvoidingView
+        behavior={Platform.OS === "ios" ? "padding" : undefined}
+        className="flex-1 items-center justify-center px-6"
+        style={{ backgroundColor: "rgba(0,0,0,0.45)" }}
+      >
+        <View
+          className="w-full max-w-[480px] rounded-2xl border p-5"
+          style={{ backgroundColor: colors.card, borderColor: colors.grey4 }}
+        >
+          <Text className="text-xl font-semibold" style={{ color: colors.foreground }}>
+            Tags
+          </Text>
+          <Text numberOfLines={1} className="mt-1 text-sm" style={{ color: colors.grey }}>
+            {note?.title || "(untitled)"}
+          </Text>
+
+          <View className="mt-4 flex-row flex-wrap gap-2">
+            {tags.map((t) => (
+              <Pressable
+                key={t}
+                onPress={() => setTags(tags.filter((x) => x !== t))}
+                accessibilityLabel={`Remove tag ${t}`}
+                className="flex-row items-center gap-1 px-3 py-1.5 rounded-full"
+                style={{ backgroundColor: colors.primary }}
+              >
+                <Text className="text-xs font-semibold text-white">#{t}</Text>
+                <X size={12} color="#fff" />
+              </Pressable>
+            ))}
+            {!tags.length ? (
+              <Text className="text-xs" style={{ color: colors.grey }}>
+                No tags yet.
+              </Text>
+            ) : null}
+          </View>
+
+          <TextInput
+            value={input}
+            onChangeText={(t) => (t.endsWith(",") ? add(t.slice(0, -1)) : setInput(t))}
+            onSubmitEditing={() => add(input)}
+            editable={tags.length < MAX_TAGS}
+            blurOnSubmit={false}
+            autoFocus
+            autoCapitalize="none"
+            autoCorrect={false}
+            returnKeyType="done"
+            placeholder={tags.length < MAX_TAGS ? "Add a tag and press enter" : `Up to ${MAX_TAGS} tags`}
+            placeholderTextColor="#9CA3AF"
+            className="mt-3 px-3 py-3 rounded-2xl border border-light-border dark:border-dark-border bg-light-surface dark:bg-dark-surface text-light-text dark:text-dark-text"
+          />
+
+          {unused.length ? (
+            <View className="mt-3 flex-row flex-wrap gap-2">
+              {unused.map((t) => (
+                <Pressable
+                  key={t}
+                  onPress={() => add(t)}
+                  className="px-3 py-1.5 rounded-full border"
+                  style={{ borderColor: colors.grey4 }}
+                >
+                  <Text className="text-xs" style={{ color: colors.foreground }}>
+                    + #{t}
+                  </Text>
+                </Pressable>
+              ))}
+            </View>
+          ) : null}
+
+          <ErrorBanner error={error} fallback="Couldn't save the tags." />
+
+          <View className="mt-5 flex-row justify-end gap-2">
+            <Pressable
+              onPress={onClose}
+              disabled={saving}
+              className="px-4 py-2 rounded-2xl border border-light-border dark:border-dark-border"
+            >
+              <Text className="text-light-text dark:text-dark-text">Cancel</Text>
+            </Pressable>
+            <Pressable
+              onPress={onSave}
+              disabled={saving}
+              className={`px-4 py-2 rounded-2xl ${saving ? "bg-primary/60" : "bg-primary"}`}
+            >
+              <Text className="text-white font-semibold">{saving ? "Saving…" : "Save"}</Text>
+            </Pressable>
+          </View>
+        </View>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+}
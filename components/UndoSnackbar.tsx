@@ -0,0 +1,58 @@
+import { useEffect } from "react";
+import { View, Text, Pressable } from "react-native";
+import { useThemeMode } from "@/theme/ThemeProvider";
+
+const DEFAULT_DURATION_MS = 5000;
+
+/**
+ * A short-lived bar with an Undo button. Calls `onHide` once it times out or
+ * after Undo; a new `message` restarts the timer.
+ */
+export default function UndoSnackbar({
+  message,
+  bottom,
+  duration = DEFAULT_DURATION_MS,
+  onUndo,
+  onHide,
+}: {
+  message: string | null;
+  bottom: number;
+  duration?: number;
+  onUndo: () => void;
+  onHide: () => void;
+}) {
+  const { colors } = useThemeMode();
+
+  useEffect(() => {
+    if (!message) return;
+    const t = setTimeout(onHide, duration);
+    return () => clearTimeout(t);
+  }, [message, duration, onHide]);
+
+  if (!message) return null;
+
+  return (
+    <View pointerEvents="box-none" className="absolute left-0 right-0 items-center px-6" style={{ bottom }}>
+      <View
+        className="w-full max-w-[480px] flex-row items-center gap-3 rounded-2xl px-4 py-3"
+        style={{ backgroundColor: colors.foreground }}
+      >
+        <Text numberOfLines={2} className="flex-1" style={{ color: colors.card }}>
+          {message}
+        </Text>
+        <Pressable
+          onPress={() => {
+            onHide();
+            onUndo();
+          }}
+          hitSlop={8}
+          accessibilityRole="button"
+        >
+          <Text className="font-semibold" style={{ color: colors.primary }}>
+            Undo
+          </Text>
+        </Pressable>
+      </View>
+    </View>
+  );
+}
@@ -0,0 +1,109 @@
+import { View, Text, Pressable, ActivityIndicator } from "react-native";
+import { X } from "lucide-react-native";
+import { useThemeMode } from "@/theme/ThemeProvider";
+import type { UploadJob, UploadSummary } from "@/lib/uploadQueue";
+
+const STATUS_LABEL: Record<UploadJob["status"], string> = {
+  queued: "Waiting…",
+  uploading: "Uploading",
+  indexing: "Indexing…",
+  done: "Done",
+  failed: "Failed",
+  cancelled: "Cancelled",
+  offline: "Offline",
+};
+
+function formatSize(bytes?: number | null) {
+  if (!bytes) return "";
+  if (bytes < 1024 * 1024) return `${Math.max(1, Math.round(bytes / 1024))} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+/** Per-file progress rows for a multi-file upload, with a summary once the batch settles */
+export default function UploadProgressList({
+  jobs,
+  summary,
+  onCancel,
+  onCancelAll,
+  onDismiss,
+}: {
+  jobs: UploadJob[];
+  summary: UploadSummary | null;
+  onCancel: (id: string) => void;
+  onCancelAll: () => void;
+  onDismiss: () => void;
+}) {
+  const { colors } = useThemeMode();
+  const cancellable = jobs.filter((j) => j.status === "queued" || j.status === "uploading").length;
+
+  return (
+    <View className="mt-3 rounded-2xl border p-3 gap-3" style={{ backgroundColor: colors.card, borderColor: colors.grey4 }}>
+      <View className="flex-row items-center justify-between">
+        <Text className="text-sm font-semibold" style={{ color: colors.foreground }}>
+          {summary ? "Upload finished" : `Uploading ${jobs.length} file${jobs.length === 1 ? "" : "s"}`}
+        </Text>
+        {summary ? (
+          <Pressable onPress={onDismiss} className="px-2 py-1">
+            <Text style={{ color: colors.primary }}>Dismiss</Text>
+          </Pressable>
+        ) : cancellable > 1 ? (
+          <Pressable onPress={onCancelAll} className="px-2 py-1">
+            <Text style={{ color: colors.destructive }}>Cancel all</Text>
+          </Pressable>
+        ) : null}
+      </View>
+
+      {summary ? (
+        <Text className="text-xs" style={{ color: colors.grey }}>
+          {[
+            `${summary.uploaded} uploaded`,
+            summary.indexFailed ? `${summary.indexFailed} not indexed` : null,
+            summary.failed ? `${summary.failed} failed` : null,
+            summary.cancelled ? `${summary.cancelled} cancelled` : null,
+            summary.offline ? `${summary.offline} waiting for connection` : null,
+          ]
+            .filter(Boolean)
+            .join(" · ")}
+        </Text>
+      ) : null}
+
+      {jobs.map((job) => {
+        const failed = job.status === "failed" || job.indexFailed;
+        const barColor = failed ? colors.destructive : job.status === "cancelled" ? colors.grey : colors.primary;
+        return (
+          <View key={job.id} className="gap-1">
+            <View className="flex-row items-center gap-2">
+              <Text numberOfLines={1} className="flex-1" style={{ color: colors.foreground }}>
+                {job.name}
+              </Text>
+              <Text className="text-xs" style={{ color: failed ? colors.destructive : colors.grey }}>
+                {job.status === "uploading" ? `${Math.round(job.progress * 100)}%` : STATUS_LABEL[job.status]}
+                {job.size ? ` · ${formatSize(job.size)}` : ""}
+              </Text>
+              {job.status === "indexing" ? <ActivityIndicator size="small" /> : null}
+              {job.status === "queued" || job.status === "uploading" ? (
+                <Pressable onPress={() => onCancel(job.id)} hitSlop={8} accessibilityLabel={`Cancel ${job.name}`}>
+                  <X size={16} color={colors.grey} />
+                </Pressable>
+              ) : null}
+            </View>
+            <View className="h-1.5 rounded-full overflow-hidden" style={{ backgroundColor: colors.grey4 }}>
+              <View
+                className="h-full rounded-full"
+                style={{
+                  width: `${Math.round((job.status === "done" ? 1 : job.progress) * 100)}%`,
+                  backgroundColor: barColor,
+                }}
+              />
+            </View>
+            {job.error ? (
+              <Text numberOfLines={2} className="text-xs" style={{ color: failed ? colors.destructive : colors.grey }}>
+                {job.error}
+              </Text>
+            ) : null}
+          </View>
+        );
+      })}
+    </View>
+  );
+}
@@ -0,0 +1,22 @@
+import { View, Text, Pressable } from "react-native";
+import { useRouter } from "expo-router";
+import { useAuth } from "@/providers/AuthProvider";
+
+/** Inline banner for screens whose actions are locked until the email is verified */
+export default function VerifyEmailNotice({ feature = "this feature" }: { feature?: string }) {
+  const { needsVerification } = useAuth();
+  const router = useRouter();
+
+  if (!needsVerification) return null;
+
+  return (
+    <View className="mt-3 rounded-2xl border border-primary/30 bg-primary/10 px-4 py-3 flex-row items-center">
+      <Text className="flex-1 text-light-text dark:text-dark-text">
+        Verify your email to use {feature}.
+      </Text>
+      <Pressable onPress={() => router.push("/verify-email")} className="ml-3 px-3 py-1 rounded-xl bg-primary">
+        <Text className="text-white font-semibold text-sm">Verify</Text>
+      </Pressable>
+    </View>
+  );
+}
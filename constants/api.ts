@@ -19,8 +19,27 @@ export function getApiBase(): string {
 }
 
 export const API_BASE = getApiBase();
+/** EXPO_PUBLIC_API_URL=mock: requests are answered in-process by lib/mockBackend.ts */
+export const USE_MOCK_API = API_BASE === "mock";
+
+/**
+ * fetch(), or the in-process mock in mock mode. The mock is only loaded behind a
+ * literal check of the inlined env var, so release builds fold it away and
+ * lib/mockBackend.ts (demo accounts included) never ships.
+ */
+export async function backendFetch(url: string, init?: RequestInit): Promise<Response> {
+  if (process.env.EXPO_PUBLIC_API_URL === "mock") {
+    // require rather than a top-level import: that would bundle the mock unconditionally
+    // eslint-disable-next-line @typescript-eslint/no-require-imports
+    const { mockFetch }: typeof import("@/lib/mockBackend") = require("@/lib/mockBackend");
+    return mockFetch(url, init);
+  }
+  return fetch(url, init);
+}
+
 export async function getHealth() {
-  const r = await fetch(`${API_BASE}/health`);
+  const url = `${API_BASE}/health`;
+  const r = await backendFetch(url);
   if (!r.ok) throw new Error(`HTTP ${r.status}`);
   return r.json();
 }
\ No newline at end of file
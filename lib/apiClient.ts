@@ -0,0 +1,726 @@
+import { Platform } from "react-native";
+import { fetch as streamingFetch } from "expo/fetch";
+import { getItem, setItem, deleteItem } from "@/lib/secureStorage";
+import { USE_MOCK_API, backendFetch, getApiBase } from "@/constants/api";
+import { emit } from "@/lib/eventBus";
+
+// ---------- Shared API types ----------
+export type Note = {
+  id: string;
+  userId: string;
+  title: string;
+  description?: string | null;
+  source: "MANUAL" | "UPLOAD" | "LINK";
+  rawText: string;
+  extractedText?: string | null;
+  courseId?: string | null;
+  tags?: string[];
+  favorite?: boolean;
+  indexStatus?: IndexStatus;
+  indexError?: string | null;
+  indexJobId?: string | null;
+  createdAt: string;
+  updatedAt?: string;
+};
+
+// "none" = never indexed (or the text changed since); the rest mirror the latest index job
+export type IndexStatus = "none" | "queued" | "indexing" | "failed" | "ready";
+
+export type IndexJob = {
+  id: string;
+  noteId: string;
+  status: "queued" | "running" | "done" | "failed";
+  progress: number; // 0..1
+  chunks?: number;
+  error?: string | null;
+};
+
+export type Course = {
+  id: string;
+  name: string;
+  color: string; // hex, e.g. "#6366F1"
+  examDate?: string | null; // ISO date (YYYY-MM-DD)
+  createdAt: string;
+};
+
+export type ApiCard = { q?: string; a?: string; front?: string; back?: string };
+
+export type ApiQuestion = {
+  question?: string;
+  choices?: string[];
+  answer_index?: number;
+  explanation?: string;
+};
+
+export type UploadAsset = { uri: string; name?: string | null; mimeType?: string | null };
+
+/**
+ * Single error type for every API call. `json` is the parsed response body so
+ * callers (and <ErrorBanner />) can read `error`, `message` and zod `details`.
+ */
+export class ApiError extends Error {
+  status: number;
+  json: any;
+
+  constructor(message: string, status: number, json: any = {}) {
+    super(message);
+    this.name = "ApiError";
+    this.status = status;
+    this.json = json;
+  }
+}
+
+/** Best human-readable message for an error thrown by this module */
+export function errorMessage(e: unknown, fallback: string): string {
+  if (e instanceof ApiError) {
+    return typeof e.json?.error === "string" ? e.json.error : fallback;
+  }
+  return (e as any)?.message || fallback;
+}
+
+// ---------- Config ----------
+export const API_BASE = getApiBase();
+export const AUTH_BASE = `${API_BASE}/api/auth`;
+
+/** fetch() for backend requests; in mock mode the in-process stand-in answers instead */
+export function apiFetch(url: string, init?: RequestInit): Promise<Response> {
+  return backendFetch(url, init);
+}
+
+// ---------- Token keys + in-memory shadow ----------
+const ACCESS_KEY = "accessToken";
+const REFRESH_KEY = "refreshToken";
+
+// Refresh this long before the access token's `exp` so requests never start with a dead token
+export const TOKEN_REFRESH_SKEW_MS = 60_000;
+
+let accessTokenMem: string | null = null;
+let refreshTokenMem: string | null = null;
+let refreshInFlight: Promise<string> | null = null;
+
+export async function getTokens() {
+  if (!accessTokenMem) accessTokenMem = await getItem(ACCESS_KEY);
+  if (!refreshTokenMem) refreshTokenMem = await getItem(REFRESH_KEY);
+  return { accessToken: accessTokenMem, refreshToken: refreshTokenMem };
+}
+
+export async function setTokens(a: string | null, r: string | null) {
+  accessTokenMem = a;
+  refreshTokenMem = r;
+
+  if (a) await setItem(ACCESS_KEY, a);
+  else await deleteItem(ACCESS_KEY);
+
+  if (r) await setItem(REFRESH_KEY, r);
+  else await deleteItem(REFRESH_KEY);
+
+  emit("auth:tokens", { expiresAt: tokenExpiry(a) });
+}
+
+/** Drop the in-memory copies so the next read goes back to secure storage (app lock) */
+export function clearTokenCache() {
+  accessTokenMem = null;
+  refreshTokenMem = null;
+}
+
+/** `exp` claim of a JWT in epoch ms, or null if the token is missing/opaque */
+export function tokenExpiry(token: string | null): number | null {
+  if (!token) return null;
+  try {
+    const part = token.split(".")[1];
+    if (!part) return null;
+    const b64 = part.replace(/-/g, "+").replace(/_/g, "/");
+    const payload = JSON.parse(atob(b64.padEnd(Math.ceil(b64.length / 4) * 4, "=")));
+    return typeof payload?.exp === "number" ? payload.exp * 1000 : null;
+  } catch {
+    return null;
+  }
+}
+
+// ---------- Refresh + authenticated fetch ----------
+export async function refreshAccessToken(): Promise<string> {
+  const { refreshToken } = await getTokens();
+  if (!refreshToken) throw new ApiError("UNAUTHORIZED", 401);
+
+  if (refreshInFlight) return refreshInFlight;
+
+  refreshInFlight = (async () => {
+    const res = await apiFetch(`${AUTH_BASE}/refresh`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ refreshToken }),
+    });
+    const json = await res.json().catch(() => ({}));
+    if (!res.ok || !json?.accessToken) {
+      await setTokens(null, null);
+      refreshInFlight = null;
+      emit("auth:expired", {});
+      throw new ApiError("UNAUTHORIZED", 401, json);
+    }
+    await setTokens(json.accessToken, refreshToken);
+    refreshInFlight = null;
+    return json.accessToken as string;
+  })();
+
+  try {
+    return await refreshInFlight;
+  } finally {
+    refreshInFlight = null;
+  }
+}
+
+/**
+ * Access token that is valid for at least TOKEN_REFRESH_SKEW_MS, refreshing first
+ * if it is about to expire. Network failures fall back to the current token so
+ * the request itself can still go through the 401 path.
+ */
+export async function ensureFreshAccessToken(): Promise<string | null> {
+  const { accessToken, refreshToken } = await getTokens();
+  const exp = tokenExpiry(accessToken);
+  if (!refreshToken || exp === null || exp - Date.now() > TOKEN_REFRESH_SKEW_MS) {
+    return accessToken;
+  }
+  try {
+    return await refreshAccessToken();
+  } catch (e) {
+    if (e instanceof ApiError) return null;
+    return (await getTokens()).accessToken;
+  }
+}
+
+function buildHeaders(init: RequestInit, accessToken: string | null) {
+  // Let fetch set the multipart boundary itself for FormData bodies
+  const isForm = typeof FormData !== "undefined" && init.body instanceof FormData;
+  return {
+    ...(isForm ? {} : { "Content-Type": "application/json" }),
+    ...((init.headers as Record<string, string>) || {}),
+    ...(accessToken ? { Authorization: `Bearer ${accessToken}` } : {}),
+  };
+}
+
+export async function authFetch<T>(path: string, init: RequestInit = {}, retry = true): Promise<T> {
+  const accessToken = await ensureFreshAccessToken();
+  const headers = buildHeaders(init, accessToken);
+
+  const res = await apiFetch(`${API_BASE}${path}`, { ...init, headers });
+  if (res.status !== 401) {
+    const json = (await res.json().catch(() => ({}))) as T;
+    if (!res.ok) throw new ApiError("Request failed", res.status, json);
+    return json;
+  }
+
+  if (!retry) {
+    const json = await res.json().catch(() => ({}));
+    throw new ApiError("UNAUTHORIZED", 401, json);
+  }
+
+  const newAccess = await refreshAccessToken();
+  const res2 = await apiFetch(`${API_BASE}${path}`, {
+    ...init,
+    headers: { ...headers, Authorization: `Bearer ${newAccess}` },
+  });
+  const json2 = (await res2.json().catch(() => ({}))) as T;
+  if (!res2.ok) throw new ApiError("Request failed", res2.status, json2);
+  return json2;
+}
+
+// ---------- Notes ----------
+export function listNotes(): Promise<Note[]> {
+  return authFetch<Note[]>(`/api/notes`, { method: "GET" });
+}
+
+export function getNote(noteId: string): Promise<{ note?: Note }> {
+  return authFetch<{ note?: Note }>(`/api/notes/${noteId}`, { method: "GET" });
+}
+
+export type NoteInput = { title: string; rawText: string; courseId?: string | null };
+
+/** Create a note written in the app (source MANUAL) */
+export function createNote(d: NoteInput): Promise<{ note?: Note }> {
+  return authFetch<{ note?: Note }>(`/api/notes`, {
+    method: "POST",
+    body: JSON.stringify({ ...d, source: "MANUAL" }),
+  });
+}
+
+/** Anything a PATCH can change; fields left out stay as they are */
+export type NoteUpdate = {
+  title?: string;
+  rawText?: string;
+  description?: string | null;
+  courseId?: string | null;
+  tags?: string[];
+  favorite?: boolean;
+};
+
+export function updateNote(noteId: string, d: NoteUpdate): Promise<{ note?: Note }> {
+  return authFetch<{ note?: Note }>(`/api/notes/${noteId}`, {
+    method: "PATCH",
+    body: JSON.stringify(d),
+  });
+}
+
+/** Move a note into a course, or out of any course with `null` */
+export function setNoteCourse(noteId: string, courseId: string | null): Promise<{ note?: Note }> {
+  return updateNote(noteId, { courseId });
+}
+
+/**
+ * Create a LINK note from a web article or YouTube video; the server fetches the
+ * page (or transcript) and stores the extracted text. Can take a while.
+ */
+export function importLink(
+  url: string,
+  kind: "youtube" | "article",
+  courseId?: string | null
+): Promise<{ note?: Note }> {
+  return authFetch<{ note?: Note }>(`/api/uploads/link`, {
+    method: "POST",
+    body: JSON.stringify({ url, kind, ...(courseId ? { courseId } : {}) }),
+  });
+}
+
+// web-only file conversion
+async function webFileFromUri(uri: string, name: string, mime?: string | null): Promise<File> {
+  const resp = await fetch(uri);
+  const blob = await resp.blob();
+  const filename = name || "upload";
+  const type = mime || blob.type || "application/octet-stream";
+  return new File([blob], filename, { type });
+}
+
+/** Add a file field to a multipart body; handles the web File vs native { uri } shapes */
+async function appendFile(form: FormData, field: string, asset: UploadAsset) {
+  if (Platform.OS === "web") {
+    const file = await webFileFromUri(asset.uri, asset.name || "upload", asset.mimeType);
+    form.append(field, file);
+  } else {
+    form.append(field, {
+      // @ts-ignore react-native FormData shim
+      uri: asset.uri,
+      name: asset.name || "upload",
+      type: asset.mimeType || "application/octet-stream",
+    });
+  }
+}
+
+/** Multipart body with one file field */
+export async function formDataWithFile(field: string, asset: UploadAsset): Promise<FormData> {
+  const form = new FormData();
+  await appendFile(form, field, asset);
+  return form;
+}
+
+export async function uploadNote(
+  asset: UploadAsset,
+  courseId?: string | null,
+  contentHash?: string | null
+): Promise<{ note?: Note }> {
+  const form = await formDataWithFile("file", asset);
+  if (courseId) form.append("courseId", courseId);
+  if (contentHash) form.append("contentHash", contentHash);
+  return authFetch<{ note?: Note }>(`/api/uploads`, { method: "POST", body: form });
+}
+
+/** Existing notes uploaded from files with these content hashes, keyed by hash */
+export async function findNotesByHash(hashes: string[]): Promise<Record<string, Note>> {
+  if (!hashes.length) return {};
+  const json = await authFetch<{ matches?: Record<string, Note> }>(`/api/uploads/check`, {
+    method: "POST",
+    body: JSON.stringify({ hashes }),
+  });
+  return json?.matches ?? {};
+}
+
+function abortError() {
+  const e = new Error("Aborted");
+  e.name = "AbortError";
+  return e;
+}
+
+// fetch() can't report upload progress, so multipart uploads with a progress bar go through XHR
+function xhrUpload(
+  url: string,
+  form: FormData,
+  token: string | null,
+  onProgress?: (fraction: number) => void,
+  signal?: AbortSignal
+): Promise<{ status: number; json: any }> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(abortError());
+    const xhr = new XMLHttpRequest();
+    xhr.open("POST", url);
+    if (token) xhr.setRequestHeader("Authorization", `Bearer ${token}`);
+    xhr.upload.onprogress = (e) => {
+      if (e.lengthComputable && e.total > 0) onProgress?.(e.loaded / e.total);
+    };
+    xhr.onload = () => {
+      let json: any = {};
+      try {
+        json = JSON.parse(xhr.responseText || "{}");
+      } catch {}
+      resolve({ status: xhr.status, json });
+    };
+    // same error type fetch uses for "no connection", so callers can treat both alike
+    xhr.onerror = () => reject(new TypeError("Network request failed"));
+    xhr.onabort = () => reject(abortError());
+    signal?.addEventListener("abort", () => xhr.abort());
+    xhr.send(form);
+  });
+}
+
+/**
+ * uploadNote with progress (0..1) and cancellation. Rejects with an AbortError
+ * when `signal` aborts. The server's processing time after the last byte isn't
+ * covered by the progress callback.
+ */
+export async function uploadNoteWithProgress(
+  asset: UploadAsset,
+  opts: {
+    onProgress?: (fraction: number) => void;
+    signal?: AbortSignal;
+    courseId?: string | null;
+    contentHash?: string | null;
+  } = {}
+): Promise<{ note?: Note }> {
+  const { onProgress, signal, courseId, contentHash } = opts;
+  const form = await formDataWithFile("file", asset);
+  if (courseId) form.append("courseId", courseId);
+  if (contentHash) form.append("contentHash", contentHash);
+  return postFormWithProgress<{ note?: Note }>(`/api/uploads`, form, onProgress, signal);
+}
+
+async function postFormWithProgress<T>(
+  path: string,
+  form: FormData,
+  onProgress?: (fraction: number) => void,
+  signal?: AbortSignal
+): Promise<T> {
+  if (USE_MOCK_API) {
+    // no real bytes to send: tick the bar so the UI behaves like a real upload
+    for (let p = 0.1; p < 1; p += 0.15) {
+      if (signal?.aborted) throw abortError();
+      onProgress?.(p);
+      await new Promise((r) => setTimeout(r, 120 + Math.random() * 200));
+    }
+    onProgress?.(1);
+    return authFetch<T>(path, { method: "POST", body: form, signal });
+  }
+
+  const url = `${API_BASE}${path}`;
+  let res = await xhrUpload(url, form, await ensureFreshAccessToken(), onProgress, signal);
+  if (res.status === 401) {
+    onProgress?.(0);
+    res = await xhrUpload(url, form, await refreshAccessToken(), onProgress, signal);
+  }
+  if (res.status < 200 || res.status >= 300) throw new ApiError("Request failed", res.status, res.json);
+  return res.json;
+}
+
+/**
+ * Upload photographed pages (in order) as one note; the server runs OCR over them
+ * before answering, so expect a wait after the progress bar reaches the end.
+ */
+export async function uploadScan(
+  pages: UploadAsset[],
+  opts: {
+    title?: string;
+    courseId?: string | null;
+    onProgress?: (fraction: number) => void;
+    signal?: AbortSignal;
+  } = {}
+): Promise<{ note?: Note }> {
+  const { title, courseId, onProgress, signal } = opts;
+  const form = new FormData();
+  for (const page of pages) await appendFile(form, "pages", page);
+  if (title?.trim()) form.append("title", title.trim());
+  if (courseId) form.append("courseId", courseId);
+  return postFormWithProgress<{ note?: Note }>(`/api/uploads/scan`, form, onProgress, signal);
+}
+
+const INDEX_POLL_MS = 1000;
+const INDEX_TIMEOUT_MS = 5 * 60 * 1000;
+
+/** Queue an embedding job for a note (restarts it if the last one failed). */
+export async function startIndexJob(noteId: string): Promise<IndexJob> {
+  const json = await authFetch<{ job?: IndexJob; chunks?: number }>(`/api/embeddings/index/${noteId}`, {
+    method: "POST",
+  });
+  // older servers index synchronously and answer with the chunk count straight away
+  if (!json.job) return { id: "", noteId, status: "done", progress: 1, chunks: json.chunks };
+  return json.job;
+}
+
+export async function getIndexJob(jobId: string): Promise<IndexJob> {
+  const json = await authFetch<{ job: IndexJob }>(`/api/embeddings/jobs/${jobId}`);
+  return json.job;
+}
+
+/**
+ * Poll a job until it finishes. Resolves with the chunk count, rejects with the
+ * job's error when it fails, or with an AbortError when `signal` aborts.
+ */
+export async function waitForIndexJob(
+  job: IndexJob,
+  opts: { onProgress?: (job: IndexJob) => void; signal?: AbortSignal } = {}
+): Promise<{ chunks?: number }> {
+  const { onProgress, signal } = opts;
+  const started = Date.now();
+  onProgress?.(job);
+  while (job.status === "queued" || job.status === "running") {
+    if (signal?.aborted) throw abortError();
+    if (Date.now() - started > INDEX_TIMEOUT_MS) {
+      throw new Error("Indexing is taking longer than expected. Check back in a bit.");
+    }
+    await new Promise((r) => setTimeout(r, INDEX_POLL_MS));
+    job = await getIndexJob(job.id);
+    onProgress?.(job);
+  }
+  if (job.status === "failed") throw new Error(job.error || "Indexing failed");
+  return { chunks: job.chunks };
+}
+
+export async function indexNote(
+  noteId: string,
+  opts: { onProgress?: (job: IndexJob) => void; signal?: AbortSignal } = {}
+): Promise<{ chunks?: number }> {
+  return waitForIndexJob(await startIndexJob(noteId), opts);
+}
+
+/** Moves the note to the trash; it can be restored until the server purges it */
+export async function deleteNote(noteId: string): Promise<void> {
+  await authFetch(`/api/notes/${noteId}`, { method: "DELETE" });
+}
+
+// ---------- Trash ----------
+export type TrashedNote = Note & { deletedAt: string; purgeAt: string };
+
+export function listTrash(): Promise<{ notes: TrashedNote[]; retentionDays?: number }> {
+  return authFetch<{ notes: TrashedNote[]; retentionDays?: number }>(`/api/trash`);
+}
+
+export function restoreNote(noteId: string): Promise<{ note?: Note }> {
+  return authFetch<{ note?: Note }>(`/api/trash/${noteId}/restore`, { method: "POST" });
+}
+
+/** Permanently deletes a trashed note and its upload */
+export async function purgeNote(noteId: string): Promise<void> {
+  await authFetch(`/api/trash/${noteId}`, { method: "DELETE" });
+}
+
+export function emptyTrash(): Promise<{ purged?: string[] }> {
+  return authFetch<{ purged?: string[] }>(`/api/trash`, { method: "DELETE" });
+}
+
+// ---------- Courses ----------
+export type CourseInput = { name: string; color: string; examDate?: string | null };
+
+export function listCourses(): Promise<Course[]> {
+  return authFetch<Course[]>(`/api/courses`, { method: "GET" });
+}
+
+export function createCourse(d: CourseInput): Promise<{ course?: Course }> {
+  return authFetch<{ course?: Course }>(`/api/courses`, { method: "POST", body: JSON.stringify(d) });
+}
+
+export function updateCourse(courseId: string, d: Partial<CourseInput>): Promise<{ course?: Course }> {
+  return authFetch<{ course?: Course }>(`/api/courses/${courseId}`, {
+    method: "PATCH",
+    body: JSON.stringify(d),
+  });
+}
+
+/** Notes in the course are kept and become unassigned */
+export async function deleteCourse(courseId: string): Promise<void> {
+  await authFetch(`/api/courses/${courseId}`, { method: "DELETE" });
+}
+
+// ---------- AI ----------
+export type SummaryStyle = "bullet" | "paragraph" | "outline" | "key-terms";
+export type SummaryLength = "short" | "medium" | "long";
+
+export function summarize(
+  noteId: string,
+  opts: { style: SummaryStyle; length: SummaryLength }
+): Promise<{ summary?: string }> {
+  return authFetch<{ summary?: string }>(`/api/notes/${noteId}/summary`, {
+    method: "POST",
+    body: JSON.stringify(opts),
+  });
+}
+
+/** Returns the raw chat payload; its shape varies by backend model */
+export function chat(noteId: string, message: string): Promise<unknown> {
+  return authFetch<unknown>(`/api/chat`, {
+    method: "POST",
+    body: JSON.stringify({ noteId, message }),
+  });
+}
+
+/** Robustly extract a reply string from many common API payload shapes */
+export function extractReply(payload: any): string | null {
+  if (!payload) return null;
+
+  if (typeof payload === "string") return payload.trim() || null;
+
+  // flat fields
+  const flat =
+    payload.reply ??
+    payload.message ??
+    payload.answer ??
+    payload.text ??
+    payload.content;
+  if (typeof flat === "string" && flat.trim()) return flat.trim();
+
+  // nested common containers
+  const d = payload.data || payload.result || payload.response || {};
+  const nested =
+    d.reply ?? d.message ?? d.answer ?? d.text ?? d.content;
+  if (typeof nested === "string" && nested.trim()) return nested.trim();
+
+  // OpenAI chat / responses-like
+  const choice = payload.choices?.[0];
+  const openaiMsg = choice?.message?.content ?? choice?.text;
+  if (typeof openaiMsg === "string" && openaiMsg.trim()) return openaiMsg.trim();
+
+  // Gemini-ish candidates
+  const parts = payload.candidates?.[0]?.content?.parts;
+  if (Array.isArray(parts)) {
+    const joined = parts
+      .map((p: any) => p?.text)
+      .filter(Boolean)
+      .join("\n")
+      .trim();
+    if (joined) return joined;
+  }
+
+  // LangChain-ish
+  const lc =
+    payload.output_text ??
+    payload.output ??
+    payload.generations?.[0]?.[0]?.text;
+  if (typeof lc === "string" && lc.trim()) return lc.trim();
+
+  return null;
+}
+
+export type ChatStreamResult =
+  | { streamed: true; text: string }
+  | { streamed: false; payload: unknown };
+
+/**
+ * Pull the text delta out of one SSE `data:` payload. Servers either send raw
+ * text or small JSON frames ({ delta }, { token }, { text }, OpenAI-style choices).
+ */
+function sseDelta(data: string): string {
+  try {
+    const frame = JSON.parse(data);
+    if (typeof frame === "string") return frame;
+    const d =
+      frame?.delta ??
+      frame?.token ??
+      frame?.text ??
+      frame?.content ??
+      frame?.choices?.[0]?.delta?.content;
+    return typeof d === "string" ? d : "";
+  } catch {
+    return data;
+  }
+}
+
+/**
+ * Streams a tutor reply, calling `onDelta` with each new piece of text.
+ * Handles SSE and plain chunked text; if the backend answers with ordinary JSON
+ * the payload is returned untouched so the caller can parse it.
+ * Aborting `signal` stops reading and resolves with the text received so far.
+ */
+export async function chatStream(
+  noteId: string,
+  message: string,
+  onDelta: (delta: string) => void,
+  signal?: AbortSignal
+): Promise<ChatStreamResult> {
+  const init = {
+    method: "POST",
+    body: JSON.stringify({ noteId, message, stream: true }),
+    headers: { Accept: "text/event-stream, text/plain, application/json" },
+  };
+
+  const send = async (token: string | null) => {
+    const req = { ...init, headers: buildHeaders(init, token), signal };
+    // the mock answers with plain JSON, which takes the non-streaming path below
+    return USE_MOCK_API ? apiFetch(`${API_BASE}/api/chat`, req) : streamingFetch(`${API_BASE}/api/chat`, req);
+  };
+
+  let res = await send(await ensureFreshAccessToken());
+  if (res.status === 401) res = await send(await refreshAccessToken());
+
+  const type = res.headers.get("content-type") || "";
+  if (!res.ok || type.includes("application/json") || !res.body) {
+    const json = await res.json().catch(() => ({}));
+    if (!res.ok) throw new ApiError("Request failed", res.status, json);
+    return { streamed: false, payload: json };
+  }
+
+  const isSse = type.includes("text/event-stream");
+  const reader = res.body.getReader();
+  const decoder = new TextDecoder();
+  let text = "";
+  let buffered = "";
+
+  const push = (delta: string) => {
+    if (!delta) return;
+    text += delta;
+    onDelta(delta);
+  };
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      const chunk = decoder.decode(value, { stream: true });
+      if (!isSse) {
+        push(chunk);
+        continue;
+      }
+
+      // SSE: events are separated by a blank line; keep the trailing partial event
+      buffered += chunk;
+      const events = buffered.split(/\r?\n\r?\n/);
+      buffered = events.pop() ?? "";
+      for (const evt of events) {
+        const data = evt
+          .split(/\r?\n/)
+          .filter((l) => l.startsWith("data:"))
+          .map((l) => l.slice(5).replace(/^ /, ""))
+          .join("\n");
+        if (!data) continue;
+        if (data === "[DONE]") return { streamed: true, text };
+        push(sseDelta(data));
+      }
+    }
+  } catch (e) {
+    if (!signal?.aborted) throw e;
+  } finally {
+    reader.releaseLock?.();
+  }
+
+  return { streamed: true, text };
+}
+
+export function flashcards(noteId: string, opts: { count: number }): Promise<{ cards?: ApiCard[] }> {
+  return authFetch<{ cards?: ApiCard[] }>(`/api/notes/${noteId}/flashcards`, {
+    method: "POST",
+    body: JSON.stringify(opts),
+  });
+}
+
+export function quiz(
+  noteId: string,
+  opts: { count: number; difficulty: string }
+): Promise<{ quiz?: ApiQuestion[] }> {
+  return authFetch<{ quiz?: ApiQuestion[] }>(`/api/notes/${noteId}/quiz`, {
+    method: "POST",
+    body: JSON.stringify(opts),
+  });
+}
@@ -0,0 +1,158 @@
+import { Platform } from "react-native";
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import * as Crypto from "expo-crypto";
+import { getItem, setItem, deleteItem } from "@/lib/secureStorage";
+
+export type AppLockSettings = {
+  enabled: boolean;
+  useBiometrics: boolean;
+  idleTimeoutMs: number; // 0 = lock every time the app leaves the foreground
+};
+
+export const IDLE_TIMEOUT_OPTIONS = [
+  { label: "Immediately", ms: 0 },
+  { label: "1 min", ms: 60_000 },
+  { label: "5 min", ms: 5 * 60_000 },
+  { label: "15 min", ms: 15 * 60_000 },
+];
+
+const SETTINGS_KEY = "app-lock:settings";
+const PIN_KEY = "appLockPin"; // "<salt>:<sha256(salt + pin)>" in secure storage
+const ATTEMPTS_KEY = "appLockAttempts"; // JSON PinLockout, also in secure storage
+
+const DEFAULT_SETTINGS: AppLockSettings = {
+  enabled: false,
+  useBiometrics: false,
+  idleTimeoutMs: 60_000,
+};
+
+// Settings aren't secret (they only say *whether* to lock), so plain AsyncStorage is fine
+export async function getLockSettings(): Promise<AppLockSettings> {
+  try {
+    const raw = await AsyncStorage.getItem(SETTINGS_KEY);
+    return raw ? { ...DEFAULT_SETTINGS, ...JSON.parse(raw) } : DEFAULT_SETTINGS;
+  } catch {
+    return DEFAULT_SETTINGS;
+  }
+}
+
+export async function setLockSettings(s: AppLockSettings) {
+  try {
+    await AsyncStorage.setItem(SETTINGS_KEY, JSON.stringify(s));
+  } catch {}
+}
+
+// ---------- PIN ----------
+async function hashPin(salt: string, pin: string) {
+  return Crypto.digestStringAsync(Crypto.CryptoDigestAlgorithm.SHA256, `${salt}${pin}`);
+}
+
+export async function setPin(pin: string) {
+  const salt = Crypto.randomUUID();
+  await setItem(PIN_KEY, `${salt}:${await hashPin(salt, pin)}`);
+}
+
+export async function verifyPin(pin: string): Promise<boolean> {
+  const stored = await getItem(PIN_KEY);
+  if (!stored) return false;
+  const [salt, hash] = stored.split(":");
+  return (await hashPin(salt, pin)) === hash;
+}
+
+export async function clearPin() {
+  await deleteItem(PIN_KEY);
+  await deleteItem(ATTEMPTS_KEY);
+}
+
+// ---------- Wrong-PIN throttling ----------
+// A 4-digit PIN is only 10k guesses, so after a few misses each further one
+// costs a growing wait. Kept in secure storage so restarting the app doesn't reset it.
+/** Misses allowed before the waits start (and "Forgot PIN?" is offered) */
+export const FREE_PIN_ATTEMPTS = 5;
+const FIRST_WAIT_MS = 30_000;
+const MAX_WAIT_MS = 60 * 60_000;
+
+export type PinLockout = { failures: number; retryAt: number | null };
+
+export type PinCheck = { ok: true } | ({ ok: false } & PinLockout);
+
+export async function getPinLockout(): Promise<PinLockout> {
+  try {
+    const raw = await getItem(ATTEMPTS_KEY);
+    const parsed = raw ? (JSON.parse(raw) as PinLockout) : null;
+    return { failures: parsed?.failures ?? 0, retryAt: parsed?.retryAt ?? null };
+  } catch {
+    return { failures: 0, retryAt: null };
+  }
+}
+
+/**
+ * verifyPin with throttling. While a wait is running the PIN isn't even checked;
+ * a wrong PIN past FREE_PIN_ATTEMPTS doubles the wait (30s, 1 min, 2 min… up to an hour).
+ */
+export async function checkPin(pin: string): Promise<PinCheck> {
+  const lockout = await getPinLockout();
+  if (lockout.retryAt && Date.now() < lockout.retryAt) return { ok: false, ...lockout };
+
+  if (await verifyPin(pin)) {
+    await deleteItem(ATTEMPTS_KEY);
+    return { ok: true };
+  }
+
+  const failures = lockout.failures + 1;
+  const over = failures - FREE_PIN_ATTEMPTS;
+  const retryAt = over >= 0 ? Date.now() + Math.min(FIRST_WAIT_MS * 2 ** over, MAX_WAIT_MS) : null;
+  await setItem(ATTEMPTS_KEY, JSON.stringify({ failures, retryAt }));
+  return { ok: false, failures, retryAt };
+}
+
+// ---------- Biometrics (native only) ----------
+async function getLocalAuth() {
+  if (Platform.OS === "web") return null;
+  try {
+    return await import("expo-local-authentication");
+  } catch {
+    return null;
+  }
+}
+
+export async function biometricsAvailable(): Promise<boolean> {
+  const LocalAuth = await getLocalAuth();
+  if (!LocalAuth) return false;
+  try {
+    return (await LocalAuth.hasHardwareAsync()) && (await LocalAuth.isEnrolledAsync());
+  } catch {
+    return false;
+  }
+}
+
+export async function authenticateWithBiometrics(): Promise<boolean> {
+  const LocalAuth = await getLocalAuth();
+  if (!LocalAuth) return false;
+  try {
+    const res = await LocalAuth.authenticateAsync({
+      promptMessage: "Unlock Smart AI Buddy",
+      cancelLabel: "Use PIN",
+      disableDeviceFallback: true,
+    });
+    return res.success;
+  } catch {
+    return false;
+  }
+}
+
+/** Thrown when an action that needs the current PIN gets a wrong one (or is throttled) */
+export class WrongPinError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "WrongPinError";
+  }
+}
+
+/** What to tell the user after a failed checkPin */
+export function pinFailureMessage(lockout: PinLockout, now = Date.now()): string {
+  if (!lockout.retryAt || lockout.retryAt <= now) return "Wrong PIN. Try again.";
+  const secs = Math.ceil((lockout.retryAt - now) / 1000);
+  const wait = secs >= 60 ? `${Math.ceil(secs / 60)} min` : `${secs}s`;
+  return `Too many wrong PINs. Try again in ${wait}.`;
+}
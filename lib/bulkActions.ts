@@ -0,0 +1,177 @@
+import { useCallback, useRef, useState } from "react";
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import * as api from "@/lib/apiClient";
+import { errorMessage, type Note, type SummaryLength, type SummaryStyle } from "@/lib/apiClient";
+import { emit } from "@/lib/eventBus";
+import { runIndexJob } from "@/lib/indexJobs";
+import { addSummary } from "@/lib/summaries";
+import { setFlashcards, setQuiz } from "@/lib/toolsCache";
+
+export type BulkAction =
+  | { kind: "delete" }
+  | { kind: "reindex" }
+  | { kind: "move"; courseId: string | null; courseName: string }
+  | { kind: "study-pack"; style: SummaryStyle; length: SummaryLength };
+
+export type BulkStatus = "pending" | "running" | "done" | "failed" | "skipped";
+
+export type BulkItem = {
+  noteId: string;
+  title: string;
+  status: BulkStatus;
+  step?: string; // what a running item is doing right now
+  error?: string;
+};
+
+export type BulkSummary = { done: number; failed: number; skipped: number };
+
+// same key as notes.tsx
+const LAST_INDEXED_KEY = "last-indexed-note-id";
+
+const ACTIVE: BulkStatus[] = ["pending", "running"];
+
+export function bulkTitle(action: BulkAction, count: number) {
+  const notes = `${count} note${count === 1 ? "" : "s"}`;
+  switch (action.kind) {
+    case "delete":
+      return `Moving ${notes} to the trash`;
+    case "reindex":
+      return `Re-indexing ${notes}`;
+    case "move":
+      return action.courseId ? `Moving ${notes} to ${action.courseName}` : `Removing ${notes} from their course`;
+    case "study-pack":
+      return `Study pack for ${notes}`;
+  }
+}
+
+// Same mapping the Flashcards / Quiz screens apply before caching what they fetch
+async function studyPack(note: Note, action: Extract<BulkAction, { kind: "study-pack" }>, step: (s: string) => void) {
+  if (note.indexStatus !== "ready") {
+    step("Indexing…");
+    await runIndexJob(note.id);
+  }
+
+  step("Summary…");
+  const opts = { style: action.style, length: action.length };
+  const summary = ((await api.summarize(note.id, opts))?.summary ?? "").trim();
+  if (!summary) throw new Error("Summary: the server returned an empty summary");
+  await addSummary(note.id, { ...opts, text: summary });
+
+  step("Flashcards…");
+  const cards = ((await api.flashcards(note.id, { count: 12 }))?.cards ?? [])
+    .map((c, i) => ({
+      q: c.q ?? c.front ?? "",
+      a: c.a ?? c.back ?? "",
+      id: `${i}-${Math.random().toString(36).slice(2, 7)}`,
+    }))
+    .filter((c) => c.q && c.a);
+  if (!cards.length) throw new Error("Flashcards: none were returned");
+  await setFlashcards(note.id, cards);
+
+  step("Quiz…");
+  const questions = ((await api.quiz(note.id, { count: 10, difficulty: "medium" }))?.quiz ?? [])
+    .map((q) => ({
+      question: q.question ?? "",
+      choices: Array.isArray(q.choices) ? q.choices.slice(0, 4) : [],
+      answerIndex: typeof q.answer_index === "number" && q.answer_index >= 0 ? q.answer_index : -1,
+      explanation: q.explanation ?? "",
+    }))
+    .filter((q) => q.question && q.choices.length === 4 && q.answerIndex >= 0);
+  if (!questions.length) throw new Error("Quiz: no questions were returned");
+  await setQuiz(note.id, questions);
+}
+
+async function runAction(action: BulkAction, note: Note, step: (s: string) => void) {
+  switch (action.kind) {
+    case "delete":
+      // to the trash; caches stay until it's purged
+      await api.deleteNote(note.id);
+      return;
+    case "reindex":
+      await runIndexJob(note.id);
+      await AsyncStorage.setItem(LAST_INDEXED_KEY, note.id).catch(() => {});
+      return;
+    case "move":
+      await api.setNoteCourse(note.id, action.courseId);
+      return;
+    case "study-pack":
+      return studyPack(note, action, step);
+  }
+}
+
+/**
+ * Runs one action over several notes, one note at a time, and keeps going when
+ * a note fails so the sheet can report partial failures. `stop()` skips the
+ * notes that haven't started yet. `start` resolves with the ids that succeeded.
+ */
+export function useBulkActions() {
+  const [action, setAction] = useState<BulkAction | null>(null);
+  const [items, setItems] = useState<BulkItem[]>([]);
+  const stopped = useRef(false);
+  const lastRun = useRef<{ action: BulkAction; notes: Note[] } | null>(null);
+
+  const patch = useCallback((noteId: string, p: Partial<BulkItem>) => {
+    setItems((list) => list.map((i) => (i.noteId === noteId ? { ...i, ...p } : i)));
+  }, []);
+
+  const start = useCallback(
+    async (next: BulkAction, notes: Note[]): Promise<string[]> => {
+      if (!notes.length) return [];
+      stopped.current = false;
+      lastRun.current = { action: next, notes };
+      setAction(next);
+      setItems(notes.map((n) => ({ noteId: n.id, title: n.title || "(untitled)", status: "pending" })));
+
+      const done: string[] = [];
+      for (const note of notes) {
+        if (stopped.current) {
+          patch(note.id, { status: "skipped" });
+          continue;
+        }
+        patch(note.id, { status: "running" });
+        try {
+          await runAction(next, note, (step) => patch(note.id, { step }));
+          patch(note.id, { status: "done", step: undefined });
+          done.push(note.id);
+        } catch (e) {
+          console.error(`Bulk ${next.kind} error`, e);
+          patch(note.id, { status: "failed", step: undefined, error: errorMessage(e, "Something went wrong") });
+        }
+      }
+      // one refresh for the whole batch instead of one per note
+      emit("notes:changed", {});
+      return done;
+    },
+    [patch]
+  );
+
+  const stop = useCallback(() => {
+    stopped.current = true;
+  }, []);
+
+  /** Run the same action again for the notes that failed or were skipped */
+  const retryFailed = useCallback(() => {
+    const run = lastRun.current;
+    if (!run) return Promise.resolve([]);
+    const again = new Set(items.filter((i) => i.status === "failed" || i.status === "skipped").map((i) => i.noteId));
+    return start(run.action, run.notes.filter((n) => again.has(n.id)));
+  }, [items, start]);
+
+  const dismiss = useCallback(() => {
+    setAction(null);
+    setItems([]);
+    lastRun.current = null;
+  }, []);
+
+  const running = items.some((i) => ACTIVE.includes(i.status));
+  const summary: BulkSummary | null =
+    items.length && !running
+      ? {
+          done: items.filter((i) => i.status === "done").length,
+          failed: items.filter((i) => i.status === "failed").length,
+          skipped: items.filter((i) => i.status === "skipped").length,
+        }
+      : null;
+
+  return { action, items, running, summary, start, stop, retryFailed, dismiss };
+}
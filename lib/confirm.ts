@@ -0,0 +1,27 @@
+import { Alert, Platform } from "react-native";
+
+/**
+ * Cross-platform "are you sure?" prompt: window.confirm on web, Alert on native.
+ * `onConfirm` only runs when the user picks the confirm button.
+ */
+export function confirmAction(
+  title: string,
+  message: string,
+  confirmText: string,
+  onConfirm: () => void
+) {
+  if (Platform.OS === "web") {
+    // RN's TS lib has no DOM typings; window exists at runtime on web
+    if ((globalThis as any).confirm?.(`${title} ${message}`)) onConfirm();
+    return;
+  }
+  Alert.alert(
+    title,
+    message,
+    [
+      { text: "Cancel", style: "cancel" },
+      { text: confirmText, style: "destructive", onPress: onConfirm },
+    ],
+    { cancelable: true }
+  );
+}
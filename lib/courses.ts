@@ -0,0 +1,83 @@
+import { useCallback, useEffect, useState } from "react";
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import * as api from "@/lib/apiClient";
+import { errorMessage, type Course } from "@/lib/apiClient";
+import { on } from "@/lib/eventBus";
+import { CHAT_CACHE, FC_CACHE, QZ_CACHE, SUMMARY_KEY } from "@/lib/toolsCache";
+
+export const COURSE_COLORS = ["#6366F1", "#22C55E", "#F59E0B", "#EF4444", "#06B6D4", "#EC4899", "#8B5CF6", "#64748B"];
+
+export type NoteProgress = { summary: boolean; flashcards: boolean; quiz: boolean; chat: boolean };
+
+/** Courses for the signed-in user; reloads whenever a screen announces "courses:changed" */
+export function useCourses(enabled = true) {
+  const [courses, setCourses] = useState<Course[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const reload = useCallback(async () => {
+    try {
+      setError(null);
+      setCourses(await api.listCourses());
+    } catch (e) {
+      console.error("Courses load error", e);
+      setError(errorMessage(e, "Could not load your courses."));
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!enabled) return;
+    void reload();
+    return on("courses:changed", () => void reload());
+  }, [enabled, reload]);
+
+  return { courses, loading, error, reload };
+}
+
+/** Whole days until the exam (0 = today, negative = past), or null without a date */
+export function daysUntil(examDate?: string | null): number | null {
+  if (!examDate) return null;
+  const [y, m, d] = examDate.slice(0, 10).split("-").map(Number);
+  if (!y || !m || !d) return null;
+  const today = new Date();
+  const start = Date.UTC(today.getFullYear(), today.getMonth(), today.getDate());
+  return Math.round((Date.UTC(y, m - 1, d) - start) / 86_400_000);
+}
+
+export function examLabel(examDate?: string | null): string | null {
+  const days = daysUntil(examDate);
+  if (days === null) return null;
+  if (days < 0) return "Exam passed";
+  if (days === 0) return "Exam today";
+  if (days === 1) return "Exam tomorrow";
+  return `Exam in ${days} days`;
+}
+
+function hasItems(raw: string | null) {
+  if (!raw) return false;
+  try {
+    const v = JSON.parse(raw);
+    return Array.isArray(v) ? v.length > 0 : !!v;
+  } catch {
+    return false;
+  }
+}
+
+/** Which study tools have been used for each note, read from the local caches */
+export async function loadProgress(noteIds: string[]): Promise<Record<string, NoteProgress>> {
+  const keys = noteIds.flatMap((id) => [SUMMARY_KEY(id), FC_CACHE(id), QZ_CACHE(id), CHAT_CACHE(id)]);
+  const pairs = keys.length ? await AsyncStorage.multiGet(keys).catch(() => []) : [];
+  const values = new Map(pairs);
+  const out: Record<string, NoteProgress> = {};
+  for (const id of noteIds) {
+    out[id] = {
+      summary: !!values.get(SUMMARY_KEY(id)),
+      flashcards: hasItems(values.get(FC_CACHE(id)) ?? null),
+      quiz: hasItems(values.get(QZ_CACHE(id)) ?? null),
+      chat: hasItems(values.get(CHAT_CACHE(id)) ?? null),
+    };
+  }
+  return out;
+}
@@ -1,5 +1,14 @@
+import type { OutboxItem } from "@/lib/outbox";
+
 type Events = {
-  "notes:changed": { noteId?: string } // fire after upload/index/delete
+  "notes:changed": { noteId?: string }; // fire after upload/index/delete
+  "index:changed": { noteId: string }; // live progress of an index job polled by this device
+  "courses:changed": Record<string, never>; // course created/renamed/deleted
+  "auth:expired": Record<string, never>; // refresh token rejected, tokens cleared
+  "auth:tokens": { expiresAt: number | null }; // tokens stored/cleared; access token expiry (ms)
+  "outbox:changed": Record<string, never>; // queued offline work added/removed/rescheduled
+  "outbox:done": { item: OutboxItem; result: unknown }; // queued item sent successfully
+  "outbox:failed": { item: OutboxItem; error: string }; // queued item rejected by the server or out of retries, dropped
 };
 
 const listeners: { [K in keyof Events]?: Array<(p: Events[K]) => void> } = {};
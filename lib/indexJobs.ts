@@ -0,0 +1,85 @@
+import { useEffect, useReducer } from "react";
+import * as api from "@/lib/apiClient";
+import { errorMessage, type IndexStatus, type Note } from "@/lib/apiClient";
+import { emit, on } from "@/lib/eventBus";
+
+export type IndexState = { status: IndexStatus; progress: number; error?: string | null };
+
+// Jobs this device is polling, keyed by note id. The server's note.indexStatus is the source
+// of truth; these only fill in progress between list reloads.
+const live = new Map<string, IndexState>();
+const polling = new Set<string>();
+
+const STATUS: Record<api.IndexJob["status"], IndexStatus> = {
+  queued: "queued",
+  running: "indexing",
+  done: "ready",
+  failed: "failed",
+};
+
+function track(noteId: string, state: IndexState) {
+  live.set(noteId, state);
+  emit("index:changed", { noteId });
+}
+
+async function follow(noteId: string, start: () => Promise<{ chunks?: number }>) {
+  polling.add(noteId);
+  try {
+    const res = await start();
+    track(noteId, { status: "ready", progress: 1 });
+    return res;
+  } catch (e) {
+    track(noteId, { status: "failed", progress: 0, error: errorMessage(e, "Indexing failed") });
+    throw e;
+  } finally {
+    polling.delete(noteId);
+    // refresh lists without a noteId: background jobs shouldn't move anyone's selection
+    emit("notes:changed", {});
+  }
+}
+
+const onProgress = (noteId: string) => (job: api.IndexJob) =>
+  track(noteId, { status: STATUS[job.status], progress: job.progress, error: job.error });
+
+/** Start (or retry) indexing a note and poll it to completion. Rejects when the job fails. */
+export function runIndexJob(noteId: string): Promise<{ chunks?: number }> {
+  track(noteId, { status: "queued", progress: 0 });
+  return follow(noteId, () => api.indexNote(noteId, { onProgress: onProgress(noteId) }));
+}
+
+/** Pick up polling for a job the server reports as still running (e.g. started before a reload). */
+function resume(note: Note) {
+  if (polling.has(note.id) || !note.indexJobId) return;
+  const job: api.IndexJob = {
+    id: note.indexJobId,
+    noteId: note.id,
+    status: note.indexStatus === "queued" ? "queued" : "running",
+    progress: live.get(note.id)?.progress ?? 0,
+  };
+  follow(note.id, () => api.waitForIndexJob(job, { onProgress: onProgress(note.id) })).catch(() => {});
+}
+
+const isActive = (status?: IndexStatus) => status === "queued" || status === "indexing";
+
+/**
+ * Index state for the given notes: the server status, overlaid with live progress for jobs
+ * this device is polling. Resumes polling for notes the server says are still in progress.
+ */
+export function useIndexStatus(notes: Note[]) {
+  const [, rerender] = useReducer((n: number) => n + 1, 0);
+
+  useEffect(() => on("index:changed", rerender), []);
+
+  useEffect(() => {
+    for (const n of notes) if (isActive(n.indexStatus)) resume(n);
+  }, [notes]);
+
+  return (note: Note): IndexState => {
+    const mine = live.get(note.id);
+    // live state is newer while we poll, and until a reloaded list stops saying "in progress"
+    if (mine && (polling.has(note.id) || isActive(note.indexStatus))) {
+      return { status: mine.status, progress: mine.progress, error: mine.error };
+    }
+    return { status: note.indexStatus ?? "none", progress: 0, error: note.indexError };
+  };
+}
@@ -0,0 +1,40 @@
+export type LinkKind = "youtube" | "article";
+
+export type ParsedLink = { url: string; kind: LinkKind; videoId?: string };
+
+const YT_HOSTS = ["youtube.com", "www.youtube.com", "m.youtube.com", "music.youtube.com"];
+
+/**
+ * Normalise a pasted link and tell YouTube videos (transcript import) apart from
+ * ordinary pages (article extraction). Returns null for anything that isn't http(s).
+ */
+export function parseLink(input: string): ParsedLink | null {
+  let raw = input.trim();
+  if (!raw) return null;
+  if (!/^[a-z][a-z0-9+.-]*:\/\//i.test(raw)) raw = `https://${raw}`;
+
+  let u: URL;
+  try {
+    u = new URL(raw);
+  } catch {
+    return null;
+  }
+  if (u.protocol !== "http:" && u.protocol !== "https:") return null;
+  if (!u.hostname.includes(".")) return null;
+
+  const host = u.hostname.toLowerCase();
+  let videoId: string | null = null;
+  if (host === "youtu.be") {
+    videoId = u.pathname.slice(1).split("/")[0] || null;
+  } else if (YT_HOSTS.includes(host)) {
+    videoId =
+      u.searchParams.get("v") ??
+      u.pathname.match(/^\/(?:shorts|embed|live)\/([^/?#]+)/)?.[1] ??
+      null;
+  }
+
+  if (videoId && /^[\w-]{6,}$/.test(videoId)) {
+    return { url: `https://www.youtube.com/watch?v=${videoId}`, kind: "youtube", videoId };
+  }
+  return { url: u.toString(), kind: "article" };
+}
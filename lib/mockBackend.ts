@@ -0,0 +1,974 @@
+import { Platform } from "react-native";
+
+/**
+ * In-process stand-in for the backend, enabled with EXPO_PUBLIC_API_URL=mock.
+ * `mockFetch` takes the same (url, init) as fetch and answers with a Response,
+ * so everything above lib/apiClient.ts runs unchanged. State lives in memory and
+ * starts from the seed below on every reload; `resetMockBackend()` restores it.
+ *
+ * Demo login: demo@example.com / password123 · email verification code: 123456
+ */
+
+type MockUser = {
+  id: string;
+  email: string;
+  name: string;
+  role: string;
+  password: string;
+  emailVerified: boolean;
+  avatarUrl: string | null;
+};
+
+type MockNote = {
+  id: string;
+  userId: string;
+  title: string;
+  description: string | null;
+  source: "MANUAL" | "UPLOAD" | "LINK";
+  rawText: string;
+  extractedText: string | null;
+  courseId: string | null;
+  tags: string[];
+  favorite: boolean;
+  indexStatus: "none" | "queued" | "indexing" | "failed" | "ready";
+  indexError: string | null;
+  indexJobId: string | null;
+  deletedAt: string | null; // in the trash since
+  contentHash: string | null; // SHA-256 of the uploaded file, for duplicate checks
+  createdAt: string;
+  updatedAt: string;
+};
+
+type MockIndexJob = {
+  id: string;
+  noteId: string;
+  userId: string;
+  status: "queued" | "running" | "done" | "failed";
+  progress: number;
+  chunks: number;
+  error: string | null;
+  startedAt: number;
+};
+
+type MockCourse = { id: string; userId: string; name: string; color: string; examDate: string | null; createdAt: string };
+
+type MockSession = { id: string; userId: string; refreshToken: string; device: string; createdAt: string; lastUsedAt: string };
+
+type Req = { method: string; path: string; params: Record<string, string>; body: any; user: MockUser | null };
+type Res = { status: number; json: unknown };
+type Handler = (req: Req) => Res | Promise<Res>;
+
+export const VERIFICATION_CODE = "123456";
+const ACCESS_TTL_S = 15 * 60;
+const TRASH_RETENTION_DAYS = 30;
+const LATENCY_MS = [150, 600];
+
+// ---------- canned content ----------
+const PHOTOSYNTHESIS = `Photosynthesis converts light energy into chemical energy stored in glucose.
+It happens in the chloroplasts of plant cells, mainly in the leaves.
+
+Light-dependent reactions take place in the thylakoid membranes. Chlorophyll absorbs light,
+water is split (photolysis) releasing oxygen, and the energy is captured as ATP and NADPH.
+
+The Calvin cycle (light-independent reactions) runs in the stroma. The enzyme RuBisCO fixes
+carbon dioxide onto RuBP; ATP and NADPH from the light reactions reduce it to G3P, which is used
+to build glucose and regenerate RuBP.
+
+Limiting factors: light intensity, carbon dioxide concentration and temperature. Increasing one
+factor only raises the rate until another factor becomes limiting.`;
+
+const WW1 = `The First World War (1914–1918) was fought between the Allied Powers and the Central Powers.
+Long-term causes are often summarised as MAIN: militarism, alliances, imperialism and nationalism.
+
+The assassination of Archduke Franz Ferdinand in Sarajevo on 28 June 1914 triggered a chain of
+declarations of war through the alliance system.
+
+On the Western Front the war became a stalemate of trench warfare. Major battles included the
+Somme (1916) and Verdun (1916). New technology — machine guns, gas, tanks and aircraft — changed
+how war was fought.
+
+The USA entered in 1917. The armistice was signed on 11 November 1918 and the Treaty of Versailles
+(1919) imposed reparations and territorial losses on Germany.`;
+
+const GENERIC_UPLOAD = `This document was processed by the mock backend. In a real deployment its text would be
+extracted here (PDF, Word, slides or OCR for images).
+
+Key idea: spaced repetition improves long-term retention by reviewing material at increasing intervals.
+Active recall — testing yourself instead of re-reading — strengthens memory traces.
+Interleaving different topics in one session helps you learn to choose the right strategy.`;
+
+const ARTICLE = `How memory works when you study. Encoding is the process of turning what you read into a memory trace;
+it is stronger when you explain ideas in your own words. Consolidation happens mostly during sleep, which is why
+cramming the night before an exam is less effective than spreading sessions out. Retrieval practice — answering
+questions from memory — both measures and strengthens learning.`;
+
+const TRANSCRIPT = `[00:00] Welcome back! Today we're looking at Newton's three laws of motion.
+[00:12] The first law says an object stays at rest or keeps moving at constant velocity unless a net force acts on it.
+[01:05] The second law links force, mass and acceleration: force equals mass times acceleration.
+[02:20] The third law says every action has an equal and opposite reaction, like a rocket pushing exhaust backwards.
+[03:10] That's it for today — try the practice questions in the description.`;
+
+// "OCR" of photographed handwritten pages, cycled per page
+const HANDWRITTEN = [
+  `Cell structure — revision. Prokaryotic cells have no nucleus; their DNA floats in the cytoplasm.
+Eukaryotic cells keep DNA in a nucleus and have membrane-bound organelles such as mitochondria.`,
+  `Mitochondria release energy through aerobic respiration: glucose + oxygen -> carbon dioxide + water.
+Ribosomes make proteins; the rough ER carries them to the Golgi apparatus for packaging.`,
+  `Diffusion moves particles from high to low concentration. Osmosis is the diffusion of water across a
+partially permeable membrane. Active transport uses energy to move substances against the gradient.`,
+];
+const MAX_SCAN_PAGES = 20;
+
+// ---------- state ----------
+let users: MockUser[] = [];
+let notes: MockNote[] = [];
+let sessions: MockSession[] = [];
+let courses: MockCourse[] = [];
+let indexJobs: MockIndexJob[] = [];
+let seq = 0;
+
+const nextId = (prefix: string) => `${prefix}_${Date.now().toString(36)}${(++seq).toString(36)}`;
+const isoAgo = (ms: number) => new Date(Date.now() - ms).toISOString();
+
+export function resetMockBackend() {
+  seq = 0;
+  users = [
+    {
+      id: "usr_demo",
+      email: "demo@example.com",
+      name: "Demo Student",
+      role: "USER",
+      password: "password123",
+      emailVerified: true,
+      avatarUrl: null,
+    },
+  ];
+  notes = [
+    {
+      id: "note_photosynthesis",
+      userId: "usr_demo",
+      title: "Biology – Photosynthesis.pdf",
+      description: "Chapter 4 lecture slides",
+      source: "UPLOAD",
+      rawText: PHOTOSYNTHESIS,
+      extractedText: PHOTOSYNTHESIS,
+      courseId: "course_bio",
+      tags: ["photosynthesis", "plants"],
+      favorite: true,
+      indexStatus: "ready",
+      indexError: null,
+      indexJobId: null,
+      deletedAt: null,
+      contentHash: null,
+      createdAt: isoAgo(2 * 86_400_000),
+      updatedAt: isoAgo(2 * 86_400_000),
+    },
+    {
+      id: "note_ww1",
+      userId: "usr_demo",
+      title: "History – Causes of WW1.docx",
+      description: null,
+      source: "UPLOAD",
+      rawText: WW1,
+      extractedText: WW1,
+      courseId: null,
+      tags: ["ww1"],
+      favorite: false,
+      indexStatus: "none",
+      indexError: null,
+      indexJobId: null,
+      deletedAt: null,
+      contentHash: null,
+      createdAt: isoAgo(5 * 3_600_000),
+      updatedAt: isoAgo(5 * 3_600_000),
+    },
+    {
+      id: "note_chemistry",
+      userId: "usr_demo",
+      title: "Chemistry – old revision notes",
+      description: null,
+      source: "MANUAL",
+      rawText: GENERIC_UPLOAD,
+      extractedText: null,
+      courseId: null,
+      tags: [],
+      favorite: false,
+      indexStatus: "none",
+      indexError: null,
+      indexJobId: null,
+      deletedAt: isoAgo((TRASH_RETENTION_DAYS - 3) * 86_400_000),
+      contentHash: null,
+      createdAt: isoAgo(40 * 86_400_000),
+      updatedAt: isoAgo(40 * 86_400_000),
+    },
+  ];
+  courses = [
+    {
+      id: "course_bio",
+      userId: "usr_demo",
+      name: "Biology",
+      color: "#22C55E",
+      examDate: new Date(Date.now() + 21 * 86_400_000).toISOString().slice(0, 10),
+      createdAt: isoAgo(3 * 86_400_000),
+    },
+  ];
+  sessions = [];
+  indexJobs = [];
+}
+resetMockBackend();
+
+// ---------- helpers ----------
+const ok = (json: unknown = { ok: true }, status = 200): Res => ({ status, json });
+const fail = (status: number, error: string, details?: unknown): Res => ({
+  status,
+  json: details ? { error, details } : { error },
+});
+const badRequest = (fieldErrors: Record<string, string[]>) =>
+  fail(400, "BAD_REQUEST", { fieldErrors, formErrors: [] });
+
+function b64url(s: string) {
+  return btoa(unescape(encodeURIComponent(s))).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function fromB64url(s: string) {
+  const b64 = s.replace(/-/g, "+").replace(/_/g, "/");
+  return decodeURIComponent(escape(atob(b64.padEnd(Math.ceil(b64.length / 4) * 4, "="))));
+}
+
+// Unsigned JWT-shaped token so the client's expiry/refresh logic behaves as with the real server
+function accessTokenFor(u: MockUser) {
+  const exp = Math.floor(Date.now() / 1000) + ACCESS_TTL_S;
+  return `${b64url(JSON.stringify({ alg: "none", typ: "JWT" }))}.${b64url(
+    JSON.stringify({ sub: u.id, email: u.email, name: u.name, exp })
+  )}.mock`;
+}
+
+function issueSession(u: MockUser) {
+  const refreshToken = `mock-refresh.${nextId("rt")}.${b64url(u.id)}`;
+  const now = new Date().toISOString();
+  sessions.push({
+    id: nextId("ses"),
+    userId: u.id,
+    refreshToken,
+    device: Platform.OS === "web" ? "Web browser" : `${Platform.OS} app`,
+    createdAt: now,
+    lastUsedAt: now,
+  });
+  return { accessToken: accessTokenFor(u), refreshToken, user: publicUser(u) };
+}
+
+function publicUser(u: MockUser) {
+  const { password: _password, ...rest } = u;
+  return rest;
+}
+
+// Tokens survive an app reload but the in-memory user list doesn't; rebuild from the claims
+function userFromToken(header: string | null): MockUser | null {
+  const token = header?.replace(/^Bearer\s+/i, "");
+  const part = token?.split(".")[1];
+  if (!part) return null;
+  try {
+    const claims = JSON.parse(fromB64url(part));
+    if (typeof claims.exp !== "number" || claims.exp * 1000 < Date.now()) return null;
+    let u = users.find((x) => x.id === claims.sub);
+    if (!u) {
+      u = {
+        id: claims.sub,
+        email: claims.email,
+        name: claims.name ?? "",
+        role: "USER",
+        password: "password123",
+        emailVerified: true,
+        avatarUrl: null,
+      };
+      users.push(u);
+    }
+    return u;
+  } catch {
+    return null;
+  }
+}
+
+function userFromRefresh(refreshToken: string): MockUser | null {
+  const session = sessions.find((s) => s.refreshToken === refreshToken);
+  if (session) {
+    session.lastUsedAt = new Date().toISOString();
+    return users.find((u) => u.id === session.userId) ?? null;
+  }
+  // issued before a reload: trust the embedded id so dev sessions don't end on every refresh
+  const [prefix, , id] = refreshToken.split(".");
+  if (prefix !== "mock-refresh" || !id) return null;
+  const u = users.find((x) => x.id === fromB64url(id));
+  if (!u) return null;
+  const now = new Date().toISOString();
+  sessions.push({ id: nextId("ses"), userId: u.id, refreshToken, device: "Restored session", createdAt: now, lastUsedAt: now });
+  return u;
+}
+
+// same limits as lib/noteFilters.ts
+const MAX_TAGS = 10;
+const MAX_TAG_LENGTH = 24;
+const MAX_TITLE_LENGTH = 120;
+const MAX_DESCRIPTION_LENGTH = 500;
+const validTag = (t: unknown) => typeof t === "string" && !!t.trim() && t.trim().length <= MAX_TAG_LENGTH;
+
+function validCourseId(id: unknown, user: MockUser): string | null {
+  return typeof id === "string" && courses.some((c) => c.id === id && c.userId === user.id) ? id : null;
+}
+
+/** The caller's note from the `:id` param; notes in the trash only count with `trashed` */
+function ownNote(req: Req, trashed = false): MockNote | null {
+  return notes.find((n) => n.id === req.params.id && n.userId === req.user?.id && !!n.deletedAt === trashed) ?? null;
+}
+
+const purgeAt = (n: MockNote) => new Date(Date.parse(n.deletedAt!) + TRASH_RETENTION_DAYS * 86_400_000).toISOString();
+
+/** Drop notes that have sat in the trash past the retention period (the real server runs this as a cron job) */
+function purgeExpiredTrash() {
+  const now = new Date().toISOString();
+  notes = notes.filter((n) => !n.deletedAt || purgeAt(n) > now);
+}
+
+const noteText = (n: MockNote) => (n.extractedText || n.rawText || "").trim();
+
+/** Sentences of the note, used to make the canned AI output look note-specific */
+function sentences(n: MockNote) {
+  return noteText(n)
+    .replace(/\s+/g, " ")
+    .split(/(?<=[.!?])\s+/)
+    .map((s) => s.trim())
+    .filter((s) => s.length > 20);
+}
+
+/** Plain string field from a multipart body (web FormData or the React Native shim) */
+function formField(body: unknown, field: string): string | null {
+  if (!body || typeof body !== "object") return null;
+  const part = (body as any).getParts?.().find((p: any) => p.fieldName === field);
+  if (part) return typeof part.string === "string" ? part.string : null;
+  const v = (body as any).get?.(field);
+  return typeof v === "string" ? v : null;
+}
+
+type FormFile = { name: string; uri: string | null; type: string };
+
+/** Every file under a form field as { name, uri } across web File and the React Native FormData shim */
+function formFiles(body: unknown, field: string): FormFile[] {
+  if (!body || typeof body !== "object") return [];
+  const parts = (body as any).getParts?.();
+  if (parts) {
+    return parts
+      .filter((p: any) => p.fieldName === field && p.uri)
+      .map((p: any) => ({ name: p.name ?? "upload", uri: p.uri ?? null, type: p.type ?? "" }));
+  }
+  const files: unknown[] = (body as any).getAll?.(field) ?? [];
+  return files
+    .filter((f): f is File => !!f && typeof f === "object")
+    .map((file) => ({
+      name: file.name ?? "upload",
+      uri: typeof URL !== "undefined" && URL.createObjectURL ? URL.createObjectURL(file) : null,
+      type: file.type ?? "",
+    }));
+}
+
+const formFile = (body: unknown, field: string): FormFile | null => formFiles(body, field)[0] ?? null;
+
+// ---------- AI stand-ins ----------
+function mockSummary(n: MockNote, style: string, length: string) {
+  const all = sentences(n);
+  const take = length === "short" ? 3 : length === "long" ? 8 : 5;
+  const picked = all.slice(0, take);
+  const title = n.title.replace(/\.[a-z0-9]+$/i, "");
+  if (style === "paragraph") return `## ${title}\n\n${picked.join(" ")}`;
+  if (style === "outline") return `## ${title}\n\n${picked.map((s, i) => `${i + 1}. ${s}`).join("\n")}`;
+  if (style === "key-terms") {
+    const term = (s: string) =>
+      s.split(/[^\p{L}\p{N}-]+/u).reduce((best, w) => (w.length > best.length ? w : best), "");
+    return `## ${title} — key terms\n\n${picked.map((s) => `- **${term(s)}**: ${s}`).join("\n")}`;
+  }
+  return `## ${title}\n\n${picked.map((s) => `- ${s}`).join("\n")}`;
+}
+
+function mockFlashcards(n: MockNote, count: number) {
+  const all = sentences(n);
+  return Array.from({ length: Math.min(count, Math.max(all.length, 1)) }, (_, i) => {
+    const s = all[i % all.length] ?? noteText(n);
+    const words = s.split(" ");
+    const key = words.slice(0, Math.min(4, words.length)).join(" ");
+    return { q: `What does the note say about “${key}…”?`, a: s };
+  });
+}
+
+function mockQuiz(n: MockNote, count: number, difficulty: string) {
+  const all = sentences(n);
+  const distractors = [
+    "It is not mentioned in the note.",
+    "It only applies in exceptional cases.",
+    "The opposite of what the note describes.",
+  ];
+  return Array.from({ length: Math.min(count, Math.max(all.length, 1)) }, (_, i) => {
+    const s = all[i % all.length] ?? noteText(n);
+    const answer_index = i % 4;
+    const choices = [...distractors];
+    choices.splice(answer_index, 0, s);
+    return {
+      question: `(${difficulty}) Which statement matches the note?`,
+      choices,
+      answer_index,
+      explanation: `The note states: “${s}”`,
+    };
+  });
+}
+
+function mockReply(n: MockNote, message: string) {
+  const words = message.toLowerCase().match(/[a-z]{4,}/g) ?? [];
+  const all = sentences(n);
+  const hits = all.filter((s) => words.some((w) => s.toLowerCase().includes(w))).slice(0, 3);
+  if (!hits.length) {
+    return `I couldn't find that in “${n.title}”. Try asking about: ${all
+      .slice(0, 2)
+      .map((s) => s.split(" ").slice(0, 5).join(" "))
+      .join("; ")}…`;
+  }
+  return `Based on your note “${n.title}”:\n\n${hits.map((s) => `- ${s}`).join("\n")}`;
+}
+
+// ---------- routes ----------
+type Route = { method: string; pattern: RegExp; keys: string[]; auth: boolean; handler: Handler };
+const routes: Route[] = [];
+
+function route(method: string, path: string, handler: Handler, auth = true) {
+  const keys: string[] = [];
+  const pattern = new RegExp(
+    "^" + path.replace(/:(\w+)/g, (_, k) => (keys.push(k), "([^/]+)")) + "/?$"
+  );
+  routes.push({ method, pattern, keys, auth, handler });
+}
+
+route("GET", "/health", () => ok({ ok: true, mock: true }), false);
+
+// auth
+route(
+  "POST",
+  "/api/auth/register",
+  ({ body }) => {
+    const fieldErrors: Record<string, string[]> = {};
+    if (!body?.name?.trim()) fieldErrors.name = ["Name is required"];
+    if (!/^\S+@\S+\.\S+$/.test(body?.email ?? "")) fieldErrors.email = ["Invalid email"];
+    if ((body?.password ?? "").length < 8) fieldErrors.password = ["Password must be at least 8 characters"];
+    if (Object.keys(fieldErrors).length) return badRequest(fieldErrors);
+    if (users.some((u) => u.email === body.email)) return fail(409, "Email already registered");
+
+    const u: MockUser = {
+      id: nextId("usr"),
+      email: body.email,
+      name: body.name.trim(),
+      role: "USER",
+      password: body.password,
+      emailVerified: false,
+      avatarUrl: null,
+    };
+    users.push(u);
+    return ok(issueSession(u), 201);
+  },
+  false
+);
+
+route(
+  "POST",
+  "/api/auth/login",
+  ({ body }) => {
+    const u = users.find((x) => x.email === body?.email && x.password === body?.password);
+    return u ? ok(issueSession(u)) : fail(401, "UNAUTHORIZED");
+  },
+  false
+);
+
+route(
+  "POST",
+  "/api/auth/refresh",
+  ({ body }) => {
+    const u = body?.refreshToken ? userFromRefresh(body.refreshToken) : null;
+    return u ? ok({ accessToken: accessTokenFor(u) }) : fail(401, "UNAUTHORIZED");
+  },
+  false
+);
+
+route("POST", "/api/auth/password/forgot", () => ok(), false);
+
+route(
+  "POST",
+  "/api/auth/password/reset",
+  ({ body }) => {
+    if (!body?.token) return fail(400, "Reset link is invalid or has expired");
+    if ((body?.password ?? "").length < 8) {
+      return badRequest({ password: ["Password must be at least 8 characters"] });
+    }
+    return ok();
+  },
+  false
+);
+
+route("POST", "/api/auth/verify-email", ({ body, user }) => {
+  if (body?.code !== VERIFICATION_CODE) return badRequest({ code: ["Invalid or expired code"] });
+  user!.emailVerified = true;
+  return ok();
+});
+route("POST", "/api/auth/verify-email/resend", () => ok());
+
+route("GET", "/api/auth/me", ({ user }) => ok({ user: publicUser(user!) }));
+route("PATCH", "/api/auth/me", ({ body, user }) => {
+  if (body?.email !== undefined && !/^\S+@\S+\.\S+$/.test(body.email)) return badRequest({ email: ["Invalid email"] });
+  if (body?.email && body.email !== user!.email) {
+    if (users.some((u) => u.email === body.email)) return fail(409, "Email already registered");
+    user!.email = body.email;
+    user!.emailVerified = false;
+  }
+  if (body?.name !== undefined) user!.name = body.name;
+  return ok({ user: publicUser(user!) });
+});
+route("POST", "/api/auth/me/avatar", ({ body, user }) => {
+  const file = formFile(body, "avatar");
+  if (!file) return badRequest({ avatar: ["Image is required"] });
+  user!.avatarUrl = file.uri;
+  return ok({ user: publicUser(user!) });
+});
+route("POST", "/api/auth/password/change", ({ body, user }) => {
+  if (body?.currentPassword !== user!.password) return badRequest({ currentPassword: ["Current password is incorrect"] });
+  if ((body?.newPassword ?? "").length < 8) return badRequest({ newPassword: ["Password must be at least 8 characters"] });
+  user!.password = body.newPassword;
+  return ok();
+});
+
+route("POST", "/api/auth/logout", ({ body }) => {
+  sessions = sessions.filter((s) => s.refreshToken !== body?.refreshToken);
+  return ok();
+});
+route("POST", "/api/auth/logout-all", ({ user }) => {
+  sessions = sessions.filter((s) => s.userId !== user!.id);
+  return ok();
+});
+route("GET", "/api/auth/sessions", ({ user }) => {
+  const mine = sessions.filter((s) => s.userId === user!.id);
+  return ok({
+    sessions: mine.map((s, i) => ({
+      id: s.id,
+      device: s.device,
+      ip: "127.0.0.1",
+      createdAt: s.createdAt,
+      lastUsedAt: s.lastUsedAt,
+      current: i === mine.length - 1,
+    })),
+  });
+});
+route("DELETE", "/api/auth/sessions/:id", ({ params, user }) => {
+  const before = sessions.length;
+  sessions = sessions.filter((s) => !(s.id === params.id && s.userId === user!.id));
+  return sessions.length < before ? ok() : fail(404, "Session not found");
+});
+
+// notes
+route("GET", "/api/notes", ({ user }) => {
+  advanceIndexJobs();
+  return ok(
+    notes
+      .filter((n) => n.userId === user!.id && !n.deletedAt)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+  );
+});
+route("POST", "/api/notes", ({ body, user }) => {
+  const fieldErrors: Record<string, string[]> = {};
+  if (!body?.title?.trim()) fieldErrors.title = ["Title is required"];
+  if (!body?.rawText?.trim()) fieldErrors.rawText = ["Note can't be empty"];
+  if (Object.keys(fieldErrors).length) return badRequest(fieldErrors);
+  const now = new Date().toISOString();
+  const note: MockNote = {
+    id: nextId("note"),
+    userId: user!.id,
+    title: body.title.trim(),
+    description: null,
+    source: body.source ?? "MANUAL",
+    rawText: body.rawText,
+    extractedText: null,
+    courseId: validCourseId(body.courseId, user!),
+    tags: [],
+    favorite: false,
+    indexStatus: "none",
+    indexError: null,
+    indexJobId: null,
+    deletedAt: null,
+    contentHash: null,
+    createdAt: now,
+    updatedAt: now,
+  };
+  notes.push(note);
+  return ok({ note }, 201);
+});
+route("GET", "/api/notes/:id", (req) => {
+  advanceIndexJobs();
+  const n = ownNote(req);
+  return n ? ok({ note: n }) : fail(404, "Note not found");
+});
+route("PATCH", "/api/notes/:id", (req) => {
+  const n = ownNote(req);
+  if (!n) return fail(404, "Note not found");
+  const { title, description, rawText, courseId, tags, favorite } = req.body ?? {};
+  if (title !== undefined && !String(title).trim()) return badRequest({ title: ["Title is required"] });
+  if (title !== undefined && String(title).trim().length > MAX_TITLE_LENGTH) {
+    return badRequest({ title: [`Keep the title under ${MAX_TITLE_LENGTH} characters`] });
+  }
+  if (description && String(description).trim().length > MAX_DESCRIPTION_LENGTH) {
+    return badRequest({ description: [`Keep the description under ${MAX_DESCRIPTION_LENGTH} characters`] });
+  }
+  if (tags !== undefined && (!Array.isArray(tags) || tags.length > MAX_TAGS || tags.some((t) => !validTag(t)))) {
+    return badRequest({ tags: [`Up to ${MAX_TAGS} tags, each 1–${MAX_TAG_LENGTH} characters`] });
+  }
+  if (tags !== undefined) n.tags = [...new Set<string>(tags.map((t: string) => t.trim().toLowerCase()))];
+  if (favorite !== undefined) n.favorite = !!favorite;
+  if (courseId && !validCourseId(courseId, req.user!)) return badRequest({ courseId: ["Unknown course"] });
+  if (courseId !== undefined) n.courseId = courseId || null;
+  if (title !== undefined) n.title = String(title).trim();
+  if (description !== undefined) n.description = String(description ?? "").trim() || null;
+  if (rawText !== undefined && rawText !== n.rawText) {
+    n.rawText = rawText;
+    // the old embeddings no longer match the text
+    n.indexStatus = "none";
+    n.indexError = null;
+    n.indexJobId = null;
+  }
+  n.updatedAt = new Date().toISOString();
+  return ok({ note: n });
+});
+// deleting only moves a note to the trash; /api/trash restores or purges it
+route("DELETE", "/api/notes/:id", (req) => {
+  const n = ownNote(req);
+  if (!n) return fail(404, "Note not found");
+  n.deletedAt = new Date().toISOString();
+  return ok({ note: { ...n, purgeAt: purgeAt(n) } });
+});
+
+route("GET", "/api/trash", ({ user }) => {
+  purgeExpiredTrash();
+  return ok({
+    notes: notes
+      .filter((n) => n.userId === user!.id && n.deletedAt)
+      .sort((a, b) => b.deletedAt!.localeCompare(a.deletedAt!))
+      .map((n) => ({ ...n, purgeAt: purgeAt(n) })),
+    retentionDays: TRASH_RETENTION_DAYS,
+  });
+});
+route("POST", "/api/trash/:id/restore", (req) => {
+  const n = ownNote(req, true);
+  if (!n) return fail(404, "Note not found in the trash");
+  n.deletedAt = null;
+  return ok({ note: n });
+});
+route("DELETE", "/api/trash/:id", (req) => {
+  const n = ownNote(req, true);
+  if (!n) return fail(404, "Note not found in the trash");
+  notes = notes.filter((x) => x !== n);
+  indexJobs = indexJobs.filter((j) => j.noteId !== n.id);
+  return ok();
+});
+route("DELETE", "/api/trash", ({ user }) => {
+  const purged = notes.filter((n) => n.userId === user!.id && n.deletedAt).map((n) => n.id);
+  notes = notes.filter((n) => !purged.includes(n.id));
+  indexJobs = indexJobs.filter((j) => !purged.includes(j.noteId));
+  return ok({ purged });
+});
+
+// mirrors the client allowlist in lib/uploadValidation.ts
+const UPLOAD_TYPES = /^(application\/(pdf|msword|vnd\.openxmlformats-officedocument\.(wordprocessingml\.document|presentationml\.presentation))|text\/(plain|markdown)|image\/(jpeg|png|webp|heic))$/;
+const UPLOAD_EXTENSIONS = /\.(pdf|docx?|pptx|txt|md|markdown|jpe?g|png|webp|heic)$/i;
+
+route("POST", "/api/uploads/check", ({ body, user }) => {
+  const hashes: string[] = Array.isArray(body?.hashes) ? body.hashes : [];
+  const matches: Record<string, MockNote> = {};
+  for (const n of notes) {
+    if (n.userId === user!.id && !n.deletedAt && n.contentHash && hashes.includes(n.contentHash)) {
+      matches[n.contentHash] ??= n;
+    }
+  }
+  return ok({ matches });
+});
+
+route("POST", "/api/uploads", ({ body, user }) => {
+  const file = formFile(body, "file");
+  if (!file) return badRequest({ file: ["File is required"] });
+  if (!UPLOAD_TYPES.test(file.type) && !UPLOAD_EXTENSIONS.test(file.name)) {
+    return fail(415, "Unsupported file type", { fieldErrors: { file: ["This file type can't be read"] }, formErrors: [] });
+  }
+  const now = new Date().toISOString();
+  const note: MockNote = {
+    id: nextId("note"),
+    userId: user!.id,
+    title: file.name,
+    description: null,
+    source: "UPLOAD",
+    rawText: GENERIC_UPLOAD,
+    extractedText: GENERIC_UPLOAD,
+    courseId: validCourseId(formField(body, "courseId"), user!),
+    tags: [],
+    favorite: false,
+    indexStatus: "none",
+    indexError: null,
+    indexJobId: null,
+    deletedAt: null,
+    contentHash: formField(body, "contentHash"),
+    createdAt: now,
+    updatedAt: now,
+  };
+  notes.push(note);
+  return ok({ note }, 201);
+});
+
+// Several photographed pages -> one note. OCR output is canned, one block per page.
+route("POST", "/api/uploads/scan", async ({ body, user }) => {
+  const pages = formFiles(body, "pages");
+  if (!pages.length) return badRequest({ pages: ["Add at least one page"] });
+  if (pages.length > MAX_SCAN_PAGES) return badRequest({ pages: [`Up to ${MAX_SCAN_PAGES} pages per scan`] });
+  if (pages.some((p) => !/^image\//.test(p.type) && !/\.(jpe?g|png|webp|heic)$/i.test(p.name))) {
+    return fail(415, "Unsupported file type", { fieldErrors: { pages: ["Pages must be images"] }, formErrors: [] });
+  }
+  await new Promise((r) => setTimeout(r, 600 * pages.length)); // OCR is the slow part
+
+  const text = pages.map((_, i) => `Page ${i + 1}\n\n${HANDWRITTEN[i % HANDWRITTEN.length]}`).join("\n\n");
+  const now = new Date().toISOString();
+  const note: MockNote = {
+    id: nextId("note"),
+    userId: user!.id,
+    title: formField(body, "title")?.trim() || `Scanned notes – ${new Date().toLocaleDateString()}`,
+    description: `${pages.length} scanned page${pages.length === 1 ? "" : "s"}`,
+    source: "UPLOAD",
+    rawText: text,
+    extractedText: text,
+    courseId: validCourseId(formField(body, "courseId"), user!),
+    tags: [],
+    favorite: false,
+    indexStatus: "none",
+    indexError: null,
+    indexJobId: null,
+    deletedAt: null,
+    contentHash: null,
+    createdAt: now,
+    updatedAt: now,
+  };
+  notes.push(note);
+  return ok({ note }, 201);
+});
+
+route("POST", "/api/uploads/link", async ({ body, user }) => {
+  let u: URL;
+  try {
+    u = new URL(body?.url ?? "");
+  } catch {
+    return badRequest({ url: ["Enter a valid link"] });
+  }
+  if (u.hostname.endsWith("invalid")) return fail(422, "Couldn't extract any text from that page");
+  await new Promise((r) => setTimeout(r, 1200)); // fetching + extraction is the slow part
+
+  const youtube = body?.kind === "youtube";
+  const text = youtube ? TRANSCRIPT : ARTICLE;
+  const now = new Date().toISOString();
+  const note: MockNote = {
+    id: nextId("note"),
+    userId: user!.id,
+    title: youtube ? `YouTube – ${u.searchParams.get("v") ?? "video"} (transcript)` : `${u.hostname}${u.pathname === "/" ? "" : u.pathname}`,
+    description: null,
+    source: "LINK",
+    rawText: body.url,
+    extractedText: text,
+    courseId: validCourseId(body?.courseId, user!),
+    tags: [],
+    favorite: false,
+    indexStatus: "none",
+    indexError: null,
+    indexJobId: null,
+    deletedAt: null,
+    contentHash: null,
+    createdAt: now,
+    updatedAt: now,
+  };
+  notes.push(note);
+  return ok({ note }, 201);
+});
+
+// Index jobs run "in the background": their state is derived from the time since they
+// started whenever someone looks, so there are no timers to clean up.
+const INDEX_QUEUE_MS = 800;
+const INDEX_MS_PER_CHUNK = 900;
+
+function advanceIndexJobs() {
+  const now = Date.now();
+  for (const job of indexJobs) {
+    if (job.status === "done" || job.status === "failed") continue;
+    const note = notes.find((n) => n.id === job.noteId);
+    const elapsed = now - job.startedAt - INDEX_QUEUE_MS;
+    if (elapsed < 0) continue;
+    const total = Math.max(2500, job.chunks * INDEX_MS_PER_CHUNK);
+    job.progress = Math.min(1, elapsed / total);
+    job.status = job.progress < 1 ? "running" : "done";
+    // very short notes can't be embedded: fail half-way so the retry path is easy to try
+    if (note && noteText(note).length < 20 && job.progress >= 0.5) {
+      job.status = "failed";
+      job.error = "Not enough text to index";
+    }
+    if (note?.indexJobId !== job.id) continue;
+    note.indexStatus = { queued: "queued", running: "indexing", done: "ready", failed: "failed" }[job.status] as MockNote["indexStatus"];
+    note.indexError = job.error;
+  }
+}
+
+function publicJob(job: MockIndexJob) {
+  const { userId: _userId, startedAt: _startedAt, ...rest } = job;
+  return rest;
+}
+
+route("POST", "/api/embeddings/index/:id", (req) => {
+  advanceIndexJobs();
+  const n = ownNote(req);
+  if (!n) return fail(404, "Note not found");
+  const running = indexJobs.find((j) => j.id === n.indexJobId && (j.status === "queued" || j.status === "running"));
+  if (running) return ok({ job: publicJob(running) }, 202);
+  const job: MockIndexJob = {
+    id: nextId("job"),
+    noteId: n.id,
+    userId: req.user!.id,
+    status: "queued",
+    progress: 0,
+    chunks: Math.max(1, Math.ceil(noteText(n).length / 500)),
+    error: null,
+    startedAt: Date.now(),
+  };
+  indexJobs.push(job);
+  n.indexStatus = "queued";
+  n.indexError = null;
+  n.indexJobId = job.id;
+  return ok({ job: publicJob(job) }, 202);
+});
+route("GET", "/api/embeddings/jobs/:id", ({ params, user }) => {
+  advanceIndexJobs();
+  const job = indexJobs.find((j) => j.id === params.id && j.userId === user!.id);
+  return job ? ok({ job: publicJob(job) }) : fail(404, "Job not found");
+});
+
+// courses
+function courseErrors(body: any, partial: boolean) {
+  const fieldErrors: Record<string, string[]> = {};
+  if ((!partial || body?.name !== undefined) && !String(body?.name ?? "").trim()) fieldErrors.name = ["Name is required"];
+  if ((!partial || body?.color !== undefined) && !/^#[0-9a-f]{6}$/i.test(body?.color ?? "")) fieldErrors.color = ["Pick a colour"];
+  if (body?.examDate && !/^\d{4}-\d{2}-\d{2}$/.test(body.examDate)) fieldErrors.examDate = ["Use YYYY-MM-DD"];
+  return Object.keys(fieldErrors).length ? badRequest(fieldErrors) : null;
+}
+
+route("GET", "/api/courses", ({ user }) =>
+  ok(courses.filter((c) => c.userId === user!.id).sort((a, b) => a.name.localeCompare(b.name)))
+);
+route("POST", "/api/courses", ({ body, user }) => {
+  const invalid = courseErrors(body, false);
+  if (invalid) return invalid;
+  const course: MockCourse = {
+    id: nextId("course"),
+    userId: user!.id,
+    name: body.name.trim(),
+    color: body.color,
+    examDate: body.examDate || null,
+    createdAt: new Date().toISOString(),
+  };
+  courses.push(course);
+  return ok({ course }, 201);
+});
+route("PATCH", "/api/courses/:id", ({ body, params, user }) => {
+  const c = courses.find((x) => x.id === params.id && x.userId === user!.id);
+  if (!c) return fail(404, "Course not found");
+  const invalid = courseErrors(body, true);
+  if (invalid) return invalid;
+  if (body.name !== undefined) c.name = body.name.trim();
+  if (body.color !== undefined) c.color = body.color;
+  if (body.examDate !== undefined) c.examDate = body.examDate || null;
+  return ok({ course: c });
+});
+route("DELETE", "/api/courses/:id", ({ params, user }) => {
+  const c = courses.find((x) => x.id === params.id && x.userId === user!.id);
+  if (!c) return fail(404, "Course not found");
+  courses = courses.filter((x) => x !== c);
+  notes.forEach((n) => {
+    if (n.courseId === c.id) n.courseId = null;
+  });
+  return ok();
+});
+
+// AI
+route("POST", "/api/chat", (req) => {
+  const n = notes.find((x) => x.id === req.body?.noteId && x.userId === req.user!.id && !x.deletedAt);
+  if (!n) return fail(404, "Note not found");
+  if (!req.body?.message?.trim()) return badRequest({ message: ["Message is required"] });
+  return ok({ reply: mockReply(n, req.body.message) });
+});
+route("POST", "/api/notes/:id/summary", (req) => {
+  const n = ownNote(req);
+  if (!n) return fail(404, "Note not found");
+  return ok({ summary: mockSummary(n, req.body?.style ?? "bullet", req.body?.length ?? "medium") });
+});
+route("POST", "/api/notes/:id/flashcards", (req) => {
+  const n = ownNote(req);
+  if (!n) return fail(404, "Note not found");
+  return ok({ cards: mockFlashcards(n, Number(req.body?.count) || 10) });
+});
+route("POST", "/api/notes/:id/quiz", (req) => {
+  const n = ownNote(req);
+  if (!n) return fail(404, "Note not found");
+  return ok({ quiz: mockQuiz(n, Number(req.body?.count) || 5, req.body?.difficulty ?? "medium") });
+});
+
+// ---------- fetch adapter ----------
+function delay(signal?: AbortSignal | null) {
+  const [min, max] = LATENCY_MS;
+  const ms = min + Math.random() * (max - min);
+  return new Promise<void>((resolve, reject) => {
+    const t = setTimeout(resolve, ms);
+    signal?.addEventListener?.("abort", () => {
+      clearTimeout(t);
+      const e = new Error("Aborted");
+      e.name = "AbortError";
+      reject(e);
+    });
+  });
+}
+
+function parseBody(body: RequestInit["body"]) {
+  if (typeof body !== "string") return body ?? null;
+  try {
+    return JSON.parse(body);
+  } catch {
+    return body;
+  }
+}
+
+/** fetch() look-alike for mock mode; `url` is whatever the client built from API_BASE ("mock/...") */
+export async function mockFetch(url: string, init: RequestInit = {}): Promise<Response> {
+  await delay(init.signal);
+
+  const method = (init.method ?? "GET").toUpperCase();
+  const path = url.replace(/^mock/, "").split("?")[0];
+  const headers = (init.headers ?? {}) as Record<string, string>;
+  const authHeader = headers.Authorization ?? headers.authorization ?? null;
+
+  let res: Res = fail(404, "NOT_FOUND");
+  for (const r of routes) {
+    const m = r.method === method ? path.match(r.pattern) : null;
+    if (!m) continue;
+    const user = userFromToken(authHeader);
+    if (r.auth && !user) {
+      res = fail(401, "UNAUTHORIZED");
+      break;
+    }
+    const params = Object.fromEntries(r.keys.map((k, i) => [k, decodeURIComponent(m[i + 1])]));
+    res = await r.handler({ method, path, params, body: parseBody(init.body), user });
+    break;
+  }
+
+  return new Response(JSON.stringify(res.json), {
+    status: res.status,
+    headers: { "Content-Type": "application/json" },
+  });
+}
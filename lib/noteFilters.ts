@@ -0,0 +1,55 @@
+import type { Note } from "@/lib/apiClient";
+
+export type NoteSort = "newest" | "oldest" | "title" | "favourites";
+
+export type NoteFilter = {
+  courseId?: string | null;
+  tag?: string | null;
+  favouritesOnly?: boolean;
+  sort?: NoteSort;
+};
+
+export const SORT_LABEL: Record<NoteSort, string> = {
+  newest: "Newest",
+  oldest: "Oldest",
+  title: "A–Z",
+  favourites: "Favourites first",
+};
+
+export const MAX_TAGS = 10;
+export const MAX_TAG_LENGTH = 24;
+// same limits the notes API enforces on PATCH
+export const MAX_TITLE_LENGTH = 120;
+export const MAX_DESCRIPTION_LENGTH = 500;
+
+/** Tags are compared lower-case without a leading "#" */
+export function normalizeTag(input: string): string {
+  return input.trim().replace(/^#+/, "").replace(/\s+/g, "-").toLowerCase().slice(0, MAX_TAG_LENGTH);
+}
+
+/** Every tag in use, most used first */
+export function allTags(notes: Note[]): string[] {
+  const counts = new Map<string, number>();
+  notes.forEach((n) => n.tags?.forEach((t) => counts.set(t, (counts.get(t) ?? 0) + 1)));
+  return [...counts.keys()].sort((a, b) => counts.get(b)! - counts.get(a)! || a.localeCompare(b));
+}
+
+export function filterNotes(notes: Note[], f: NoteFilter): Note[] {
+  const out = notes.filter(
+    (n) =>
+      (!f.courseId || n.courseId === f.courseId) &&
+      (!f.tag || !!n.tags?.includes(f.tag)) &&
+      (!f.favouritesOnly || !!n.favorite)
+  );
+  const newest = (a: Note, b: Note) => +new Date(b.createdAt) - +new Date(a.createdAt);
+  switch (f.sort ?? "newest") {
+    case "oldest":
+      return out.sort((a, b) => -newest(a, b));
+    case "title":
+      return out.sort((a, b) => (a.title || "").localeCompare(b.title || ""));
+    case "favourites":
+      return out.sort((a, b) => Number(!!b.favorite) - Number(!!a.favorite) || newest(a, b));
+    default:
+      return out.sort(newest);
+  }
+}
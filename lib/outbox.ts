@@ -0,0 +1,269 @@
+import { useEffect, useState } from "react";
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import NetInfo from "@react-native-community/netinfo";
+import * as api from "@/lib/apiClient";
+import {
+  ApiError,
+  errorMessage,
+  extractReply,
+  type SummaryLength,
+  type SummaryStyle,
+  type UploadAsset,
+} from "@/lib/apiClient";
+import { emit, on } from "@/lib/eventBus";
+import { runIndexJob } from "@/lib/indexJobs";
+import { addSummary } from "@/lib/summaries";
+import { CHAT_CACHE } from "@/lib/toolsCache";
+
+/**
+ * Persisted queue for work started while offline: uploads (+ auto-index),
+ * summaries and tutor questions. Items retry with exponential backoff once
+ * the device is back online; results are written to the same AsyncStorage
+ * keys the screens use, then announced via "outbox:done".
+ *
+ * Each item belongs to the account that queued it and only drains while that
+ * account is signed in, so a second account on the device never sends it.
+ */
+
+export type OutboxPayload =
+  | { kind: "upload"; asset: UploadAsset; courseId?: string | null; contentHash?: string | null }
+  | { kind: "summary"; noteId: string; style: SummaryStyle; length: SummaryLength }
+  | { kind: "chat"; noteId: string; message: string; replyId: string };
+
+export type OutboxItem = OutboxPayload & {
+  id: string;
+  ownerId: string;
+  createdAt: number;
+  attempts: number;
+  nextAttemptAt: number;
+  lastError?: string;
+};
+
+const STORAGE_KEY = "outbox:v1";
+const BASE_DELAY_MS = 5_000;
+const MAX_DELAY_MS = 5 * 60_000;
+// ~10 minutes of backoff in total; after that the item is reported as failed
+const MAX_ATTEMPTS = 8;
+
+// same key as notes.tsx / ai-tutor.tsx
+const LAST_INDEXED_KEY = "last-indexed-note-id";
+
+let items: OutboxItem[] | null = null;
+let owner: string | null = null; // signed-in user the queue drains for
+let processing = false;
+let online = true;
+let wakeTimer: ReturnType<typeof setTimeout> | null = null;
+
+async function load(): Promise<OutboxItem[]> {
+  if (items) return items;
+  try {
+    const raw = await AsyncStorage.getItem(STORAGE_KEY);
+    const parsed: OutboxItem[] = raw ? JSON.parse(raw) : [];
+    // items from before owners were recorded can't be attributed to anyone
+    items = parsed.filter((i) => !!i.ownerId);
+  } catch {
+    items = [];
+  }
+  return items!;
+}
+
+// Web blob: URLs die with the page, so those uploads only live in memory
+const persistable = (i: OutboxItem) => !(i.kind === "upload" && i.asset.uri.startsWith("blob:"));
+
+async function save(next: OutboxItem[]) {
+  items = next;
+  try {
+    await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(next.filter(persistable)));
+  } catch {}
+  emit("outbox:changed", {});
+}
+
+const mine = (i: OutboxItem) => !!owner && i.ownerId === owner;
+
+/** The signed-in user's queued items */
+export async function getOutboxItems(): Promise<OutboxItem[]> {
+  return (await load()).filter(mine);
+}
+
+export async function enqueue(payload: OutboxPayload): Promise<OutboxItem> {
+  if (!owner) throw new Error("Sign in to queue work for later.");
+  const now = Date.now();
+  const item: OutboxItem = {
+    ...payload,
+    id: `ob-${now}-${Math.random().toString(36).slice(2, 7)}`,
+    ownerId: owner,
+    createdAt: now,
+    attempts: 0,
+    nextAttemptAt: now,
+  };
+  await save([...(await load()), item]);
+  scheduleWake();
+  return item;
+}
+
+export async function removeOutboxItem(id: string) {
+  await save((await load()).filter((i) => i.id !== id));
+}
+
+/** Forget everything queued on this device (signing out) */
+export async function clearOutbox() {
+  await save([]);
+}
+
+/** Retry an item right away instead of waiting out its backoff */
+export async function retryNow(id: string) {
+  await save((await load()).map((i) => (i.id === id ? { ...i, nextAttemptAt: Date.now() } : i)));
+  void processOutbox();
+}
+
+/** fetch rejects with a TypeError when there's no connection (RN and browsers alike) */
+export function isNetworkError(e: unknown) {
+  return e instanceof TypeError;
+}
+
+/** Errors worth retrying: no response at all, or the server is having a bad moment */
+export function isRetryable(e: unknown) {
+  if (e instanceof ApiError) return e.status >= 500 || e.status === 408 || e.status === 429;
+  return isNetworkError(e);
+}
+
+// ---------- runners ----------
+async function run(item: OutboxItem): Promise<unknown> {
+  switch (item.kind) {
+    case "upload": {
+      const json = await api.uploadNote(item.asset, item.courseId, item.contentHash);
+      const noteId = json?.note?.id;
+      if (noteId) {
+        emit("notes:changed", { noteId });
+        // indexing failures shouldn't re-upload; the Notes screen can index manually
+        try {
+          await runIndexJob(noteId);
+          await AsyncStorage.setItem(LAST_INDEXED_KEY, noteId);
+        } catch (e) {
+          console.warn("[outbox] auto-index failed", e);
+        }
+      }
+      return json;
+    }
+    case "summary": {
+      const json = await api.summarize(item.noteId, { style: item.style, length: item.length });
+      const text = (json?.summary ?? "").trim();
+      await addSummary(item.noteId, { style: item.style, length: item.length, text });
+      return text;
+    }
+    case "chat": {
+      const payload = await api.chat(item.noteId, item.message);
+      const text =
+        extractReply(payload) ??
+        "I got a response, but couldn’t read it. Please try again or rephrase your question.";
+      await replaceChatPlaceholder(item.noteId, item.replyId, text);
+      return text;
+    }
+  }
+}
+
+async function replaceChatPlaceholder(noteId: string, replyId: string, text: string) {
+  try {
+    const raw = await AsyncStorage.getItem(CHAT_CACHE(noteId));
+    const msgs = raw ? JSON.parse(raw) : [];
+    if (!Array.isArray(msgs)) return;
+    const next = msgs.map((m: any) =>
+      m?.id === replyId ? { ...m, text, pending: false, ts: Date.now() } : m
+    );
+    await AsyncStorage.setItem(CHAT_CACHE(noteId), JSON.stringify(next));
+  } catch {}
+}
+
+export async function processOutbox() {
+  if (processing || !online) return;
+  processing = true;
+  try {
+    const due = (await load()).filter((i) => mine(i) && i.nextAttemptAt <= Date.now());
+    for (const item of due) {
+      if (!online || !mine(item)) break;
+      try {
+        const result = await run(item);
+        await save((await load()).filter((i) => i.id !== item.id));
+        emit("outbox:done", { item, result });
+      } catch (e) {
+        const msg = errorMessage(e, "Request failed");
+        // a 401 that survived the token refresh means the session is ending; signing
+        // out stops the queue, so back off rather than drop the user's work
+        const retryable = isRetryable(e) || (e instanceof ApiError && e.status === 401);
+        if (!retryable || item.attempts + 1 >= MAX_ATTEMPTS) {
+          await save((await load()).filter((i) => i.id !== item.id));
+          // don't leave the "waiting for connection" bubble in the saved chat
+          if (item.kind === "chat") await replaceChatPlaceholder(item.noteId, item.replyId, msg);
+          emit("outbox:failed", { item, error: msg });
+          continue;
+        }
+        const attempts = item.attempts + 1;
+        const delay = Math.min(BASE_DELAY_MS * 2 ** (attempts - 1), MAX_DELAY_MS);
+        await save(
+          (await load()).map((i) =>
+            i.id === item.id ? { ...i, attempts, nextAttemptAt: Date.now() + delay, lastError: msg } : i
+          )
+        );
+      }
+    }
+  } finally {
+    processing = false;
+    scheduleWake();
+  }
+}
+
+// Sleep until the earliest backoff expires
+function scheduleWake() {
+  if (wakeTimer) clearTimeout(wakeTimer);
+  wakeTimer = null;
+  const queued = items?.filter(mine) ?? [];
+  if (!queued.length || !online) return;
+  const next = Math.min(...queued.map((i) => i.nextAttemptAt));
+  wakeTimer = setTimeout(() => void processOutbox(), Math.max(next - Date.now(), 0));
+}
+
+/**
+ * Start draining `userId`'s queue and watching connectivity; returns a stop
+ * function. Call only while that user is signed in.
+ */
+export function startOutbox(userId: string) {
+  owner = userId;
+  emit("outbox:changed", {});
+  const unsubscribe = NetInfo.addEventListener((state) => {
+    const wasOnline = online;
+    online = state.isConnected !== false && state.isInternetReachable !== false;
+    if (online && !wasOnline) {
+      // connectivity is back: don't make users wait out a long backoff
+      void (async () => {
+        const now = Date.now();
+        await save((await load()).map((i) => ({ ...i, nextAttemptAt: Math.min(i.nextAttemptAt, now) })));
+        await processOutbox();
+      })();
+    } else if (!online && wakeTimer) {
+      clearTimeout(wakeTimer);
+      wakeTimer = null;
+    }
+  });
+  void processOutbox();
+
+  return () => {
+    owner = null;
+    unsubscribe();
+    if (wakeTimer) clearTimeout(wakeTimer);
+    wakeTimer = null;
+    emit("outbox:changed", {});
+  };
+}
+
+/** Live view of the queue for screens that show pending work */
+export function useOutbox(filter?: (item: OutboxItem) => boolean) {
+  const [list, setList] = useState<OutboxItem[]>([]);
+
+  useEffect(() => {
+    const refresh = () => void getOutboxItems().then(setList);
+    refresh();
+    return on("outbox:changed", refresh);
+  }, []);
+
+  return filter ? list.filter(filter) : list;
+}
@@ -0,0 +1,49 @@
+import type { Note } from "@/lib/apiClient";
+
+export type Page = { start: number; end: number };
+
+const PAGE_CHARS = 3500;
+
+/** What the backend pulled out of the upload, falling back to the text we sent it */
+export function readableText(n: Note): string {
+  return (n.extractedText ?? "").trim() || (n.rawText ?? "").trim();
+}
+
+/**
+ * Split long text into pages of roughly `size` characters, breaking at paragraph
+ * ends where possible, then at whitespace. Pages are offsets into `text` so
+ * search matches can be mapped back to the page they're on.
+ */
+export function paginate(text: string, size = PAGE_CHARS): Page[] {
+  if (!text) return [{ start: 0, end: 0 }];
+  const pages: Page[] = [];
+  let start = 0;
+  while (start < text.length) {
+    let end = Math.min(text.length, start + size);
+    if (end < text.length) {
+      const para = text.lastIndexOf("\n\n", end);
+      const space = text.lastIndexOf(" ", end);
+      // don't accept a break that leaves a tiny page
+      if (para > start + size / 2) end = para + 2;
+      else if (space > start + size / 2) end = space + 1;
+    }
+    pages.push({ start, end });
+    start = end;
+  }
+  return pages;
+}
+
+/** Start offsets of every case-insensitive occurrence of `query` */
+export function findAll(text: string, query: string): number[] {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return [];
+  const hay = text.toLowerCase();
+  const out: number[] = [];
+  for (let i = hay.indexOf(needle); i !== -1; i = hay.indexOf(needle, i + needle.length)) out.push(i);
+  return out;
+}
+
+export function pageOf(pages: Page[], offset: number): number {
+  const i = pages.findIndex((p) => offset >= p.start && offset < p.end);
+  return i === -1 ? pages.length - 1 : i;
+}
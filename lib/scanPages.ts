@@ -0,0 +1,124 @@
+import * as ImagePicker from "expo-image-picker";
+import { ImageManipulator, SaveFormat } from "expo-image-manipulator";
+import type { UploadAsset } from "@/lib/apiClient";
+import { MAX_UPLOAD_BYTES, fileSize, formatSize } from "@/lib/uploadValidation";
+
+/** Same limit the scan endpoint enforces */
+export const MAX_SCAN_PAGES = 20;
+
+export type ScanPage = {
+  id: string;
+  uri: string;
+  width: number;
+  height: number;
+  mimeType: string;
+  size?: number | null;
+};
+
+/** Fractions (0..1) trimmed off each edge */
+export type CropInsets = { top: number; right: number; bottom: number; left: number };
+
+export const NO_CROP: CropInsets = { top: 0, right: 0, bottom: 0, left: 0 };
+
+// phone photos are far bigger than OCR needs; this keeps a page well under the upload limit
+const MAX_EDGE_PX = 2400;
+const JPEG_QUALITY = 0.8;
+
+let seq = 0;
+const pageId = () => `page-${Date.now().toString(36)}-${(++seq).toString(36)}`;
+
+function toPage(a: ImagePicker.ImagePickerAsset): ScanPage {
+  return {
+    id: pageId(),
+    uri: a.uri,
+    width: a.width,
+    height: a.height,
+    mimeType: a.mimeType ?? "image/jpeg",
+    size: a.fileSize ?? null,
+  };
+}
+
+/**
+ * Pages straight from the camera or library are often far larger than OCR needs,
+ * and the picker doesn't always report a size. Shrink those (which also gives a
+ * known size) so the upload limit check in scanProblem sees real numbers.
+ */
+async function normalize(page: ScanPage): Promise<ScanPage> {
+  if (Math.max(page.width, page.height) <= MAX_EDGE_PX && page.size) return page;
+  return editPage(page, NO_CROP);
+}
+
+/** Camera capture; resolves null when the user backs out. Throws when camera access is denied. */
+export async function takePhoto(): Promise<ScanPage | null> {
+  const perm = await ImagePicker.requestCameraPermissionsAsync();
+  if (!perm.granted) throw new Error("Allow camera access in Settings to scan pages.");
+  const res = await ImagePicker.launchCameraAsync({ mediaTypes: ["images"], quality: JPEG_QUALITY });
+  return res.canceled || !res.assets?.[0] ? null : normalize(toPage(res.assets[0]));
+}
+
+/** Pick existing photos, in the order they were selected */
+export async function pickPhotos(limit: number): Promise<ScanPage[]> {
+  const res = await ImagePicker.launchImageLibraryAsync({
+    mediaTypes: ["images"],
+    allowsMultipleSelection: true,
+    orderedSelection: true,
+    selectionLimit: Math.max(1, limit),
+    quality: JPEG_QUALITY,
+  });
+  if (res.canceled) return [];
+  const pages: ScanPage[] = [];
+  // one at a time: each resize holds a full-size bitmap in memory
+  for (const asset of (res.assets ?? []).slice(0, limit)) pages.push(await normalize(toPage(asset)));
+  return pages;
+}
+
+/**
+ * Apply a crop and quarter-turn rotations, and shrink the page to a sensible size
+ * for OCR. Returns a new page (new file); the original is left alone.
+ */
+export async function editPage(page: ScanPage, crop: CropInsets, quarterTurns = 0): Promise<ScanPage> {
+  const ctx = ImageManipulator.manipulate(page.uri);
+  const turns = ((quarterTurns % 4) + 4) % 4;
+  if (turns) ctx.rotate(turns * 90);
+  // rotation swaps the axes the insets refer to
+  const [w, h] = turns % 2 ? [page.height, page.width] : [page.width, page.height];
+  const x = Math.round(w * crop.left);
+  const y = Math.round(h * crop.top);
+  const width = Math.max(1, Math.round(w * (1 - crop.left - crop.right)));
+  const height = Math.max(1, Math.round(h * (1 - crop.top - crop.bottom)));
+  if (x || y || width !== w || height !== h) ctx.crop({ originX: x, originY: y, width, height });
+  const longest = Math.max(width, height);
+  if (longest > MAX_EDGE_PX) {
+    ctx.resize(width >= height ? { width: MAX_EDGE_PX } : { height: MAX_EDGE_PX });
+  }
+  const image = await ctx.renderAsync();
+  const saved = await image.saveAsync({ compress: JPEG_QUALITY, format: SaveFormat.JPEG });
+  return {
+    id: pageId(),
+    uri: saved.uri,
+    width: saved.width,
+    height: saved.height,
+    mimeType: "image/jpeg",
+    size: await fileSize(saved.uri),
+  };
+}
+
+/** Why these pages can't be uploaded, or null */
+export function scanProblem(pages: ScanPage[]): string | null {
+  if (!pages.length) return "Add at least one page.";
+  if (pages.length > MAX_SCAN_PAGES) return `Up to ${MAX_SCAN_PAGES} pages per scan.`;
+  const total = pages.reduce((sum, p) => sum + (p.size ?? 0), 0);
+  if (total > MAX_UPLOAD_BYTES) {
+    const limit = formatSize(MAX_UPLOAD_BYTES);
+    return `These pages add up to ${formatSize(total)}; the limit is ${limit}. Remove or crop some.`;
+  }
+  return null;
+}
+
+export function pagesToAssets(pages: ScanPage[]): UploadAsset[] {
+  return pages.map((p, i) => ({
+    uri: p.uri,
+    name: `page-${i + 1}.${p.mimeType.split("/")[1]?.replace("jpeg", "jpg") || "jpg"}`,
+    mimeType: p.mimeType,
+  }));
+}
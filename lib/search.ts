@@ -0,0 +1,132 @@
+import type { Note } from "@/lib/apiClient";
+
+export type Range = [start: number, end: number];
+
+export type SearchHit = {
+  note: Note;
+  score: number;
+  titleRanges: Range[];
+  snippet: string;
+  snippetRanges: Range[];
+};
+
+const SNIPPET_BEFORE = 60;
+const SNIPPET_AFTER = 140;
+
+// weights: a title hit is worth a lot more than a body hit; exact phrases beat scattered words
+const W_TITLE = 10;
+const W_TITLE_PREFIX = 5;
+const W_BODY = 1;
+const MAX_BODY_HITS = 10;
+const W_PHRASE_TITLE = 20;
+const W_PHRASE_BODY = 8;
+
+export function queryTerms(query: string): string[] {
+  const words = query.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+  return [...new Set(words.filter((w) => w.length >= 2 || /\d/.test(w)))];
+}
+
+/** Everything searchable besides the title; LINK notes keep the URL in rawText */
+function noteBody(n: Note) {
+  const raw = (n.rawText ?? "").trim();
+  const extracted = (n.extractedText ?? "").trim();
+  if (raw && extracted && raw !== extracted) return `${extracted}\n\n${raw}`;
+  return extracted || raw;
+}
+
+function occurrences(haystack: string, needle: string, limit = Infinity): number[] {
+  const out: number[] = [];
+  let i = haystack.indexOf(needle);
+  while (i !== -1 && out.length < limit) {
+    out.push(i);
+    i = haystack.indexOf(needle, i + needle.length);
+  }
+  return out;
+}
+
+function rangesIn(text: string, terms: string[]): Range[] {
+  const lower = text.toLowerCase();
+  const ranges = terms.flatMap((t) => occurrences(lower, t).map((i): Range => [i, i + t.length]));
+  ranges.sort((a, b) => a[0] - b[0]);
+  // merge overlaps so highlighting never double-wraps
+  const merged: Range[] = [];
+  for (const r of ranges) {
+    const last = merged[merged.length - 1];
+    if (last && r[0] <= last[1]) last[1] = Math.max(last[1], r[1]);
+    else merged.push([...r]);
+  }
+  return merged;
+}
+
+function makeSnippet(body: string, at: number, terms: string[]) {
+  let start = Math.max(0, at - SNIPPET_BEFORE);
+  let end = Math.min(body.length, at + SNIPPET_AFTER);
+  // don't cut words in half
+  if (start > 0) {
+    const sp = body.indexOf(" ", start);
+    if (sp !== -1 && sp < at) start = sp + 1;
+  }
+  if (end < body.length) {
+    const sp = body.lastIndexOf(" ", end);
+    if (sp > at) end = sp;
+  }
+  const prefix = start > 0 ? "…" : "";
+  const text = prefix + body.slice(start, end).replace(/\s+/g, " ") + (end < body.length ? "…" : "");
+  return { text, ranges: rangesIn(text, terms) };
+}
+
+/**
+ * Rank notes against a free-text query. Every term has to appear in the title or
+ * the text; results are ordered by score, then newest first.
+ */
+export function searchNotes(notes: Note[], query: string, limit = 50): SearchHit[] {
+  const terms = queryTerms(query);
+  if (!terms.length) return [];
+  const phrase = terms.length > 1 ? query.toLowerCase().trim().replace(/\s+/g, " ") : null;
+
+  const hits: SearchHit[] = [];
+  for (const note of notes) {
+    const title = note.title || "";
+    const titleLower = title.toLowerCase();
+    const body = noteBody(note);
+    const bodyLower = body.toLowerCase();
+
+    let score = 0;
+    let firstBodyHit = -1;
+    let matchedAll = true;
+    for (const t of terms) {
+      const inTitle = occurrences(titleLower, t).length;
+      const inBody = occurrences(bodyLower, t, MAX_BODY_HITS);
+      if (!inTitle && !inBody.length) {
+        matchedAll = false;
+        break;
+      }
+      score += inTitle * W_TITLE + inBody.length * W_BODY;
+      if (new RegExp(`(^|[^\\p{L}\\p{N}])${t}`, "u").test(titleLower)) score += W_TITLE_PREFIX;
+      if (inBody.length && (firstBodyHit === -1 || inBody[0] < firstBodyHit)) firstBodyHit = inBody[0];
+    }
+    if (!matchedAll) continue;
+
+    if (phrase) {
+      if (titleLower.includes(phrase)) score += W_PHRASE_TITLE;
+      const at = bodyLower.indexOf(phrase);
+      if (at !== -1) {
+        score += W_PHRASE_BODY;
+        firstBodyHit = at;
+      }
+    }
+
+    const snippet = body ? makeSnippet(body, Math.max(firstBodyHit, 0), terms) : { text: "", ranges: [] };
+    hits.push({
+      note,
+      score,
+      titleRanges: rangesIn(title, terms),
+      snippet: snippet.text,
+      snippetRanges: snippet.ranges,
+    });
+  }
+
+  return hits
+    .sort((a, b) => b.score - a.score || +new Date(b.note.createdAt) - +new Date(a.note.createdAt))
+    .slice(0, limit);
+}
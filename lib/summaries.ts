@@ -0,0 +1,86 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import type { SummaryLength, SummaryStyle } from "@/lib/apiClient";
+import { SUMMARY_KEY } from "@/lib/toolsCache";
+
+/**
+ * Saved summary versions per note, stored as a JSON array under
+ * `note_summary_<noteId>` (oldest first). Older builds stored a single
+ * markdown string under the same key; that reads back as one bullet/medium
+ * version.
+ */
+
+export type SummaryVersion = {
+  id: string;
+  style: SummaryStyle;
+  length: SummaryLength;
+  text: string;
+  createdAt: number;
+  stale?: boolean; // the note was edited after this was generated
+};
+
+export const SUMMARY_STYLES: { value: SummaryStyle; label: string }[] = [
+  { value: "bullet", label: "Bullets" },
+  { value: "paragraph", label: "Paragraph" },
+  { value: "outline", label: "Outline" },
+  { value: "key-terms", label: "Key terms" },
+];
+
+export const SUMMARY_LENGTHS: { value: SummaryLength; label: string }[] = [
+  { value: "short", label: "Short" },
+  { value: "medium", label: "Medium" },
+  { value: "long", label: "Long" },
+];
+
+const MAX_VERSIONS = 10;
+
+export function summaryLabel(v: Pick<SummaryVersion, "style" | "length">) {
+  const style = SUMMARY_STYLES.find((s) => s.value === v.style)?.label ?? v.style;
+  const length = SUMMARY_LENGTHS.find((l) => l.value === v.length)?.label ?? v.length;
+  return `${style} · ${length}`;
+}
+
+export function parseSummaries(raw: string | null): SummaryVersion[] {
+  if (!raw) return [];
+  try {
+    const v = JSON.parse(raw);
+    if (Array.isArray(v)) return v.filter((x) => x && typeof x.text === "string");
+  } catch {}
+  // legacy: the bare markdown of a single summary
+  return [{ id: "legacy", style: "bullet", length: "medium", text: raw, createdAt: 0 }];
+}
+
+export async function getSummaries(noteId: string): Promise<SummaryVersion[]> {
+  try {
+    return parseSummaries(await AsyncStorage.getItem(SUMMARY_KEY(noteId)));
+  } catch {
+    return [];
+  }
+}
+
+async function save(noteId: string, versions: SummaryVersion[]) {
+  if (versions.length) await AsyncStorage.setItem(SUMMARY_KEY(noteId), JSON.stringify(versions));
+  else await AsyncStorage.removeItem(SUMMARY_KEY(noteId));
+}
+
+/** Append a version, dropping the oldest beyond MAX_VERSIONS */
+export async function addSummary(
+  noteId: string,
+  d: Pick<SummaryVersion, "style" | "length" | "text">
+): Promise<SummaryVersion> {
+  const version: SummaryVersion = { ...d, id: `sum-${Date.now()}`, createdAt: Date.now() };
+  const versions = [...(await getSummaries(noteId)), version].slice(-MAX_VERSIONS);
+  await save(noteId, versions);
+  return version;
+}
+
+/** Flag every saved version as written for an older revision of the note */
+export async function markSummariesStale(noteId: string) {
+  const versions = await getSummaries(noteId);
+  if (versions.some((v) => !v.stale)) await save(noteId, versions.map((v) => ({ ...v, stale: true })));
+}
+
+export async function removeSummary(noteId: string, versionId: string): Promise<SummaryVersion[]> {
+  const versions = (await getSummaries(noteId)).filter((v) => v.id !== versionId);
+  await save(noteId, versions);
+  return versions;
+}
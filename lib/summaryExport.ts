@@ -0,0 +1,195 @@
+import { Platform } from "react-native";
+import * as Print from "expo-print";
+import * as Sharing from "expo-sharing";
+import { File, Paths } from "expo-file-system";
+import { summaryLabel, type SummaryVersion } from "@/lib/summaries";
+
+export type ExportFormat = "markdown" | "text" | "html" | "pdf";
+
+export const EXPORT_FORMATS: { value: ExportFormat; label: string; hint: string }[] = [
+  { value: "markdown", label: "Markdown", hint: ".md — keeps headings and lists for other note apps" },
+  { value: "text", label: "Plain text", hint: ".txt — no formatting" },
+  { value: "html", label: "Web page", hint: ".html — opens in any browser" },
+  { value: "pdf", label: "PDF", hint: Platform.OS === "web" ? "Opens the print dialog; choose “Save as PDF”" : "Print-ready document" },
+];
+
+const FILE_TYPE: Record<Exclude<ExportFormat, "pdf">, { ext: string; mime: string; uti: string }> = {
+  markdown: { ext: "md", mime: "text/markdown", uti: "net.daringfireball.markdown" },
+  text: { ext: "txt", mime: "text/plain", uti: "public.plain-text" },
+  html: { ext: "html", mime: "text/html", uti: "public.html" },
+};
+
+type ExportInput = { title: string; version: SummaryVersion };
+
+// ---------- conversions ----------
+function escapeHtml(s: string) {
+  return s.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
+
+function inlineHtml(s: string) {
+  return escapeHtml(s)
+    .replace(/`([^`]+)`/g, "<code>$1</code>")
+    .replace(/\*\*([^*]+)\*\*/g, "<strong>$1</strong>")
+    .replace(/(^|[^\w*])[*_]([^*_]+)[*_](?=$|[^\w*])/g, "$1<em>$2</em>")
+    .replace(/\[([^\]]+)\]\((https?:[^)\s]+)\)/g, '<a href="$2">$1</a>');
+}
+
+/** Enough markdown for what the summarizer returns: headings, lists, quotes, paragraphs */
+export function markdownToHtml(md: string): string {
+  const out: string[] = [];
+  let list: "ul" | "ol" | null = null;
+  let para: string[] = [];
+  const flushPara = () => {
+    if (para.length) out.push(`<p>${inlineHtml(para.join(" "))}</p>`);
+    para = [];
+  };
+  const closeList = () => {
+    if (list) out.push(`</${list}>`);
+    list = null;
+  };
+
+  for (const line of md.split(/\r?\n/)) {
+    const heading = line.match(/^(#{1,6})\s+(.*)$/);
+    const bullet = line.match(/^\s*[-*+]\s+(.*)$/);
+    const numbered = line.match(/^\s*\d+[.)]\s+(.*)$/);
+    const quote = line.match(/^>\s?(.*)$/);
+    if (!line.trim()) {
+      flushPara();
+      closeList();
+    } else if (heading) {
+      flushPara();
+      closeList();
+      const level = heading[1].length;
+      out.push(`<h${level}>${inlineHtml(heading[2])}</h${level}>`);
+    } else if (bullet || numbered) {
+      flushPara();
+      const kind = bullet ? "ul" : "ol";
+      if (list !== kind) {
+        closeList();
+        out.push(`<${kind}>`);
+        list = kind;
+      }
+      out.push(`<li>${inlineHtml((bullet ?? numbered)![1])}</li>`);
+    } else if (quote) {
+      flushPara();
+      closeList();
+      out.push(`<blockquote>${inlineHtml(quote[1])}</blockquote>`);
+    } else {
+      closeList();
+      para.push(line.trim());
+    }
+  }
+  flushPara();
+  closeList();
+  return out.join("\n");
+}
+
+export function markdownToText(md: string): string {
+  return md
+    .split(/\r?\n/)
+    .map((line) =>
+      line
+        .replace(/^#{1,6}\s+(.*)$/, (_, h: string) => h.toUpperCase())
+        .replace(/^(\s*)[-*+]\s+/, "$1• ")
+        .replace(/^>\s?/, "")
+        .replace(/\*\*([^*]+)\*\*/g, "$1")
+        .replace(/(^|[^\w*])[*_]([^*_]+)[*_](?=$|[^\w*])/g, "$1$2")
+        .replace(/`([^`]+)`/g, "$1")
+        .replace(/\[([^\]]+)\]\(([^)\s]+)\)/g, "$1 ($2)")
+    )
+    .join("\n")
+    .trim();
+}
+
+function meta(v: SummaryVersion) {
+  return `${summaryLabel(v)} summary${v.createdAt ? ` · ${new Date(v.createdAt).toLocaleString()}` : ""}`;
+}
+
+export function summaryDocument({ title, version }: ExportInput): string {
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8" />
+<meta name="viewport" content="width=device-width, initial-scale=1" />
+<title>${escapeHtml(title)} — Summary</title>
+<style>
+  @page { margin: 20mm; }
+  body { font-family: -apple-system, "Segoe UI", Roboto, Helvetica, Arial, sans-serif; color: #111827; line-height: 1.55; max-width: 720px; margin: 0 auto; padding: 24px; }
+  header { border-bottom: 1px solid #E5E7EB; margin-bottom: 16px; padding-bottom: 8px; }
+  header h1 { font-size: 22px; margin: 0 0 4px; }
+  header p { color: #6B7280; font-size: 12px; margin: 0; }
+  h1, h2, h3 { line-height: 1.25; page-break-after: avoid; }
+  li, p, blockquote { page-break-inside: avoid; }
+  blockquote { border-left: 3px solid #E5E7EB; margin: 8px 0; padding-left: 12px; color: #4B5563; }
+  code { background: #F3F4F6; padding: 1px 4px; border-radius: 4px; font-size: 90%; }
+</style>
+</head>
+<body>
+<header>
+  <h1>${escapeHtml(title)}</h1>
+  <p>${escapeHtml(meta(version))}</p>
+</header>
+${markdownToHtml(version.text)}
+</body>
+</html>`;
+}
+
+function fileContent(format: Exclude<ExportFormat, "pdf">, input: ExportInput) {
+  if (format === "html") return summaryDocument(input);
+  if (format === "text") return `${input.title}\n${meta(input.version)}\n\n${markdownToText(input.version.text)}\n`;
+  return `# ${input.title}\n\n_${meta(input.version)}_\n\n${input.version.text}\n`;
+}
+
+export function exportFileName(title: string, ext: string) {
+  const base = title.replace(/\.[a-z0-9]{2,4}$/i, "").replace(/[^\p{L}\p{N}]+/gu, "-").replace(/^-+|-+$/g, "");
+  return `${(base || "note").slice(0, 60)}-summary.${ext}`;
+}
+
+// ---------- delivery ----------
+function downloadOnWeb(name: string, content: string, mime: string) {
+  const g = globalThis as any;
+  const url = g.URL.createObjectURL(new g.Blob([content], { type: `${mime};charset=utf-8` }));
+  const a = g.document.createElement("a");
+  a.href = url;
+  a.download = name;
+  a.click();
+  setTimeout(() => g.URL.revokeObjectURL(url), 1000);
+}
+
+function printOnWeb(html: string) {
+  const w = (globalThis as any).open?.("", "_blank");
+  if (!w) throw new Error("Allow pop-ups for this site to print or save as PDF.");
+  w.document.write(html);
+  w.document.close();
+  w.focus();
+  // give the new window a moment to lay out before opening the dialog
+  setTimeout(() => w.print(), 300);
+}
+
+async function share(uri: string, mimeType: string, UTI: string, title: string) {
+  if (!(await Sharing.isAvailableAsync())) throw new Error("Sharing isn't available on this device.");
+  await Sharing.shareAsync(uri, { mimeType, UTI, dialogTitle: `Share “${title}” summary` });
+}
+
+/**
+ * Share a summary version in the chosen format: the native share sheet on
+ * iOS/Android, a file download (or the print dialog for PDF) on web.
+ */
+export async function exportSummary(format: ExportFormat, input: ExportInput): Promise<void> {
+  if (format === "pdf") {
+    const html = summaryDocument(input);
+    if (Platform.OS === "web") return printOnWeb(html);
+    const { uri } = await Print.printToFileAsync({ html });
+    return share(uri, "application/pdf", "com.adobe.pdf", input.title);
+  }
+
+  const { ext, mime, uti } = FILE_TYPE[format];
+  const name = exportFileName(input.title, ext);
+  const content = fileContent(format, input);
+  if (Platform.OS === "web") return downloadOnWeb(name, content, mime);
+
+  const file = new File(Paths.cache, name);
+  file.create({ overwrite: true });
+  file.write(content);
+  await share(file.uri, mime, uti, input.title);
+}
@@ -1,11 +1,28 @@
 import AsyncStorage from "@react-native-async-storage/async-storage";
 
-const KEY_FC = (noteId: string) => `tools:flashcards:${noteId}`;
-const KEY_QZ = (noteId: string) => `tools:quiz:${noteId}`;
+// Everything cached on this device for a note lives under one of these prefixes
+const SUMMARY_PREFIX = "note_summary_";
+const CHAT_PREFIX = "ai-tutor:chat:";
+const FC_PREFIX = "tools:flashcards:";
+const QZ_PREFIX = "tools:quiz:";
+export const NOTE_CACHE_PREFIXES = [SUMMARY_PREFIX, CHAT_PREFIX, FC_PREFIX, QZ_PREFIX];
+
+export const SUMMARY_KEY = (noteId: string) => `${SUMMARY_PREFIX}${noteId}`;
+export const CHAT_CACHE = (noteId: string) => `${CHAT_PREFIX}${noteId}`;
+export const FC_CACHE = (noteId: string) => `${FC_PREFIX}${noteId}`;
+export const QZ_CACHE = (noteId: string) => `${QZ_PREFIX}${noteId}`;
+
+/** Every cache key for one note: summaries, tutor chat, flashcards, quiz */
+export const noteCacheKeys = (noteId: string) => [
+  SUMMARY_KEY(noteId),
+  CHAT_CACHE(noteId),
+  FC_CACHE(noteId),
+  QZ_CACHE(noteId),
+];
 
 export async function getFlashcards(noteId: string) {
   try {
-    const raw = await AsyncStorage.getItem(KEY_FC(noteId));
+    const raw = await AsyncStorage.getItem(FC_CACHE(noteId));
     return raw ? JSON.parse(raw) : null;
   } catch {
     return null;
@@ -13,13 +30,13 @@ export async function getFlashcards(noteId: string) {
 }
 export async function setFlashcards(noteId: string, cards: any) {
   try {
-    await AsyncStorage.setItem(KEY_FC(noteId), JSON.stringify(cards));
+    await AsyncStorage.setItem(FC_CACHE(noteId), JSON.stringify(cards));
   } catch {}
 }
 
 export async function getQuiz(noteId: string) {
   try {
-    const raw = await AsyncStorage.getItem(KEY_QZ(noteId));
+    const raw = await AsyncStorage.getItem(QZ_CACHE(noteId));
     return raw ? JSON.parse(raw) : null;
   } catch {
     return null;
@@ -27,12 +44,12 @@ export async function getQuiz(noteId: string) {
 }
 export async function setQuiz(noteId: string, quiz: any) {
   try {
-    await AsyncStorage.setItem(KEY_QZ(noteId), JSON.stringify(quiz));
+    await AsyncStorage.setItem(QZ_CACHE(noteId), JSON.stringify(quiz));
   } catch {}
 }
 
 export async function clearNoteTools(noteId: string) {
   try {
-    await AsyncStorage.multiRemove([KEY_FC(noteId), KEY_QZ(noteId)]);
+    await AsyncStorage.multiRemove([FC_CACHE(noteId), QZ_CACHE(noteId)]);
   } catch {}
 }
@@ -0,0 +1,46 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import * as api from "@/lib/apiClient";
+import { NOTE_CACHE_PREFIXES, noteCacheKeys } from "@/lib/toolsCache";
+
+// Per-note caches survive a move to the trash so a restored note comes back with its study material.
+
+/** Forget everything cached on this device for notes that have been purged */
+export async function clearNoteCaches(noteIds: string[]) {
+  if (!noteIds.length) return;
+  try {
+    await AsyncStorage.multiRemove(noteIds.flatMap(noteCacheKeys));
+  } catch {}
+}
+
+let swept = false;
+
+/**
+ * The server purges old trash on its own, so caches can outlive their note.
+ * Drops caches for ids that are neither in the notes list nor in the trash;
+ * runs once per app session unless `force` is set.
+ */
+export async function sweepPurgedCaches(force = false) {
+  if (swept && !force) return;
+  swept = true;
+  try {
+    const [notes, trash] = await Promise.all([api.listNotes(), api.listTrash()]);
+    const known = new Set([...notes, ...(trash.notes ?? [])].map((n) => n.id));
+    const stale = (await AsyncStorage.getAllKeys()).filter((k) => {
+      const prefix = NOTE_CACHE_PREFIXES.find((p) => k.startsWith(p));
+      return prefix && !known.has(k.slice(prefix.length));
+    });
+    if (stale.length) await AsyncStorage.multiRemove(stale);
+  } catch (e) {
+    // try again next time rather than risk clearing caches from a partial list
+    swept = false;
+    console.warn("Cache sweep failed", e);
+  }
+}
+
+/** "Purges in 3 days" style label for a trashed note */
+export function purgeLabel(purgeAt: string): string {
+  const days = Math.ceil((Date.parse(purgeAt) - Date.now()) / 86_400_000);
+  if (days <= 0) return "Deleted permanently soon";
+  if (days === 1) return "Deleted permanently tomorrow";
+  return `Deleted permanently in ${days} days`;
+}
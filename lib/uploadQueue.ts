@@ -0,0 +1,157 @@
+import { useCallback, useRef, useState } from "react";
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import * as api from "@/lib/apiClient";
+import { errorMessage, type UploadAsset } from "@/lib/apiClient";
+import { emit } from "@/lib/eventBus";
+import { runIndexJob } from "@/lib/indexJobs";
+import { enqueue, isNetworkError } from "@/lib/outbox";
+
+export type UploadStatus = "queued" | "uploading" | "indexing" | "done" | "failed" | "cancelled" | "offline";
+
+export type UploadJob = {
+  id: string;
+  name: string;
+  size?: number | null;
+  progress: number; // 0..1, upload bytes only
+  status: UploadStatus;
+  error?: string;
+  noteId?: string;
+  indexFailed?: boolean;
+};
+
+export type UploadSummary = { uploaded: number; failed: number; cancelled: number; offline: number; indexFailed: number };
+
+type PickedAsset = UploadAsset & { size?: number | null; contentHash?: string | null };
+
+const LAST_INDEXED_KEY = "last-indexed-note-id";
+const DEFAULT_CONCURRENCY = 3;
+
+const ACTIVE: UploadStatus[] = ["queued", "uploading", "indexing"];
+
+/**
+ * Uploads a batch of picked files a few at a time, auto-indexing each one.
+ * Files that fail for lack of a connection are handed to the offline outbox.
+ */
+export function useUploadQueue(opts: { concurrency?: number; onBatchDone?: (noteIds: string[]) => void } = {}) {
+  const { concurrency = DEFAULT_CONCURRENCY, onBatchDone } = opts;
+  const [jobs, setJobs] = useState<UploadJob[]>([]);
+  const controllers = useRef(new Map<string, AbortController>());
+
+  const patch = useCallback((id: string, p: Partial<UploadJob>) => {
+    setJobs((list) => list.map((j) => (j.id === id ? { ...j, ...p } : j)));
+  }, []);
+
+  const runOne = useCallback(
+    async (job: UploadJob, asset: PickedAsset, courseId: string | null): Promise<string | null> => {
+      const controller = controllers.current.get(job.id);
+      if (!controller || controller.signal.aborted) {
+        patch(job.id, { status: "cancelled" });
+        return null;
+      }
+
+      let noteId: string | undefined;
+      try {
+        patch(job.id, { status: "uploading" });
+        const json = await api.uploadNoteWithProgress(asset, {
+          signal: controller.signal,
+          courseId,
+          contentHash: asset.contentHash,
+          onProgress: (progress) => patch(job.id, { progress }),
+        });
+        noteId = json?.note?.id;
+        if (!noteId) throw new Error("The server didn't return the uploaded note.");
+      } catch (e: any) {
+        if (controller.signal.aborted || e?.name === "AbortError") {
+          patch(job.id, { status: "cancelled" });
+        } else if (isNetworkError(e)) {
+          await enqueue({
+            kind: "upload",
+            asset: { uri: asset.uri, name: asset.name, mimeType: asset.mimeType },
+            courseId,
+            contentHash: asset.contentHash,
+          });
+          patch(job.id, { status: "offline", error: "Queued until you're back online" });
+        } else {
+          console.error("Upload error", e);
+          patch(job.id, { status: "failed", error: errorMessage(e, "Upload failed") });
+        }
+        return null;
+      } finally {
+        controllers.current.delete(job.id);
+      }
+
+      emit("notes:changed", { noteId });
+      try {
+        patch(job.id, { status: "indexing", progress: 1, noteId });
+        await runIndexJob(noteId);
+        await AsyncStorage.setItem(LAST_INDEXED_KEY, noteId).catch(() => {});
+        patch(job.id, { status: "done" });
+      } catch (e) {
+        // the upload itself worked; the note card still offers "Index"
+        console.error("Auto-indexing error", e);
+        patch(job.id, { status: "done", indexFailed: true, error: errorMessage(e, "Indexing failed") });
+      }
+      return noteId;
+    },
+    [patch]
+  );
+
+  const start = useCallback(
+    /** `courseId` files the whole batch under a course */
+    async (assets: PickedAsset[], courseId: string | null = null) => {
+      const batch = assets.map((asset, i) => {
+        const job: UploadJob = {
+          id: `up-${Date.now()}-${i}`,
+          name: asset.name || "upload",
+          size: asset.size,
+          progress: 0,
+          status: "queued",
+        };
+        controllers.current.set(job.id, new AbortController());
+        return { job, asset };
+      });
+      // a new batch replaces the finished rows of the previous one
+      setJobs((list) => [...list.filter((j) => ACTIVE.includes(j.status)), ...batch.map((b) => b.job)]);
+
+      const noteIds: string[] = [];
+      let next = 0;
+      const worker = async () => {
+        while (next < batch.length) {
+          const { job, asset } = batch[next++];
+          const id = await runOne(job, asset, courseId);
+          if (id) noteIds.push(id);
+        }
+      };
+      await Promise.all(Array.from({ length: Math.min(concurrency, batch.length) }, worker));
+      onBatchDone?.(noteIds);
+    },
+    [concurrency, runOne, onBatchDone]
+  );
+
+  const cancel = useCallback((id: string) => {
+    controllers.current.get(id)?.abort();
+  }, []);
+
+  const cancelAll = useCallback(() => {
+    controllers.current.forEach((c) => c.abort());
+  }, []);
+
+  /** Clear finished rows once the user has read the summary */
+  const dismiss = useCallback(() => {
+    setJobs((list) => list.filter((j) => ACTIVE.includes(j.status)));
+  }, []);
+
+  const running = jobs.some((j) => ACTIVE.includes(j.status));
+  const summary: UploadSummary | null =
+    jobs.length && !running
+      ? {
+          uploaded: jobs.filter((j) => j.status === "done").length,
+          failed: jobs.filter((j) => j.status === "failed").length,
+          cancelled: jobs.filter((j) => j.status === "cancelled").length,
+          offline: jobs.filter((j) => j.status === "offline").length,
+          indexFailed: jobs.filter((j) => j.indexFailed).length,
+        }
+      : null;
+
+  return { jobs, running, summary, start, cancel, cancelAll, dismiss };
+}
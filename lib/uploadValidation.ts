@@ -0,0 +1,83 @@
+import { Platform } from "react-native";
+import * as Crypto from "expo-crypto";
+import { File } from "expo-file-system";
+import type { UploadAsset } from "@/lib/apiClient";
+
+/** Largest file the upload endpoint accepts */
+export const MAX_UPLOAD_BYTES = 25 * 1024 * 1024;
+
+// What the backend can extract text from, with the extensions we accept when the
+// picker doesn't report a MIME type (or reports application/octet-stream)
+const SUPPORTED_TYPES: Record<string, string[]> = {
+  "application/pdf": ["pdf"],
+  "application/msword": ["doc"],
+  "application/vnd.openxmlformats-officedocument.wordprocessingml.document": ["docx"],
+  "application/vnd.openxmlformats-officedocument.presentationml.presentation": ["pptx"],
+  "text/plain": ["txt"],
+  "text/markdown": ["md", "markdown"],
+  "image/jpeg": ["jpg", "jpeg"],
+  "image/png": ["png"],
+  "image/webp": ["webp"],
+  "image/heic": ["heic"],
+};
+
+/** `type` for DocumentPicker so unsupported files are greyed out where the OS allows it */
+export const PICKER_TYPES = Object.keys(SUPPORTED_TYPES);
+
+export const SUPPORTED_LABEL = "PDF, Word, PowerPoint, text, Markdown or an image";
+
+export type PickedFile = UploadAsset & { size?: number | null };
+
+export function formatSize(bytes: number) {
+  if (bytes < 1024 * 1024) return `${Math.max(1, Math.round(bytes / 1024))} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+function extension(name?: string | null) {
+  const m = /\.([a-z0-9]+)$/i.exec(name ?? "");
+  return m ? m[1].toLowerCase() : "";
+}
+
+/** Why a picked file can't be uploaded, or null when it's fine */
+export function uploadProblem(file: PickedFile): string | null {
+  const mime = (file.mimeType ?? "").toLowerCase();
+  const ext = extension(file.name);
+  const known = SUPPORTED_TYPES[mime] ?? Object.values(SUPPORTED_TYPES).find((exts) => exts.includes(ext));
+  if (!known) return `Unsupported file type. Upload ${SUPPORTED_LABEL}.`;
+  if (file.size && file.size > MAX_UPLOAD_BYTES) {
+    return `Too large (${formatSize(file.size)}). The limit is ${formatSize(MAX_UPLOAD_BYTES)}.`;
+  }
+  if (file.size === 0) return "The file is empty.";
+  if (file.size == null) return "Couldn't read this file.";
+  return null;
+}
+
+/** Bytes on disk, or null when the file can't be read */
+export async function fileSize(uri: string): Promise<number | null> {
+  try {
+    return Platform.OS === "web" ? (await (await fetch(uri)).blob()).size : new File(uri).size;
+  } catch {
+    return null;
+  }
+}
+
+/** Fill in `size` where the picker didn't report one, so uploadProblem can check it */
+export async function withSize<T extends PickedFile>(file: T): Promise<T> {
+  return file.size != null ? file : { ...file, size: await fileSize(file.uri) };
+}
+
+/**
+ * SHA-256 of the file's bytes as hex, used to spot re-uploads of the same file.
+ * Resolves null when the file can't be read; callers then skip the duplicate check.
+ */
+export async function contentHash(uri: string): Promise<string | null> {
+  try {
+    const bytes =
+      Platform.OS === "web" ? new Uint8Array(await (await fetch(uri)).arrayBuffer()) : await new File(uri).bytes();
+    const digest = await Crypto.digest(Crypto.CryptoDigestAlgorithm.SHA256, bytes);
+    return Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, "0")).join("");
+  } catch (e) {
+    console.warn("Couldn't hash file", e);
+    return null;
+  }
+}
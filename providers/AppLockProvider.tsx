@@ -0,0 +1,229 @@
+import React, { createContext, useCallback, useContext, useEffect, useRef, useState } from "react";
+import { ActivityIndicator, AppState, Platform, StyleSheet, View } from "react-native";
+import {
+  type AppLockSettings,
+  type PinCheck,
+  authenticateWithBiometrics,
+  biometricsAvailable,
+  checkPin,
+  clearPin,
+  getLockSettings,
+  pinFailureMessage,
+  setLockSettings,
+  setPin,
+  WrongPinError,
+} from "@/lib/appLock";
+import { clearTokenCache, setTokens } from "@/lib/apiClient";
+import { emit } from "@/lib/eventBus";
+import { clearOutbox } from "@/lib/outbox";
+import LockScreen from "@/components/LockScreen";
+
+type AppLockContextValue = {
+  settings: AppLockSettings;
+  locked: boolean;
+  canUseBiometrics: boolean;
+  enableLock: (pin: string) => Promise<void>;
+  /** Both reject with a WrongPinError when `currentPin` is wrong */
+  disableLock: (currentPin: string) => Promise<void>;
+  changePin: (currentPin: string, pin: string) => Promise<void>;
+  updateSettings: (patch: Partial<Omit<AppLockSettings, "enabled">>) => Promise<void>;
+  unlockWithPin: (pin: string) => Promise<PinCheck>;
+  unlockWithBiometrics: () => Promise<boolean>;
+  /** Forgot PIN: signs out on this device and turns the lock off */
+  resetLock: () => Promise<void>;
+  /** Typing counts as activity; text inputs that take long input call this on change */
+  noteActivity: () => void;
+};
+
+const ACTIVITY_THROTTLE_MS = 1000;
+const WEB_ACTIVITY_EVENTS = ["keydown", "input", "pointerdown", "pointermove", "wheel"] as const;
+
+const AppLockContext = createContext<AppLockContextValue | null>(null);
+
+/**
+ * Sits above <AuthProvider>. While locked on cold start nothing below it is mounted,
+ * so tokens are not read from secure storage until the user unlocks. Relocking after
+ * the idle timeout covers the app with the lock screen instead of unmounting it, so
+ * uploads, replies and drafts in progress survive; it drops the in-memory token copies.
+ */
+export function AppLockProvider({ children }: { children: React.ReactNode }) {
+  const [ready, setReady] = useState(false);
+  const [settings, setSettings] = useState<AppLockSettings | null>(null);
+  const [locked, setLocked] = useState(false);
+  const [mounted, setMounted] = useState(false); // children mounted at least once
+  const [canUseBiometrics, setCanUseBiometrics] = useState(false);
+
+  const lastActiveRef = useRef(Date.now());
+  const idleTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  useEffect(() => {
+    (async () => {
+      const [s, bio] = await Promise.all([getLockSettings(), biometricsAvailable()]);
+      setSettings(s);
+      setCanUseBiometrics(bio);
+      setLocked(s.enabled);
+      setMounted(!s.enabled);
+      setReady(true);
+    })();
+  }, []);
+
+  const lock = useCallback(() => {
+    clearTokenCache();
+    setLocked(true);
+  }, []);
+
+  // Foreground inactivity: restart the countdown on every touch, key, pointer move or edit
+  const bumpActivity = useCallback(() => {
+    lastActiveRef.current = Date.now();
+    if (idleTimerRef.current) clearTimeout(idleTimerRef.current);
+    if (!settings?.enabled || locked || settings.idleTimeoutMs <= 0) return;
+    idleTimerRef.current = setTimeout(lock, settings.idleTimeoutMs);
+  }, [settings, locked, lock]);
+
+  useEffect(() => {
+    bumpActivity();
+    return () => {
+      if (idleTimerRef.current) clearTimeout(idleTimerRef.current);
+    };
+  }, [bumpActivity]);
+
+  // Background time counts as idle; timers don't fire while suspended
+  useEffect(() => {
+    const sub = AppState.addEventListener("change", (state) => {
+      if (!settings?.enabled || locked) return;
+      if (state === "background") {
+        lastActiveRef.current = Date.now();
+        if (settings.idleTimeoutMs === 0) lock();
+      } else if (state === "active") {
+        if (Date.now() - lastActiveRef.current >= settings.idleTimeoutMs) lock();
+        else bumpActivity();
+      }
+    });
+    return () => sub.remove();
+  }, [settings, locked, lock, bumpActivity]);
+
+  // Throttled for the high-frequency sources (pointer moves, keystrokes)
+  const noteActivity = useCallback(() => {
+    if (Date.now() - lastActiveRef.current >= ACTIVITY_THROTTLE_MS) bumpActivity();
+  }, [bumpActivity]);
+
+  // Web: keyboard and mouse use never produce touch events
+  useEffect(() => {
+    const doc = (globalThis as any).document;
+    if (Platform.OS !== "web" || !doc) return;
+    for (const type of WEB_ACTIVITY_EVENTS) doc.addEventListener(type, noteActivity, true);
+    return () => {
+      for (const type of WEB_ACTIVITY_EVENTS) doc.removeEventListener(type, noteActivity, true);
+    };
+  }, [noteActivity]);
+
+  const persist = async (next: AppLockSettings) => {
+    setSettings(next);
+    await setLockSettings(next);
+  };
+
+  const unlock = () => {
+    setLocked(false);
+    setMounted(true);
+    lastActiveRef.current = Date.now();
+  };
+
+  const requirePin = async (pin: string) => {
+    const check = await checkPin(pin);
+    if (!check.ok) throw new WrongPinError(pinFailureMessage(check));
+  };
+
+  const enableLock = async (pin: string) => {
+    await setPin(pin);
+    await persist({ ...(settings as AppLockSettings), enabled: true, useBiometrics: canUseBiometrics });
+  };
+
+  const turnOff = async () => {
+    await clearPin();
+    await persist({ ...(settings as AppLockSettings), enabled: false });
+  };
+
+  const disableLock = async (currentPin: string) => {
+    await requirePin(currentPin);
+    await turnOff();
+  };
+
+  const changePin = async (currentPin: string, pin: string) => {
+    await requirePin(currentPin);
+    await setPin(pin);
+  };
+
+  const updateSettings = async (patch: Partial<Omit<AppLockSettings, "enabled">>) => {
+    await persist({ ...(settings as AppLockSettings), ...patch });
+  };
+
+  const unlockWithPin = async (pin: string) => {
+    const check = await checkPin(pin);
+    if (check.ok) unlock();
+    return check;
+  };
+
+  const unlockWithBiometrics = async () => {
+    const ok = await authenticateWithBiometrics();
+    if (ok) unlock();
+    return ok;
+  };
+
+  const resetLock = async () => {
+    await setTokens(null, null);
+    await clearOutbox();
+    emit("auth:expired", {});
+    await turnOff();
+    unlock();
+  };
+
+  if (!ready || !settings) {
+    return (
+      <View className="flex-1 items-center justify-center bg-light-bg dark:bg-dark-bg">
+        <ActivityIndicator />
+      </View>
+    );
+  }
+
+  return (
+    <AppLockContext.Provider
+      value={{
+        settings,
+        locked,
+        canUseBiometrics,
+        enableLock,
+        disableLock,
+        changePin,
+        updateSettings,
+        unlockWithPin,
+        unlockWithBiometrics,
+        resetLock,
+        noteActivity,
+      }}
+    >
+      {mounted ? (
+        // hidden from touch and screen readers while the lock screen covers it
+        <View
+          style={{ flex: 1 }}
+          onTouchStart={bumpActivity}
+          pointerEvents={locked ? "none" : "auto"}
+          importantForAccessibility={locked ? "no-hide-descendants" : "auto"}
+          aria-hidden={locked}
+        >
+          {children}
+        </View>
+      ) : null}
+      {locked ? (
+        <View style={StyleSheet.absoluteFill}>
+          <LockScreen />
+        </View>
+      ) : null}
+    </AppLockContext.Provider>
+  );
+}
+
+export function useAppLock() {
+  const ctx = useContext(AppLockContext);
+  if (!ctx) throw new Error("useAppLock must be used within <AppLockProvider>");
+  return ctx;
+}
@@ -1,113 +1,70 @@
-import React, { createContext, useContext, useEffect, useState } from "react";
-import { getItem, setItem, deleteItem } from "@/lib/secureStorage";
-import { getApiBase } from "@/constants/api";
+import React, { createContext, useContext, useEffect, useReducer, useState } from "react";
+import { AppState } from "react-native";
+import {
+  AUTH_BASE,
+  ApiError,
+  apiFetch,
+  TOKEN_REFRESH_SKEW_MS,
+  authFetch,
+  ensureFreshAccessToken,
+  formDataWithFile,
+  getTokens,
+  refreshAccessToken,
+  setTokens,
+  tokenExpiry,
+  type UploadAsset,
+} from "@/lib/apiClient";
+import { on } from "@/lib/eventBus";
+import { clearOutbox } from "@/lib/outbox";
 
-type User = { id: string; email: string; role: string; name?: string };
+export type User = {
+  id: string;
+  email: string;
+  role: string;
+  name?: string;
+  emailVerified?: boolean; // from /api/auth/me; absent on older backends = treat as verified
+  avatarUrl?: string | null;
+};
+export type ProfileUpdate = { name?: string; email?: string; avatar?: UploadAsset };
+export type Session = {
+  id: string;
+  device?: string | null; // server-derived label (user agent / platform)
+  ip?: string | null;
+  createdAt: string;
+  lastUsedAt?: string | null;
+  current?: boolean;
+};
 type AuthContextValue = {
   user: User | null;
   loading: boolean;
-  signIn: (d: { email: string; password: string }) => Promise<void>;
-  signUp: (d: { name: string; email: string; password: string }) => Promise<void>;
+  /** When the current access token expires (epoch ms); renewed automatically before then */
+  sessionExpiresAt: number | null;
+  /** Signed in but email not confirmed yet; uploads and AI features stay locked */
+  needsVerification: boolean;
+  signIn: (d: { email: string; password: string }) => Promise<User>;
+  signUp: (d: { name: string; email: string; password: string }) => Promise<User>;
+  verifyEmail: (code: string) => Promise<void>;
+  resendVerification: () => Promise<void>;
   signOut: () => Promise<void>;
+  signOutEverywhere: () => Promise<void>;
+  listSessions: () => Promise<Session[]>;
+  revokeSession: (id: string) => Promise<void>;
+  requestPasswordReset: (email: string) => Promise<void>;
+  resetPassword: (d: { token: string; password: string }) => Promise<void>;
+  updateProfile: (d: ProfileUpdate) => Promise<void>;
+  changePassword: (d: { currentPassword: string; newPassword: string }) => Promise<void>;
   refreshProfile: () => Promise<void>;
   getAccessToken: () => Promise<string | null>;
 };
 
-const AuthContext = createContext<AuthContextValue | null>(null);
-
-// ---------- Config ----------
-const API_BASE = getApiBase();
-const AUTH_BASE = `${API_BASE}/api/auth`;
-
-// ---------- Token keys + in-memory shadow ----------
-const ACCESS_KEY = "accessToken";
-const REFRESH_KEY = "refreshToken";
-
-let accessTokenMem: string | null = null;
-let refreshTokenMem: string | null = null;
-let refreshInFlight: Promise<string> | null = null;
-
-async function getTokens() {
-  if (!accessTokenMem) accessTokenMem = await getItem(ACCESS_KEY);
-  if (!refreshTokenMem) refreshTokenMem = await getItem(REFRESH_KEY);
-  return { accessToken: accessTokenMem, refreshToken: refreshTokenMem };
-}
-
-async function setTokens(a: string | null, r: string | null) {
-  accessTokenMem = a;
-  refreshTokenMem = r;
-
-  if (a) await setItem(ACCESS_KEY, a);
-  else await deleteItem(ACCESS_KEY);
-
-  if (r) await setItem(REFRESH_KEY, r);
-  else await deleteItem(REFRESH_KEY);
-}
-
-// ---------- Low-level helpers aligned with your routes.ts ----------
-async function refreshAccessToken(): Promise<string> {
-  const { refreshToken } = await getTokens();
-  if (!refreshToken) throw new Error("No refresh token");
-
-  if (refreshInFlight) return refreshInFlight;
-
-  refreshInFlight = (async () => {
-    const res = await fetch(`${AUTH_BASE}/refresh`, {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({ refreshToken }),
-    });
-    const json = await res.json().catch(() => ({}));
-    if (!res.ok || !json?.accessToken) {
-      await setTokens(null, null);
-      refreshInFlight = null;
-      throw Object.assign(new Error("UNAUTHORIZED"), { status: 401, json });
-    }
-    await setTokens(json.accessToken, refreshToken);
-    refreshInFlight = null;
-    return json.accessToken as string;
-  })();
-
-  try {
-    return await refreshInFlight;
-  } finally {
-    refreshInFlight = null;
-  }
-}
-
-async function authFetch<T>(path: string, init: RequestInit = {}, retry = true): Promise<T> {
-  const { accessToken } = await getTokens();
-  const headers = {
-    "Content-Type": "application/json",
-    ...(init.headers || {}),
-    ...(accessToken ? { Authorization: `Bearer ${accessToken}` } : {}),
-  };
-
-  const res = await fetch(`${API_BASE}${path}`, { ...init, headers });
-  if (res.status !== 401) {
-    const json = (await res.json().catch(() => ({}))) as T;
-    if (!res.ok) throw Object.assign(new Error("Request failed"), { status: res.status, json });
-    return json;
-  }
+// largest delay setTimeout accepts (2^31 - 1 ms)
+const MAX_TIMER_MS = 2 ** 31 - 1;
 
-  if (!retry) {
-    const json = await res.json().catch(() => ({}));
-    throw Object.assign(new Error("UNAUTHORIZED"), { status: 401, json });
-  }
-
-  const newAccess = await refreshAccessToken();
-  const res2 = await fetch(`${API_BASE}${path}`, {
-    ...init,
-    headers: { ...headers, Authorization: `Bearer ${newAccess}` },
-  });
-  const json2 = (await res2.json().catch(() => ({}))) as T;
-  if (!res2.ok) throw Object.assign(new Error("Request failed"), { status: res2.status, json: json2 });
-  return json2;
-}
+const AuthContext = createContext<AuthContextValue | null>(null);
 
 // ---------- Public API wrappers (exactly your existing endpoints) ----------
 async function apiRegister(d: { name: string; email: string; password: string }): Promise<User> {
-  const res = await fetch(`${AUTH_BASE}/register`, {
+  const res = await apiFetch(`${AUTH_BASE}/register`, {
     method: "POST",
     headers: { "Content-Type": "application/json" },
     body: JSON.stringify({
@@ -118,7 +75,7 @@ async function apiRegister(d: { name: string; email: string; password: string })
   });
   const json = await res.json().catch(() => ({}));
   if (!res.ok) {
-    throw Object.assign(new Error("REGISTER_FAILED"), { status: res.status, json });
+    throw new ApiError("REGISTER_FAILED", res.status, json);
   }
   const { accessToken, refreshToken, user } = json;
   await setTokens(accessToken, refreshToken);
@@ -126,7 +83,7 @@ async function apiRegister(d: { name: string; email: string; password: string })
 }
 
 async function apiLogin(d: { email: string; password: string }): Promise<User> {
-  const res = await fetch(`${AUTH_BASE}/login`, {
+  const res = await apiFetch(`${AUTH_BASE}/login`, {
     method: "POST",
     headers: { "Content-Type": "application/json" },
     body: JSON.stringify({
@@ -136,22 +93,112 @@ async function apiLogin(d: { email: string; password: string }): Promise<User> {
   });
   const json = await res.json().catch(() => ({}));
   if (!res.ok) {
-    throw Object.assign(new Error("LOGIN_FAILED"), { status: res.status, json });
+    throw new ApiError("LOGIN_FAILED", res.status, json);
   }
   const { accessToken, refreshToken, user } = json;
   await setTokens(accessToken, refreshToken);
   return user as User;
 }
 
+// Always resolves on 2xx, even for unknown emails (the server doesn't leak which exist)
+async function apiForgotPassword(email: string): Promise<void> {
+  const res = await apiFetch(`${AUTH_BASE}/password/forgot`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ email: email.trim().toLowerCase() }),
+  });
+  const json = await res.json().catch(() => ({}));
+  if (!res.ok) {
+    throw new ApiError("FORGOT_PASSWORD_FAILED", res.status, json);
+  }
+}
+
+async function apiResetPassword(d: { token: string; password: string }): Promise<void> {
+  const res = await apiFetch(`${AUTH_BASE}/password/reset`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ token: d.token.trim(), password: d.password }),
+  });
+  const json = await res.json().catch(() => ({}));
+  if (!res.ok) {
+    throw new ApiError("RESET_PASSWORD_FAILED", res.status, json);
+  }
+}
+
+async function apiVerifyEmail(code: string): Promise<void> {
+  await authFetch(`/api/auth/verify-email`, {
+    method: "POST",
+    body: JSON.stringify({ code: code.trim() }),
+  });
+}
+
+async function apiResendVerification(): Promise<void> {
+  await authFetch(`/api/auth/verify-email/resend`, { method: "POST" });
+}
+
+async function apiUpdateMe(d: { name?: string; email?: string }): Promise<void> {
+  await authFetch(`/api/auth/me`, {
+    method: "PATCH",
+    body: JSON.stringify({
+      ...(d.name !== undefined ? { name: d.name.trim() } : {}),
+      ...(d.email !== undefined ? { email: d.email.trim().toLowerCase() } : {}),
+    }),
+  });
+}
+
+async function apiUploadAvatar(asset: UploadAsset): Promise<void> {
+  const form = await formDataWithFile("avatar", asset);
+  await authFetch(`/api/auth/me/avatar`, { method: "POST", body: form });
+}
+
+// Some servers answer a wrong current password with 401; that isn't an expired
+// session, so don't refresh and retry (the token was made fresh just before)
+async function apiChangePassword(d: { currentPassword: string; newPassword: string }): Promise<void> {
+  await authFetch(
+    `/api/auth/password/change`,
+    {
+      method: "POST",
+      body: JSON.stringify(d),
+    },
+    false
+  );
+}
+
 async function apiMe(): Promise<User> {
   const data = await authFetch<{ user: User }>(`/api/auth/me`, { method: "GET" });
   return data.user;
 }
 
+// Revokes this device's refresh token server-side
+async function apiLogout(): Promise<void> {
+  const { refreshToken } = await getTokens();
+  if (!refreshToken) return;
+  await authFetch(`/api/auth/logout`, {
+    method: "POST",
+    body: JSON.stringify({ refreshToken }),
+  });
+}
+
+// Revokes every refresh token for the account, this device included
+async function apiLogoutAll(): Promise<void> {
+  await authFetch(`/api/auth/logout-all`, { method: "POST" });
+}
+
+async function apiSessions(): Promise<Session[]> {
+  const data = await authFetch<{ sessions: Session[] }>(`/api/auth/sessions`, { method: "GET" });
+  return data.sessions ?? [];
+}
+
+async function apiRevokeSession(id: string): Promise<void> {
+  await authFetch(`/api/auth/sessions/${id}`, { method: "DELETE" });
+}
+
 // ---------- Provider ----------
 export function AuthProvider({ children }: { children: React.ReactNode }) {
   const [user, setUser] = useState<User | null>(null);
   const [loading, setLoading] = useState(true);
+  const [sessionExpiresAt, setSessionExpiresAt] = useState<number | null>(null);
+  const [refreshTick, rearmRefresh] = useReducer((n: number) => n + 1, 0);
 
   const refreshProfile = async () => {
     try {
@@ -165,32 +212,125 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
   useEffect(() => {
     (async () => {
       await refreshProfile();
+      const { accessToken } = await getTokens();
+      setSessionExpiresAt(tokenExpiry(accessToken));
       setLoading(false);
     })();
   }, []);
 
+  // The API client clears tokens when a refresh is rejected; drop the user too
+  useEffect(() => on("auth:expired", () => setUser(null)), []);
+  useEffect(() => on("auth:tokens", ({ expiresAt }) => setSessionExpiresAt(expiresAt)), []);
+
+  // Refresh shortly before the access token expires
+  useEffect(() => {
+    if (!user || !sessionExpiresAt) return;
+    const due = Math.max(sessionExpiresAt - Date.now() - TOKEN_REFRESH_SKEW_MS, 0);
+    // setTimeout overflows past ~24.8 days and fires at once, so far-off expiries wait in steps
+    if (due > MAX_TIMER_MS) {
+      const t = setTimeout(rearmRefresh, MAX_TIMER_MS);
+      return () => clearTimeout(t);
+    }
+    const t = setTimeout(() => {
+      refreshAccessToken().catch((e) => console.warn("Scheduled token refresh failed", e));
+    }, due);
+    return () => clearTimeout(t);
+  }, [user, sessionExpiresAt, refreshTick]);
+
+  // Timers don't run while the app is backgrounded; catch up when it returns
+  useEffect(() => {
+    const sub = AppState.addEventListener("change", (state) => {
+      if (state === "active") void ensureFreshAccessToken();
+    });
+    return () => sub.remove();
+  }, []);
+
   const signIn = async (d: { email: string; password: string }) => {
     const u = await apiLogin(d);
     setUser(u);
+    return u;
   };
 
   const signUp = async (d: { name: string; email: string; password: string }) => {
     const u = await apiRegister(d);
     setUser(u);
+    return u;
+  };
+
+  const verifyEmail = async (code: string) => {
+    await apiVerifyEmail(code);
+    await refreshProfile();
+  };
+
+  const resendVerification = () => apiResendVerification();
+
+  // Re-read /me afterwards so server-derived fields (avatarUrl, emailVerified) stay in sync
+  const updateProfile = async ({ avatar, ...fields }: ProfileUpdate) => {
+    if (avatar) await apiUploadAvatar(avatar);
+    if (fields.name !== undefined || fields.email !== undefined) await apiUpdateMe(fields);
+    await refreshProfile();
+  };
+
+  const changePassword = async (d: { currentPassword: string; newPassword: string }) => {
+    await apiChangePassword(d);
+    await refreshProfile();
   };
 
+  const needsVerification = !!user && user.emailVerified === false;
+
   const signOut = async () => {
-    await setTokens(null, null); // stateless logout
+    try {
+      await apiLogout();
+    } catch (e) {
+      // offline or already revoked: still forget the tokens locally
+      console.warn("Logout request failed", e);
+    }
+    await setTokens(null, null);
+    await clearOutbox();
+    setUser(null);
+  };
+
+  const signOutEverywhere = async () => {
+    await apiLogoutAll();
+    await setTokens(null, null);
+    await clearOutbox();
     setUser(null);
   };
 
+  const requestPasswordReset = (email: string) => apiForgotPassword(email);
+  const resetPassword = (d: { token: string; password: string }) => apiResetPassword(d);
+
+  const listSessions = () => apiSessions();
+  const revokeSession = (id: string) => apiRevokeSession(id);
+
 // Expose the current access token (or null)
   const getAccessToken = async () => {
     const { accessToken } = await getTokens();
     return accessToken ?? null;
   };
   return (
-    <AuthContext.Provider value={{ user, loading, signIn, signUp, signOut, refreshProfile, getAccessToken }}>
+    <AuthContext.Provider
+      value={{
+        user,
+        loading,
+        sessionExpiresAt,
+        needsVerification,
+        signIn,
+        signUp,
+        verifyEmail,
+        resendVerification,
+        signOut,
+        signOutEverywhere,
+        listSessions,
+        revokeSession,
+        requestPasswordReset,
+        resetPassword,
+        updateProfile,
+        changePassword,
+        refreshProfile,
+        getAccessToken,
+      }}
+    >
       {children}
     </AuthContext.Provider>
   );
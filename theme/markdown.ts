@@ -0,0 +1,60 @@
+import { useMemo } from "react";
+import type { TextStyle } from "react-native";
+import { useThemeMode } from "@/theme/ThemeProvider";
+
+// Theme-aware styles for react-native-markdown-display (summaries, note previews)
+export function useMarkdownStyles() {
+  const { colorScheme, colors } = useThemeMode();
+  const isDark = colorScheme === "dark";
+
+  return useMemo<Record<string, TextStyle>>(
+    () => ({
+      body: { color: colors.foreground },
+      text: { color: colors.foreground },
+      heading1: { color: colors.foreground, fontWeight: "700", marginBottom: 8 },
+      heading2: { color: colors.foreground, fontWeight: "700", marginBottom: 6 },
+      heading3: { color: colors.foreground, fontWeight: "700", marginBottom: 4 },
+      bullet_list: { marginVertical: 6 },
+      ordered_list: { marginVertical: 6 },
+      list_item: { marginVertical: 2 },
+      strong: { fontWeight: "700", color: colors.foreground },
+      em: { fontStyle: "italic", color: colors.foreground },
+      code_inline: {
+        backgroundColor: isDark ? colors.grey5 : colors.grey4,
+        borderRadius: 6,
+        paddingHorizontal: 6,
+        paddingVertical: 2,
+        color: colors.foreground,
+      },
+      fence: {
+        backgroundColor: isDark ? colors.grey5 : colors.grey4,
+        borderRadius: 10,
+        padding: 10,
+        color: colors.foreground,
+      },
+      table: { borderWidth: 1, borderColor: colors.grey4, borderRadius: 8, overflow: "hidden" },
+      thead: { backgroundColor: isDark ? colors.grey5 : colors.grey4 },
+      th: {
+        padding: 8,
+        borderWidth: 1,
+        borderColor: colors.grey4,
+        fontWeight: "700",
+        color: colors.foreground,
+      },
+      td: {
+        padding: 8,
+        borderWidth: 1,
+        borderColor: colors.grey4,
+        color: colors.foreground,
+      },
+      link: { color: colors.primary, textDecorationLine: "underline" },
+      blockquote: {
+        borderLeftWidth: 3,
+        borderLeftColor: colors.grey3,
+        paddingLeft: 10,
+        color: colors.foreground,
+      },
+    }),
+    [colors, isDark]
+  );
+}